@@ -1,61 +1,96 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Upload, Wand2, Music, Mic, Settings2, Loader2, PlayCircle, Image as ImageIcon, Volume2, Download, FileAudio, Clock, Play, Square, ChevronDown, Check, RefreshCw, MessageSquare } from 'lucide-react';
-import { geminiService } from './services/geminiService';
-import { pcmToAudioBuffer, decodeAudioFile, mixAudioAndExport, playPreview } from './services/audioUtils';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, Wand2, Music, Mic, Settings2, Loader2, PlayCircle, Image as ImageIcon, Volume2, Download, FileAudio, Clock, Play, Square, ChevronDown, Check, RefreshCw, MessageSquare, MonitorPlay, Captions, X, FolderOpen, Save, Layers, Settings, AlertTriangle, Undo2, Redo2, History, Users, Library, Sparkles, SpellCheck, HardDrive, Palette, Clapperboard } from 'lucide-react';
+import { getAIProvider } from './services/aiProvider';
+import { getAISettings, saveAISettings } from './services/aiSettings';
+import { getPronunciationSettings, savePronunciationSettings } from './services/pronunciation';
+import { decodeAudioFile, measureMix, playPreview, renderMaster } from './services/audioUtils';
+import { exportAudio } from './services/audioExport';
+import { downloadBlob } from './services/fileUtils';
+import { getErrorMessage } from './services/errorUtils';
+import { alignCaptionWords, buildCaptionCues, estimateCaptionWords, offsetCues } from './services/captions';
+import { getMixTimeline, getVoiceSlot } from './services/mixer';
+import { resolveMotionTemplate } from './services/motionTemplates';
+import { clampMusicEdit } from './services/musicArrange';
+import { getSfxEnd, placeSfxClips } from './services/sfxTimeline';
+import { createSlide, releaseSlideUrls, resolveSlideTimes } from './services/slideshow';
+import { listBrandKits, toBrandBrief } from './services/brandKits';
+import { listMusicTracks, LoadedTrack, loadTrackAudio, suggestTrack } from './services/musicLibrary';
+import { buildSubtitleCues, formatSrt, formatVtt, parseSubtitles } from './services/subtitles';
+import { serializeProject, restoreProject } from './services/projectSerializer';
+import { saveProject } from './services/projectStore';
+import { createVariant, generateScriptVariants, syncActiveVariant } from './services/scriptVariants';
+import { addScriptVersion } from './services/scriptHistory';
+import { getSpeakers, getSpokenText, parseDialogue } from './services/dialogue';
+import { canSynthesizeJointly, DEFAULT_DIALOGUE_GAP, getVoiceDemo, resolveSpeakerVoices, synthesizeScript } from './services/speechSynthesis';
+import { DurationFitResult, fitVoiceToDuration } from './services/durationFit';
+import { EMPTY_UNDO_STACK, pushUndo, redo, takeSnapshot, undo, UndoStack } from './services/undoHistory';
 import { VideoPreview } from './components/VideoPreview';
-import { VOICES, VOICE_STYLES, INITIAL_SCRIPT_PLACEHOLDER } from './constants';
-import { SpotState, VoiceOption } from './types';
+import { ProjectManager } from './components/ProjectManager';
+import { BatchPanel } from './components/BatchPanel';
+import { ScriptVariants } from './components/ScriptVariants';
+import { ScriptHistory } from './components/ScriptHistory';
+import { SettingsPanel } from './components/SettingsPanel';
+import { PronunciationPanel } from './components/PronunciationPanel';
+import { SpeechCachePanel } from './components/SpeechCachePanel';
+import { BrandKitPanel } from './components/BrandKitPanel';
+import { AudioExportDialog } from './components/AudioExportDialog';
+import { MixControls } from './components/MixControls';
+import { MusicLibrary } from './components/MusicLibrary';
+import { MusicEditor } from './components/MusicEditor';
+import { SfxTimeline } from './components/SfxTimeline';
+import { EndCardControls } from './components/EndCardControls';
+import { FocusRegionEditor } from './components/FocusRegionEditor';
+import { SlideStrip } from './components/SlideStrip';
+import { VOICES, VOICE_STYLES, INITIAL_SCRIPT_PLACEHOLDER, OUTPUT_PRESETS, SCRIPT_ANGLES, DEFAULT_MIX_SETTINGS, DEFAULT_MUSIC_EDIT, LOUDNESS_TARGETS, DEFAULT_AUDIO_EXPORT_OPTIONS, DEFAULT_END_CARD, MOTION_TEMPLATES } from './constants';
+import { SpotState, SpotProject, VoiceOption, AISettings, PronunciationSettings, ScriptVersion, LoudnessMeasurement, LoudnessReport, LoudnessTarget, AudioExportOptions, MusicBed, MusicEdit, MusicTrack, SfxClip, SfxSound, BrandKit, FocusRegion, Slide } from './types';
 
-// Helper to determine friendly error messages
-const getErrorMessage = (error: any) => {
-    // Extract status code if available in nested objects
-    const status = error?.status || error?.code || error?.error?.code || error?.error?.status;
-    
-    // Safely extract message from various JSON structures
-    let message = "Unknown Error";
-    try {
-        if (typeof error?.message === 'string') {
-            message = error.message;
-        } else if (error?.error?.message) {
-            message = error.error.message;
-        } else if (typeof error === 'object') {
-            message = JSON.stringify(error);
-        } else {
-            message = String(error);
-        }
-    } catch(e) {
-        message = "Could not parse error details";
-    }
+// Signed difference from the target length, e.g. "+0.4s"
+const formatDeviation = (seconds: number) => `${seconds >= 0 ? '+' : '−'}${Math.abs(seconds).toFixed(1)}s`;
 
-    const isQuota = status === 429 || message.includes('429') || message.includes('quota') || message.includes('RESOURCE_EXHAUSTED');
-    if (isQuota) {
-        return "⚠️ Has excedido tu cuota de uso de la API (Error 429). El sistema intentó reintentar varias veces pero los servidores siguen ocupados. Por favor espera 1 minuto e intenta de nuevo.";
-    }
-    
-    const isServer = (status >= 500 && status < 600) || message.includes('Internal') || message.includes('INTERNAL') || message.includes('500');
-    if (isServer) {
-        return "⚠️ Error interno temporal en Google Gemini (Error 500). El sistema reintentó pero el servicio está inestable. Por favor intenta cambiar el 'Estilo' a 'Natural' o espera unos segundos.";
-    }
+const formatLoudness = (value: number) => (isFinite(value) ? value.toFixed(1) : '-∞');
 
-    // Return specific error message if available and safe, otherwise generic
-    if (message && !message.includes('fetch') && message.length < 500) {
-        // Clean up message if it is stringified JSON
-        if (message.startsWith('{')) {
-            try {
-                const parsed = JSON.parse(message);
-                if (parsed.error && parsed.error.message) return `Error: ${parsed.error.message}`;
-            } catch(e) {}
-        }
-        return `Error: ${message}`;
-    }
-    
-    return "Ocurrió un error inesperado al conectar con Gemini. Verifica tu conexión a internet o tu API Key.";
+// Delivery specs allow ±0.5 LU around the target; the true peak may not pass the ceiling
+const LOUDNESS_TOLERANCE_LU = 0.5;
+
+// Whether a measured output meets the target. Without normalization only the true peak is checked.
+const isLoudnessCompliant = (output: LoudnessMeasurement, target: LoudnessTarget) =>
+  (target.lufs === null || Math.abs(output.integrated - target.lufs) <= LOUDNESS_TOLERANCE_LU) &&
+  output.truePeak <= target.truePeak + 0.05;
+
+// The readout measures the mix as rendered, and the normalized master once an export or a check has rendered it
+const describeLoudness = (mix: LoudnessMeasurement | null, master: LoudnessReport | null, target: LoudnessTarget) => {
+  if (!mix) return 'Midiendo sonoridad...';
+  const lines = [`Mezcla: ${formatLoudness(mix.integrated)} LUFS, pico ${formatLoudness(mix.truePeak)} dBTP`];
+  if (target.lufs === null) {
+    lines.push('Exportación: sin normalizar');
+  } else if (master) {
+    const { output, gainDb, limiterDb } = master;
+    lines.push(`Exportación medida: ${formatLoudness(output.integrated)} LUFS, pico ${formatLoudness(output.truePeak)} dBTP (ganancia ${gainDb >= 0 ? '+' : ''}${gainDb.toFixed(1)} dB, limitador ${limiterDb.toFixed(1)} dB)`);
+    lines.push(`Objetivo: ${target.lufs} ±${LOUDNESS_TOLERANCE_LU} LUFS, pico máx. ${target.truePeak} dBTP`);
+  } else {
+    lines.push(`Exportación: se normaliza a ${target.lufs} LUFS, pico máx. ${target.truePeak} dBTP. Haz clic para medir el resultado.`);
+  }
+  return lines.join('\n');
 };
 
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
   const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [isAudioExportOpen, setIsAudioExportOpen] = useState(false);
+  const [audioExportOptions, setAudioExportOptions] = useState<AudioExportOptions>(DEFAULT_AUDIO_EXPORT_OPTIONS);
   const [isUpdatingAudio, setIsUpdatingAudio] = useState(false);
+  const [isGeneratingVariants, setIsGeneratingVariants] = useState(false);
+  const [voiceProgress, setVoiceProgress] = useState<string | null>(null);
+  const [fitReport, setFitReport] = useState<DurationFitResult | null>(null);
+  const [mixLoudness, setMixLoudness] = useState<LoudnessMeasurement | null>(null);
+  const [masterLoudness, setMasterLoudness] = useState<{ mix: object; report: LoudnessReport } | null>(null);
+  const [isCheckingLoudness, setIsCheckingLoudness] = useState(false);
+  const [isMusicLibraryOpen, setIsMusicLibraryOpen] = useState(false);
+  const [suggestedTrack, setSuggestedTrack] = useState<MusicTrack | null>(null);
+  const [musicTempo, setMusicTempo] = useState<number | null>(null);
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [isBrandKitsOpen, setIsBrandKitsOpen] = useState(false);
   
   // Voice Dropdown State
   const [isVoiceDropdownOpen, setIsVoiceDropdownOpen] = useState(false);
@@ -63,9 +98,28 @@ const App: React.FC = () => {
   
   const stopPreviewRef = useRef<(() => void) | null>(null);
 
+  // AI settings (mirrors the stored settings so the UI re-renders on change)
+  const [aiSettings, setAiSettings] = useState<AISettings>(getAISettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(() => !getAIProvider().isConfigured());
+
+  // Undo/redo of manual edits, and the script history modal
+  const [undoStack, setUndoStack] = useState<UndoStack>(EMPTY_UNDO_STACK);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isPronunciationOpen, setIsPronunciationOpen] = useState(false);
+  const [isSpeechCacheOpen, setIsSpeechCacheOpen] = useState(false);
+  const [pronunciation, setPronunciation] = useState<PronunciationSettings>(getPronunciationSettings);
+
+  // Project State
+  const [isProjectManagerOpen, setIsProjectManagerOpen] = useState(false);
+  const [isBatchOpen, setIsBatchOpen] = useState(false);
+  const [isSavingProject, setIsSavingProject] = useState(false);
+  const [currentProject, setCurrentProject] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+
+  // Slide shown in the strip and the framing editor
+  const [selectedSlideId, setSelectedSlideId] = useState<string | null>(null);
+
   const [state, setState] = useState<SpotState>({
-    image: null,
-    imageUrl: null,
+    slides: [],
     isAnalyzing: false,
     isGeneratingVoice: false,
     isRewriting: false,
@@ -75,12 +129,132 @@ const App: React.FC = () => {
     audioBuffer: null,
     musicBuffer: null,
     musicFileName: null,
+    musicFile: null,
+    musicTrackId: null,
+    musicEdit: DEFAULT_MUSIC_EDIT,
+    sfxClips: [],
+    sfxSounds: {},
     voiceProfile: VOICES[0].id,
     voiceStyle: VOICE_STYLES[0].id,
+    scriptFormat: 'monologue',
+    speakerVoices: {},
+    dialogueGap: DEFAULT_DIALOGUE_GAP,
+    jointDialogue: false,
+    fitDuration: true,
     musicVolume: 0.25, // Default ~ Medium intensity
-    duration: 15
+    mixSettings: DEFAULT_MIX_SETTINGS,
+    loudnessTarget: LOUDNESS_TARGETS[0].id,
+    duration: 15,
+    outputPreset: OUTPUT_PRESETS[0].id,
+    captionOverride: null,
+    variants: [],
+    activeVariantId: null,
+    scriptHistory: [],
+    brandKitId: null,
+    endCard: DEFAULT_END_CARD,
+    motionTemplateId: null
   });
 
+  // Caption timing: aligned to the generated voice when there is one, estimated otherwise
+  const captionWords = useMemo(() => (
+    state.audioBuffer
+      ? alignCaptionWords(getSpokenText(state.script), state.audioBuffer)
+      : estimateCaptionWords(getSpokenText(state.script), 10)
+  ), [state.script, state.audioBuffer]);
+
+  // A kit deleted in the meantime simply stops applying
+  const activeBrandKit = brandKits.find(kit => kit.id === state.brandKitId) || null;
+  const brandBrief = toBrandBrief(activeBrandKit);
+
+  // Speaker tags in the script switch the voice controls to a per-speaker cast
+  const dialogueSpeakers = useMemo(() => {
+    const lines = parseDialogue(state.script);
+    return lines ? getSpeakers(lines) : [];
+  }, [state.script]);
+
+  const captions = useMemo(() => (
+    state.captionOverride || buildCaptionCues(captionWords)
+  ), [state.captionOverride, captionWords]);
+
+  const musicBed = useMemo<MusicBed | null>(() => (
+    state.musicBuffer ? { buffer: state.musicBuffer, edit: state.musicEdit } : null
+  ), [state.musicBuffer, state.musicEdit]);
+
+  // Seconds of music before the voice in the exported spot
+  const voiceStart = state.audioBuffer ? getMixTimeline(state.audioBuffer.duration, !!state.musicBuffer, state.mixSettings).voiceStart : 0;
+
+  // Effects resolved to spot time; word anchors follow the voice and the music intro before it
+  const placedSfx = useMemo(() => (
+    placeSfxClips(state.sfxClips, state.sfxSounds, captionWords, voiceStart)
+  ), [state.sfxClips, state.sfxSounds, captionWords, voiceStart]);
+
+  // Seconds the end card adds after the music outro
+  const endCardSeconds = state.endCard.enabled ? state.endCard.duration : 0;
+
+  // Same timeline as the preview: without a voice the picture runs on a nominal 10 s
+  const spotTimeline = state.audioBuffer
+    ? getMixTimeline(state.audioBuffer.duration, !!state.musicBuffer, state.mixSettings, getSfxEnd(placedSfx), endCardSeconds)
+    : { voiceStart: 0, endCardStart: 10, duration: Math.max(10 + endCardSeconds, getSfxEnd(placedSfx)) };
+
+  // When each slide is on screen; phrase anchors and mentions follow the voice like the effects do
+  const slideTimes = useMemo(() => (
+    resolveSlideTimes(state.slides, captionWords, spotTimeline.voiceStart, spotTimeline.endCardStart)
+  ), [state.slides, captionWords, spotTimeline.voiceStart, spotTimeline.endCardStart]);
+
+  const selectedSlide = state.slides.find(slide => slide.id === selectedSlideId) || state.slides[0] || null;
+
+  // Slide images stay loaded while the spot or an undo step holds them; replaced, removed and
+  // closed slideshows are released once neither does
+  const slideUrlsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const reachable = [state.slides, ...undoStack.past.map(s => s.slides), ...undoStack.future.map(s => s.slides)].flat();
+    slideUrlsRef.current = releaseSlideUrls(slideUrlsRef.current, reachable);
+  }, [state.slides, undoStack]);
+
+  // Identity of the current mix: a master report only applies to the mix it was rendered from
+  const mixKey = useMemo(() => ({}), [state.audioBuffer, musicBed, placedSfx, endCardSeconds, state.musicVolume, state.mixSettings]);
+
+  // Loudness of the mix before normalization, measured in the background once edits settle.
+  // The normalizer itself only runs on export or when the result is checked.
+  useEffect(() => {
+    setMixLoudness(null);
+    if (!state.audioBuffer) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const loudness = await measureMix(state.audioBuffer!, musicBed, placedSfx, endCardSeconds, state.musicVolume, state.mixSettings);
+        if (!cancelled) setMixLoudness(loudness);
+      } catch (error) {
+        console.error("Loudness measurement failed", error);
+      }
+    }, 600);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state.audioBuffer, musicBed, placedSfx, endCardSeconds, state.musicVolume, state.mixSettings]);
+
+  // Tempo of the library track in use, for the beat-synced punch-zoom; uploaded files have none
+  useEffect(() => {
+    setMusicTempo(null);
+    if (!state.musicTrackId) return;
+    let cancelled = false;
+    listMusicTracks()
+      .then(tracks => {
+        if (!cancelled) setMusicTempo(tracks.find(track => track.id === state.musicTrackId)?.tempo ?? null);
+      })
+      .catch(error => console.error("Failed to list music tracks", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [state.musicTrackId]);
+
+  const refreshBrandKits = () => listBrandKits().then(setBrandKits).catch(error => console.error("Failed to list brand kits", error));
+
+  useEffect(() => {
+    refreshBrandKits();
+  }, []);
+
   // Stop any active preview if component unmounts or state changes
   useEffect(() => {
     return () => {
@@ -88,32 +262,89 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Records the editable state before a change; see pushUndo for how keyed changes coalesce
+  const recordUndo = (key?: string) => {
+    setUndoStack(prev => pushUndo(prev, takeSnapshot(state), key));
+  };
+
+  const handleUndo = () => {
+    const result = undo(undoStack, takeSnapshot(state));
+    if (!result) return;
+    setUndoStack(result.stack);
+    setState(prev => ({ ...prev, ...result.snapshot }));
+  };
+
+  const handleRedo = () => {
+    const result = redo(undoStack, takeSnapshot(state));
+    if (!result) return;
+    setUndoStack(result.stack);
+    setState(prev => ({ ...prev, ...result.snapshot }));
+  };
+
+  // Ctrl/Cmd+Z outside text fields; inside them the browser's own undo applies
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT') return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleRestoreVersion = (version: ScriptVersion) => {
+    recordUndo();
+    setState(prev => ({ ...prev, script: version.script, audioBuffer: null, captionOverride: null }));
+  };
+
+  // Several images make a slideshow; they are analyzed together so the script walks through them
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
+    if (!event.target.files || event.target.files.length === 0) return;
+    const files = Array.from<File>(event.target.files);
 
-    const url = URL.createObjectURL(file);
+    const slides = files.map(file => createSlide(file));
     setState(prev => ({ 
       ...prev, 
-      image: file, 
-      imageUrl: url, 
+      slides,
       isAnalyzing: true,
       analysisData: null,
       script: 'Analizando imagen y generando guion creativo...',
+      captionOverride: null,
       audioBuffer: null,
       musicBuffer: null,
-      musicFileName: null
+      musicFileName: null,
+      musicFile: null,
+      musicTrackId: null,
+      musicEdit: DEFAULT_MUSIC_EDIT,
+      sfxClips: [],
+      sfxSounds: {},
+      variants: [],
+      activeVariantId: null,
+      scriptHistory: []
     }));
+    setUndoStack(EMPTY_UNDO_STACK);
+    setSuggestedTrack(null);
+    setSelectedSlideId(slides[0].id);
 
     try {
       // Pass the current duration preference to the analysis
-      const { analysis, script } = await geminiService.analyzeImage(file, state.duration);
+      const { analysis, script, regions } = await getAIProvider().analyzeImages(files, state.duration, state.scriptFormat, brandBrief);
       setState(prev => ({
         ...prev,
         isAnalyzing: false,
         analysisData: analysis,
-        script: script
+        // Matched by id, in case the slides were reordered while the analysis ran
+        slides: prev.slides.map(slide => {
+          const index = slides.findIndex(s => s.id === slide.id);
+          return index >= 0 ? { ...slide, regions: regions[index] || [] } : slide;
+        }),
+        script: script,
+        scriptHistory: addScriptVersion(prev.scriptHistory, script, 'analysis')
       }));
+      applySuggestedTrack(analysis.mood);
     } catch (error) {
       console.error("Analysis failed", error);
       setState(prev => ({ 
@@ -124,19 +355,32 @@ const App: React.FC = () => {
     }
   };
 
+  // Creative angle of the variant being edited, so rewrites keep it
+  const activeAngleInstruction = () => {
+    const angleId = state.variants.find(v => v.id === state.activeVariantId)?.angle;
+    return SCRIPT_ANGLES.find(a => a.id === angleId)?.instruction || undefined;
+  };
+
   const handleDurationChange = async (newDuration: number) => {
+    recordUndo();
     setState(prev => ({ ...prev, duration: newDuration }));
 
     // If we have analysis data, regenerate the script immediately
     if (state.analysisData) {
         setState(prev => ({ ...prev, isRewriting: true }));
         try {
-            const newScript = await geminiService.rewriteScript(state.analysisData, newDuration);
+            const newScript = await getAIProvider().rewriteScript(state.analysisData, newDuration, {
+                angleInstruction: activeAngleInstruction(),
+                format: state.scriptFormat,
+                brand: brandBrief
+            });
             setState(prev => ({ 
                 ...prev, 
                 script: newScript, 
+                scriptHistory: addScriptVersion(prev.scriptHistory, newScript, 'duration'),
                 isRewriting: false,
-                audioBuffer: null
+                audioBuffer: null,
+                captionOverride: null
             }));
         } catch (error) {
             console.error("Rewrite failed", error);
@@ -146,6 +390,147 @@ const App: React.FC = () => {
     }
   };
 
+  const handleGenerateVariants = async (angleIds: string[]) => {
+    if (!state.analysisData) return;
+
+    // The script from the analysis becomes the first variant, so it can be compared and restored
+    setState(prev => {
+      if (prev.variants.length > 0) return prev;
+      const original = createVariant('original', prev.script, prev.audioBuffer);
+      return { ...prev, variants: [original], activeVariantId: original.id };
+    });
+
+    setIsGeneratingVariants(true);
+    try {
+      await generateScriptVariants(state.analysisData, state.duration, angleIds, state.scriptFormat, brandBrief, variant => {
+        setState(prev => ({
+          ...prev,
+          variants: [...prev.variants, variant],
+          scriptHistory: addScriptVersion(prev.scriptHistory, variant.script, 'rewrite')
+        }));
+      });
+    } catch (error) {
+      console.error("Variant generation failed", error);
+      alert(getErrorMessage(error));
+    } finally {
+      setIsGeneratingVariants(false);
+    }
+  };
+
+  // Parks the current script and voice in the active variant and loads the selected one
+  const handleSelectVariant = (id: string) => {
+    recordUndo();
+    setState(prev => {
+      const variants = syncActiveVariant(prev);
+      const variant = variants.find(v => v.id === id);
+      if (!variant) return prev;
+      return {
+        ...prev,
+        variants,
+        activeVariantId: id,
+        script: variant.script,
+        audioBuffer: variant.audioBuffer,
+        captionOverride: null
+      };
+    });
+  };
+
+  const handleToggleVariantStar = (id: string) => {
+    setState(prev => ({
+      ...prev,
+      variants: prev.variants.map(v => v.id === id ? { ...v, starred: !v.starred } : v)
+    }));
+  };
+
+  const handleDeleteVariant = (id: string) => {
+    setState(prev => ({ ...prev, variants: prev.variants.filter(v => v.id !== id) }));
+  };
+
+  const trackState = (track: MusicTrack, loaded: LoadedTrack): Partial<SpotState> => ({
+    musicBuffer: loaded.buffer,
+    musicFileName: loaded.file?.name || track.name,
+    musicFile: loaded.file,
+    musicTrackId: track.id,
+    // Built-in tracks are composed with an ending after the loop section
+    musicEdit: { ...DEFAULT_MUSIC_EDIT, loop: track.loop, fitEnding: track.builtin },
+  });
+
+  // Picks the library track that fits the detected mood and loads it, unless music was chosen meanwhile
+  const applySuggestedTrack = async (mood: string) => {
+    try {
+      const track = suggestTrack(mood, await listMusicTracks());
+      setSuggestedTrack(track);
+      if (!track) return;
+      const loaded = await loadTrackAudio(track);
+      setState(prev => prev.musicBuffer ? prev : { ...prev, ...trackState(track, loaded) });
+    } catch (error) {
+      console.error("Music suggestion failed", error);
+    }
+  };
+
+  const handleSelectTrack = (track: MusicTrack, loaded: LoadedTrack) => {
+    recordUndo();
+    setState(prev => ({ ...prev, ...trackState(track, loaded) }));
+    setIsMusicLibraryOpen(false);
+  };
+
+  const handleUseSuggestedTrack = async () => {
+    if (!suggestedTrack) return;
+    try {
+      handleSelectTrack(suggestedTrack, await loadTrackAudio(suggestedTrack));
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+    }
+  };
+
+  const handleClearMusic = () => {
+    recordUndo();
+    setState(prev => ({ ...prev, musicBuffer: null, musicFileName: null, musicFile: null, musicTrackId: null, musicEdit: DEFAULT_MUSIC_EDIT }));
+  };
+
+  const handleMusicEditChange = (changes: Partial<MusicEdit>) => {
+    if (!state.musicBuffer) return;
+    recordUndo('musicEdit');
+    setState(prev => ({
+      ...prev,
+      musicEdit: prev.musicBuffer ? clampMusicEdit({ ...prev.musicEdit, ...changes }, prev.musicBuffer.duration) : prev.musicEdit
+    }));
+  };
+
+  // Later images join the slideshow as they are, without regions; the script is left alone
+  const handleAddSlides = (files: File[]) => {
+    recordUndo();
+    const slides = files.map(file => createSlide(file));
+    setState(prev => ({ ...prev, slides: [...prev.slides, ...slides] }));
+    setSelectedSlideId(slides[0].id);
+  };
+
+  const handleSlidesChange = (slides: Slide[]) => {
+    recordUndo('slides');
+    setState(prev => ({ ...prev, slides }));
+  };
+
+  const handleRegionsChange = (id: string, regions: FocusRegion[]) => {
+    recordUndo(`regions:${id}`);
+    setState(prev => ({ ...prev, slides: prev.slides.map(slide => slide.id === id ? { ...slide, regions } : slide) }));
+  };
+
+  const handleAddSfx = (clip: SfxClip, sound: SfxSound) => {
+    recordUndo();
+    setState(prev => ({ ...prev, sfxClips: [...prev.sfxClips, clip], sfxSounds: { ...prev.sfxSounds, [clip.soundId]: sound } }));
+  };
+
+  const handleSfxChange = (id: string, changes: Partial<SfxClip>) => {
+    recordUndo(`sfx:${id}`);
+    setState(prev => ({ ...prev, sfxClips: prev.sfxClips.map(clip => clip.id === id ? { ...clip, ...changes } : clip) }));
+  };
+
+  const handleRemoveSfx = (id: string) => {
+    recordUndo();
+    setState(prev => ({ ...prev, sfxClips: prev.sfxClips.filter(clip => clip.id !== id) }));
+  };
+
   const handleMusicUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -154,10 +539,14 @@ const App: React.FC = () => {
       const arrayBuffer = await file.arrayBuffer();
       const decodedBuffer = await decodeAudioFile(arrayBuffer);
       
+      recordUndo();
       setState(prev => ({
         ...prev,
         musicBuffer: decodedBuffer,
-        musicFileName: file.name
+        musicFileName: file.name,
+        musicFile: file,
+        musicTrackId: null,
+        musicEdit: DEFAULT_MUSIC_EDIT
       }));
     } catch (error) {
       console.error("Error loading music file", error);
@@ -165,20 +554,32 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDownloadAudio = async () => {
+  // Keeps what the normalizer actually delivered for this mix, from an export or a check
+  const handleMastered = (mix: object) => (report: LoudnessReport) => setMasterLoudness({ mix, report });
+
+  const handleCheckLoudness = async () => {
+    if (!state.audioBuffer || isCheckingLoudness) return;
+    setIsCheckingLoudness(true);
+    try {
+      const { loudness } = await renderMaster(state.audioBuffer, musicBed, placedSfx, endCardSeconds, state.musicVolume, state.mixSettings, selectedLoudnessTarget);
+      handleMastered(mixKey)(loudness);
+    } catch (error) {
+      console.error("Loudness check failed", error);
+    } finally {
+      setIsCheckingLoudness(false);
+    }
+  };
+
+  const handleDownloadAudio = async (options: AudioExportOptions) => {
     if (!state.audioBuffer) return;
     
+    setAudioExportOptions(options);
+    setIsAudioExportOpen(false);
     setIsExportingAudio(true);
     try {
-      const blob = await mixAudioAndExport(state.audioBuffer, state.musicBuffer, state.musicVolume);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `spot_audio_${Date.now()}.wav`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      const result = await exportAudio(state.audioBuffer, musicBed, placedSfx, endCardSeconds, state.musicVolume, state.mixSettings, selectedLoudnessTarget, options);
+      handleMastered(mixKey)(result.loudness);
+      downloadBlob(result.blob, result.fileName);
     } catch (error) {
       console.error(error);
       alert("Error exportando el audio.");
@@ -187,6 +588,69 @@ const App: React.FC = () => {
     }
   };
 
+  const handleDownloadSubtitles = (format: 'srt' | 'vtt') => {
+    if (!state.audioBuffer) return;
+
+    // Imported subtitles are exported as they came in; otherwise re-chunk the aligned words for subtitle reading speed.
+    // Captions are kept in voice time, subtitle files are in spot time (after the music intro).
+    const cues = offsetCues(state.captionOverride || buildSubtitleCues(captionWords), voiceStart);
+    const content = format === 'srt' ? formatSrt(cues) : formatVtt(cues);
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), `spot_subtitulos_${Date.now()}.${format}`);
+  };
+
+  const handleSubtitleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // allow re-importing the same file after edits
+    if (!file) return;
+
+    try {
+      const cues = offsetCues(parseSubtitles(await file.text()), -voiceStart);
+      recordUndo();
+      setState(prev => ({ ...prev, captionOverride: cues }));
+    } catch (error: any) {
+      console.error("Error loading subtitle file", error);
+      alert(error?.message || "Error al cargar el archivo de subtítulos.");
+    }
+  };
+
+  const defaultProjectName = currentProject?.name || state.analysisData?.headline || 'Spot sin título';
+
+  const handleSaveProject = async (name: string, asNew: boolean = false) => {
+    const meta = currentProject && !asNew
+      ? { ...currentProject, name }
+      : { id: crypto.randomUUID(), name, createdAt: Date.now() };
+
+    const project = await serializeProject(state, meta);
+    await saveProject(project);
+    setCurrentProject(meta);
+  };
+
+  const handleQuickSave = async () => {
+    if (!currentProject) {
+      setIsProjectManagerOpen(true);
+      return;
+    }
+    setIsSavingProject(true);
+    try {
+      await handleSaveProject(currentProject.name);
+    } catch (error) {
+      console.error("Project save failed", error);
+      alert("Error guardando el proyecto.");
+    } finally {
+      setIsSavingProject(false);
+    }
+  };
+
+  const handleOpenProject = async (project: SpotProject) => {
+    if (stopPreviewRef.current) stopPreviewRef.current();
+    const restored = await restoreProject(project);
+    setState(prev => ({ ...prev, ...restored }));
+    setSelectedSlideId(null);
+    setUndoStack(EMPTY_UNDO_STACK);
+    setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+  };
+
   const handlePreviewVoice = async (e: React.MouseEvent, voice: VoiceOption) => {
     e.stopPropagation();
     
@@ -205,16 +669,8 @@ const App: React.FC = () => {
     setPreviewingVoiceId(voice.id);
 
     try {
-        // Find instruction for current style, or default
-        const style = VOICE_STYLES.find(s => s.id === state.voiceStyle)?.instruction || "Speak naturally.";
-        
-        const pcmBuffer = await geminiService.generateSpeech(
-            "Esta es mi voz para spot publicitario en español.", 
-            voice.geminiName,
-            style
-        );
-        
-        const audioBuffer = pcmToAudioBuffer(pcmBuffer, 24000);
+        // Bundled demo, cached or freshly synthesized in the current style
+        const audioBuffer = await getVoiceDemo(voice, state.voiceStyle);
         
         stopPreviewRef.current = playPreview(audioBuffer, () => {
              setPreviewingVoiceId(current => current === voice.id ? null : current);
@@ -227,31 +683,65 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSpeakerVoiceChange = (speaker: string, voiceId: string) => {
+    recordUndo();
+    setState(prev => ({ ...prev, speakerVoices: { ...prev.speakerVoices, [speaker]: voiceId }, audioBuffer: null }));
+  };
+
+  // The kit's preferred voice and style replace the current ones; the copy is not rewritten
+  const handleSelectBrandKit = (kit: BrandKit | null) => {
+    recordUndo();
+    setState(prev => {
+      const voiceProfile = kit?.voiceProfile || prev.voiceProfile;
+      const voiceStyle = kit?.voiceStyle || prev.voiceStyle;
+      const voiceChanged = voiceProfile !== prev.voiceProfile || voiceStyle !== prev.voiceStyle;
+      return { ...prev, brandKitId: kit?.id ?? null, voiceProfile, voiceStyle, audioBuffer: voiceChanged ? null : prev.audioBuffer };
+    });
+  };
+
   const selectVoice = (voiceId: string) => {
+    recordUndo();
     setState(prev => ({ ...prev, voiceProfile: voiceId, audioBuffer: null }));
     setIsVoiceDropdownOpen(false);
   };
 
+  // Synthesizes the current script, fitted to the target duration when that option is on: the voice
+  // gets what the music intro, outro and end card leave of the slot. Only a full generation may
+  // rewrite the copy to make it fit.
+  const produceVoice = async (allowRewrite: boolean): Promise<{ script: string; audioBuffer: AudioBuffer }> => {
+    if (!state.fitDuration) {
+      setFitReport(null);
+      return { script: state.script, audioBuffer: await synthesizeScript(state.script, state) };
+    }
+    try {
+      const voiceSlot = getVoiceSlot(state.duration, !!state.musicBuffer, state.mixSettings, endCardSeconds);
+      const fit = await fitVoiceToDuration(state.script, voiceSlot, state, {
+        analysis: state.analysisData,
+        format: state.scriptFormat,
+        angleInstruction: activeAngleInstruction(),
+        brand: brandBrief,
+        allowRewrite,
+        onProgress: setVoiceProgress
+      });
+      setFitReport(fit);
+      return fit;
+    } finally {
+      setVoiceProgress(null);
+    }
+  };
+
   const handleUpdateAudio = async () => {
     if (!state.script) return;
     
     setIsUpdatingAudio(true);
     try {
-        const selectedVoice = VOICES.find(v => v.id === state.voiceProfile);
-        const selectedStyle = VOICE_STYLES.find(s => s.id === state.voiceStyle);
-        if (!selectedVoice) throw new Error("Voice not found");
-
-        const audioBufferData = await geminiService.generateSpeech(
-            state.script, 
-            selectedVoice.geminiName,
-            selectedStyle?.instruction
-        );
-        
-        const decodedVoiceBuffer = pcmToAudioBuffer(audioBufferData, 24000);
+        // The script was just corrected by hand, so it is only stretched, never rewritten
+        const { audioBuffer } = await produceVoice(false);
         
+        recordUndo();
         setState(prev => ({
             ...prev,
-            audioBuffer: decodedVoiceBuffer
+            audioBuffer
         }));
     } catch (error) {
         console.error("Failed to update audio", error);
@@ -266,24 +756,18 @@ const App: React.FC = () => {
 
     setState(prev => ({ ...prev, isGeneratingVoice: true }));
     try {
-      const selectedVoice = VOICES.find(v => v.id === state.voiceProfile);
-      const selectedStyle = VOICE_STYLES.find(s => s.id === state.voiceStyle);
-      if (!selectedVoice) throw new Error("Voice not found");
-
-      // 1. Generate Voice (Gemini API)
-      const audioBufferData = await geminiService.generateSpeech(
-          state.script, 
-          selectedVoice.geminiName,
-          selectedStyle?.instruction
-      );
-      const decodedVoiceBuffer = pcmToAudioBuffer(audioBufferData, 24000);
+      // 1. Generate Voice, rewriting and stretching it to the slot length if needed
+      const { script, audioBuffer } = await produceVoice(true);
 
       // 2. Music is already loaded in state.musicBuffer (if uploaded)
 
+      recordUndo();
       setState(prev => ({
         ...prev,
         isGeneratingVoice: false,
-        audioBuffer: decodedVoiceBuffer,
+        audioBuffer,
+        script,
+        scriptHistory: script !== prev.script ? addScriptVersion(prev.scriptHistory, script, 'duration') : prev.scriptHistory,
       }));
     } catch (error) {
       console.error("Spot generation failed", error);
@@ -292,25 +776,33 @@ const App: React.FC = () => {
     }
   };
 
-  // Check API Key
-  const hasApiKey = !!process.env.API_KEY;
+  const handleSaveSettings = (settings: AISettings) => {
+    saveAISettings(settings);
+    setAiSettings(settings);
+  };
+
+  const handleSavePronunciation = (settings: PronunciationSettings) => {
+    savePronunciationSettings(settings);
+    setPronunciation(settings);
+  };
+
+  // Re-evaluated on every render, so saving the settings updates the banner immediately
+  const aiProvider = getAIProvider();
+  const isProviderConfigured = aiProvider.isConfigured();
   const selectedVoiceOption = VOICES.find(v => v.id === state.voiceProfile);
+  const speakerVoiceIds = resolveSpeakerVoices(dialogueSpeakers, state.speakerVoices, state.voiceProfile);
+  const canUseJointDialogue = canSynthesizeJointly(aiProvider, dialogueSpeakers.length);
+  const selectedPreset = OUTPUT_PRESETS.find(p => p.id === state.outputPreset) || OUTPUT_PRESETS[0];
+  const selectedMotion = resolveMotionTemplate(state.motionTemplateId, state.analysisData?.mood);
+  const selectedLoudnessTarget = LOUDNESS_TARGETS.find(t => t.id === state.loudnessTarget) || LOUDNESS_TARGETS[0];
+  const masterReport = masterLoudness && masterLoudness.mix === mixKey && masterLoudness.report.target.id === selectedLoudnessTarget.id
+    ? masterLoudness.report
+    : null;
 
   const closeDropdowns = () => {
     setIsVoiceDropdownOpen(false);
   };
 
-  if (!hasApiKey) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-900 text-white p-4">
-        <div className="max-w-md text-center space-y-4">
-          <h1 className="text-3xl font-bold text-red-500">API Key Faltante</h1>
-          <p>Esta aplicación requiere una API Key de Google Gemini para funcionar.</p>
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-[#0f172a] text-slate-200 font-sans selection:bg-indigo-500 selection:text-white" onClick={closeDropdowns}>
       {/* Header */}
@@ -325,7 +817,49 @@ const App: React.FC = () => {
             </span>
           </div>
           <div className="flex items-center gap-4 text-sm text-slate-400">
-            <span className="hidden md:inline">Generador de Spots Publicitarios</span>
+            <div className="flex items-center gap-1">
+              {currentProject && (
+                <span className="hidden sm:inline max-w-[180px] truncate text-slate-300 mr-2" title={currentProject.name}>{currentProject.name}</span>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); handleQuickSave(); }}
+                disabled={isSavingProject || state.slides.length === 0}
+                className="p-2 rounded-lg hover:bg-white/10 hover:text-white transition-colors disabled:opacity-40"
+                title="Guardar proyecto"
+              >
+                {isSavingProject ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); setIsProjectManagerOpen(true); }}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+              >
+                <FolderOpen className="w-4 h-4" /> <span className="hidden sm:inline">Proyectos</span>
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); setIsBatchOpen(true); }}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+              >
+                <Layers className="w-4 h-4" /> <span className="hidden sm:inline">Lote</span>
+              </button>
+            </div>
+            <div className="h-4 w-px bg-slate-700"></div>
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsSpeechCacheOpen(true); }}
+              className="p-2 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+              title="Caché de voz"
+            >
+              <HardDrive className="w-4 h-4" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsSettingsOpen(true); }}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg hover:bg-white/10 hover:text-white transition-colors"
+              title="Configuración de IA"
+            >
+              <Settings className="w-4 h-4" />
+              <span className="hidden md:inline text-xs">{aiProvider.name}</span>
+              {!isProviderConfigured && <span className="w-2 h-2 rounded-full bg-red-500"></span>}
+            </button>
+            <span className="hidden xl:inline">Generador de Spots Publicitarios</span>
             <div className="h-4 w-px bg-slate-700"></div>
             <span className="text-indigo-400 font-medium">v1.3.3</span>
           </div>
@@ -333,6 +867,19 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto p-4 lg:p-8">
+        {!isProviderConfigured && (
+          <div className="mb-6 flex items-center gap-3 p-4 rounded-xl border border-amber-500/30 bg-amber-500/10 text-amber-200 text-sm">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            <span className="flex-1">El proveedor "{aiProvider.name}" no está configurado. Agrega tu API Key o elige otro proveedor para generar spots.</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsSettingsOpen(true); }}
+              className="px-3 py-1.5 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-100 font-medium"
+            >
+              Configurar
+            </button>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
           {/* LEFT COLUMN: Controls & Input */}
@@ -349,18 +896,24 @@ const App: React.FC = () => {
                 <input 
                   type="file" 
                   accept="image/*"
+                  multiple
                   onChange={handleImageUpload}
                   className="absolute inset-0 w-full h-full opacity-0 z-10 cursor-pointer"
                 />
                 <div className={`
                   border-2 border-dashed rounded-xl p-8 flex flex-col items-center justify-center text-center transition-all
-                  ${state.imageUrl ? 'border-indigo-500/50 bg-indigo-500/5' : 'border-slate-600 hover:border-slate-500 hover:bg-slate-700/30'}
+                  ${state.slides.length > 0 ? 'border-indigo-500/50 bg-indigo-500/5' : 'border-slate-600 hover:border-slate-500 hover:bg-slate-700/30'}
                 `}>
-                  {state.imageUrl ? (
+                  {state.slides.length > 0 ? (
                     <div className="relative w-full aspect-[16/9] rounded-lg overflow-hidden shadow-lg">
-                      <img src={state.imageUrl} alt="Uploaded" className="w-full h-full object-cover" />
+                      <img src={state.slides[0].imageUrl} alt="Uploaded" className="w-full h-full object-cover" />
+                      {state.slides.length > 1 && (
+                        <span className="absolute top-2 right-2 px-2 py-0.5 rounded-md bg-black/70 text-xs font-medium text-white">
+                          {state.slides.length} diapositivas
+                        </span>
+                      )}
                       <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                        <span className="text-white font-medium flex items-center gap-2"><Upload className="w-4 h-4"/> Cambiar Imagen</span>
+                        <span className="text-white font-medium flex items-center gap-2"><Upload className="w-4 h-4"/> Cambiar Imágenes</span>
                       </div>
                     </div>
                   ) : (
@@ -369,12 +922,31 @@ const App: React.FC = () => {
                         <Upload className="w-6 h-6" />
                       </div>
                       <p className="text-slate-300 font-medium">Arrastra o haz click para subir</p>
-                      <p className="text-xs text-slate-500 mt-1">Flyers, Posters, Banners (JPG, PNG)</p>
+                      <p className="text-xs text-slate-500 mt-1">Flyers, Posters, Banners (JPG, PNG); varias para un carrusel</p>
                     </>
                   )}
                 </div>
               </div>
 
+              {/* Brand kit: applied to the picture now and to the copy on the next analysis or rewrite */}
+              <div className="mt-4 flex items-center gap-2">
+                <Palette className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                <select
+                  value={state.brandKitId || ''}
+                  onChange={(e) => handleSelectBrandKit(brandKits.find(kit => kit.id === e.target.value) || null)}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+                >
+                  <option value="">Sin kit de marca (colores detectados)</option>
+                  {brandKits.map(kit => <option key={kit.id} value={kit.id}>{kit.name}</option>)}
+                </select>
+                <button
+                  onClick={() => setIsBrandKitsOpen(true)}
+                  className="px-3 py-2 rounded-lg text-xs text-slate-300 border border-slate-700 hover:bg-white/10 hover:text-white"
+                >
+                  Gestionar
+                </button>
+              </div>
+
               {state.isAnalyzing && (
                 <div className="mt-4 flex items-center gap-3 text-indigo-400 bg-indigo-950/30 p-3 rounded-lg border border-indigo-900/50">
                   <Loader2 className="w-4 h-4 animate-spin" />
@@ -412,16 +984,135 @@ const App: React.FC = () => {
                             </button>
                         ))}
                     </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer mt-2">
+                        <input
+                            type="checkbox"
+                            checked={state.fitDuration}
+                            onChange={(e) => setState(prev => ({ ...prev, fitDuration: e.target.checked }))}
+                            className="accent-indigo-500"
+                        />
+                        Ajustar la voz a la duración exacta (reescribe o estira sin cambiar el tono)
+                    </label>
+                </div>
+
+                {/* Script Format */}
+                <div>
+                   <label className="block text-xs font-medium text-slate-400 mb-2 uppercase tracking-wider flex items-center gap-1">
+                      <Users className="w-3 h-3" /> Formato del Guion
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {([['monologue', 'Locutor'], ['dialogue', 'Diálogo']] as const).map(([format, label]) => (
+                            <button
+                                key={format}
+                                onClick={() => setState(prev => ({ ...prev, scriptFormat: format }))}
+                                className={`py-2 rounded-lg text-sm font-semibold transition-all border ${
+                                    state.scriptFormat === format 
+                                    ? 'bg-indigo-600 text-white border-indigo-500 shadow-lg shadow-indigo-500/20' 
+                                    : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-slate-500 hover:text-slate-200'
+                                }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {state.scriptFormat === 'dialogue' && (
+                        <p className="text-[11px] text-slate-500 mt-1.5">Una línea por turno, con el nombre en mayúsculas: "CARLOS: ¿Ya viste las ofertas?"</p>
+                    )}
+                </div>
+
+                {/* Output Format */}
+                <div>
+                   <label className="block text-xs font-medium text-slate-400 mb-2 uppercase tracking-wider flex items-center gap-1">
+                      <MonitorPlay className="w-3 h-3" /> Formato de Salida
+                    </label>
+                    <div className="grid grid-cols-4 gap-2">
+                        {OUTPUT_PRESETS.map(preset => (
+                            <button
+                                key={preset.id}
+                                onClick={() => setState(prev => ({ ...prev, outputPreset: preset.id }))}
+                                title={`${preset.name} (${preset.width}x${preset.height})`}
+                                className={`py-2 rounded-lg text-sm font-semibold transition-all border ${
+                                    state.outputPreset === preset.id 
+                                    ? 'bg-indigo-600 text-white border-indigo-500 shadow-lg shadow-indigo-500/20' 
+                                    : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-slate-500 hover:text-slate-200'
+                                }`}
+                            >
+                                {preset.aspectRatio}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[11px] text-slate-500 mt-1.5">{selectedPreset.name} · {selectedPreset.width}x{selectedPreset.height}</p>
+                </div>
+
+                {/* Motion Template */}
+                <div>
+                   <label className="block text-xs font-medium text-slate-400 mb-2 uppercase tracking-wider flex items-center gap-1">
+                      <Clapperboard className="w-3 h-3" /> Animación
+                    </label>
+                    <div className="grid grid-cols-4 gap-2">
+                        {[null, ...MOTION_TEMPLATES].map(template => (
+                            <button
+                                key={template?.id ?? 'auto'}
+                                onClick={() => setState(prev => ({ ...prev, motionTemplateId: template?.id ?? null }))}
+                                title={template?.description ?? 'Elige la animación según el ánimo detectado en el volante'}
+                                className={`py-2 px-1 rounded-lg text-xs font-semibold transition-all border truncate ${
+                                    state.motionTemplateId === (template?.id ?? null)
+                                    ? 'bg-indigo-600 text-white border-indigo-500 shadow-lg shadow-indigo-500/20' 
+                                    : 'bg-slate-900 text-slate-400 border-slate-700 hover:border-slate-500 hover:text-slate-200'
+                                }`}
+                            >
+                                {template?.name ?? 'Automática'}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-[11px] text-slate-500 mt-1.5">
+                      {state.motionTemplateId
+                        ? selectedMotion.description
+                        : `${selectedMotion.name}${state.analysisData ? ` · sugerida para "${state.analysisData.mood}"` : ''}: ${selectedMotion.description}`}
+                    </p>
                 </div>
 
                 {/* Script Editor with Update Button */}
                 <div className="relative">
                   <div className="flex justify-between items-center mb-1.5">
                     <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider">Guion Generado (Editable)</label>
+                    <div className="flex items-center text-slate-400">
+                      <button
+                        onClick={handleUndo}
+                        disabled={undoStack.past.length === 0}
+                        className="p-1.5 rounded-full hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Deshacer (Ctrl+Z)"
+                      >
+                        <Undo2 className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={handleRedo}
+                        disabled={undoStack.future.length === 0}
+                        className="p-1.5 rounded-full hover:text-white hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent"
+                        title="Rehacer (Ctrl+Shift+Z)"
+                      >
+                        <Redo2 className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setIsHistoryOpen(true); }}
+                        className="flex items-center gap-1 px-2 py-1 rounded-full text-xs hover:text-white hover:bg-white/10"
+                        title="Historial de versiones"
+                      >
+                        <History className="w-3.5 h-3.5" /> {state.scriptHistory.length}
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); setIsPronunciationOpen(true); }}
+                        className="p-1.5 rounded-full hover:text-white hover:bg-white/10"
+                        title="Pronunciación"
+                      >
+                        <SpellCheck className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
                   </div>
                   <textarea
                     value={state.script}
-                    onChange={(e) => setState(prev => ({ ...prev, script: e.target.value, audioBuffer: null, musicBuffer: null }))}
+                    onChange={(e) => { recordUndo('script'); setState(prev => ({ ...prev, script: e.target.value, audioBuffer: null, captionOverride: null })); }}
+                    onBlur={() => setState(prev => ({ ...prev, scriptHistory: addScriptVersion(prev.scriptHistory, prev.script, 'manual') }))}
                     rows={4}
                     placeholder={INITIAL_SCRIPT_PLACEHOLDER}
                     className={`w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-200 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none resize-none leading-relaxed transition-opacity ${state.isRewriting ? 'opacity-50' : 'opacity-100'}`}
@@ -499,7 +1190,7 @@ const App: React.FC = () => {
                      </label>
                      <select
                         value={state.voiceStyle}
-                        onChange={(e) => setState(prev => ({ ...prev, voiceStyle: e.target.value, audioBuffer: null }))}
+                        onChange={(e) => { recordUndo(); setState(prev => ({ ...prev, voiceStyle: e.target.value, audioBuffer: null })); }}
                         className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none hover:bg-slate-800 cursor-pointer"
                      >
                         {VOICE_STYLES.map(style => (
@@ -509,13 +1200,61 @@ const App: React.FC = () => {
                   </div>
                 </div>
                 
+                {/* Dialogue Cast */}
+                {dialogueSpeakers.length >= 2 && (
+                  <div className="bg-slate-900/60 rounded-lg p-3 border border-slate-700 space-y-2">
+                    <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider flex items-center gap-1">
+                      <Users className="w-3 h-3" /> Reparto del Diálogo
+                    </label>
+                    {dialogueSpeakers.map(speaker => (
+                      <div key={speaker} className="flex items-center gap-3">
+                        <span className="w-24 text-xs font-semibold text-slate-300 truncate" title={speaker}>{speaker}</span>
+                        <select
+                          value={speakerVoiceIds[speaker]}
+                          onChange={(e) => handleSpeakerVoiceChange(speaker, e.target.value)}
+                          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none hover:bg-slate-800 cursor-pointer"
+                        >
+                          {VOICES.map(voice => (
+                            <option key={voice.id} value={voice.id}>{voice.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                    <div className={`flex items-center gap-3 pt-1 ${state.jointDialogue && canUseJointDialogue ? 'opacity-40' : ''}`}>
+                      <span className="w-24 text-xs text-slate-400">Pausa entre líneas</span>
+                      <input
+                        type="range"
+                        min="0"
+                        max="1.5"
+                        step="0.05"
+                        value={state.dialogueGap}
+                        disabled={state.jointDialogue && canUseJointDialogue}
+                        onChange={(e) => { recordUndo('dialogueGap'); setState(prev => ({ ...prev, dialogueGap: parseFloat(e.target.value), audioBuffer: null })); }}
+                        className="flex-1 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                      />
+                      <span className="w-10 text-right text-xs text-indigo-400 font-mono">{state.dialogueGap.toFixed(2)}s</span>
+                    </div>
+                    {canUseJointDialogue && (
+                      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer pt-1">
+                        <input
+                          type="checkbox"
+                          checked={state.jointDialogue}
+                          onChange={(e) => { recordUndo(); setState(prev => ({ ...prev, jointDialogue: e.target.checked, audioBuffer: null })); }}
+                          className="accent-indigo-500"
+                        />
+                        Conversación natural (síntesis multi-voz en una sola petición)
+                      </label>
+                    )}
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   {/* Music Upload (Replacing Selector) */}
                   <div className="relative col-span-2">
                     <label className="block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider flex items-center gap-1">
                       <Music className="w-3 h-3" /> Música de Fondo
                     </label>
-                    <div className="w-full">
+                    <div className="w-full flex gap-2">
                         <input 
                             type="file" 
                             ref={fileInputRef}
@@ -525,7 +1264,7 @@ const App: React.FC = () => {
                         />
                         <button 
                             onClick={() => fileInputRef.current?.click()}
-                            className={`w-full flex items-center justify-center gap-2 p-2.5 rounded-lg border text-sm transition-all truncate ${
+                            className={`flex-1 min-w-0 flex items-center justify-center gap-2 p-2.5 rounded-lg border text-sm transition-all truncate ${
                                 state.musicBuffer 
                                 ? 'bg-indigo-600/10 border-indigo-500/50 text-indigo-300 hover:bg-indigo-600/20' 
                                 : 'bg-slate-900 border-slate-700 text-slate-400 hover:bg-slate-800 hover:text-slate-200'
@@ -543,7 +1282,43 @@ const App: React.FC = () => {
                                 </>
                             )}
                         </button>
+                        {state.musicBuffer && (
+                            <button
+                                onClick={handleClearMusic}
+                                title="Quitar música"
+                                className="p-2.5 rounded-lg border border-slate-700 bg-slate-900 text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                            >
+                                <X className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setIsMusicLibraryOpen(true)}
+                            className="flex items-center gap-2 px-3 p-2.5 rounded-lg border border-slate-700 bg-slate-900 text-sm text-slate-400 hover:bg-slate-800 hover:text-slate-200"
+                        >
+                            <Library className="w-4 h-4" /> Biblioteca
+                        </button>
                     </div>
+
+                    {/* Library suggestion for the detected mood */}
+                    {suggestedTrack && state.analysisData && (
+                      <p className="mt-2 text-[11px] text-slate-500 flex items-center gap-1">
+                        <Sparkles className="w-3 h-3 text-amber-400" />
+                        Sugerida para "{state.analysisData.mood}":
+                        {state.musicTrackId === suggestedTrack.id ? (
+                          <span className="text-slate-300">{suggestedTrack.name}</span>
+                        ) : (
+                          <button onClick={handleUseSuggestedTrack} className="text-indigo-400 hover:text-indigo-300 underline">
+                            {suggestedTrack.name}
+                          </button>
+                        )}
+                      </p>
+                    )}
+
+                    {state.musicBuffer && (
+                      <div className="mt-3">
+                        <MusicEditor buffer={state.musicBuffer} edit={state.musicEdit} onChange={handleMusicEditChange} />
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -565,7 +1340,7 @@ const App: React.FC = () => {
                             max="1"
                             step="0.05"
                             value={state.musicVolume}
-                            onChange={(e) => setState(prev => ({ ...prev, musicVolume: parseFloat(e.target.value) }))}
+                            onChange={(e) => { recordUndo('musicVolume'); setState(prev => ({ ...prev, musicVolume: parseFloat(e.target.value) })); }}
                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
                         />
                         <div className="flex justify-between text-[10px] text-slate-500 mt-2 font-mono">
@@ -576,6 +1351,17 @@ const App: React.FC = () => {
                     </div>
                 </div>
 
+                <MixControls
+                  mix={state.mixSettings}
+                  hasMusic={!!state.musicBuffer}
+                  onChange={(changes) => { recordUndo('mix'); setState(prev => ({ ...prev, mixSettings: { ...prev.mixSettings, ...changes } })); }}
+                />
+
+                <EndCardControls
+                  endCard={state.endCard}
+                  onChange={(changes) => { recordUndo('endCard'); setState(prev => ({ ...prev, endCard: { ...prev.endCard, ...changes } })); }}
+                />
+
                 {/* Generate Button */}
                 <button
                   onClick={generateSpot}
@@ -589,7 +1375,7 @@ const App: React.FC = () => {
                   {state.isGeneratingVoice ? (
                     <>
                       <Loader2 className="w-5 h-5 animate-spin" />
-                      Produciendo Spot...
+                      {voiceProgress || 'Produciendo Spot...'}
                     </>
                   ) : (
                     <>
@@ -598,6 +1384,17 @@ const App: React.FC = () => {
                     </>
                   )}
                 </button>
+
+                {/* Duration fit report for the current take */}
+                {fitReport && fitReport.audioBuffer === state.audioBuffer && (
+                  <p className="text-[11px] text-slate-400 text-center font-mono">
+                    Voz {fitReport.spokenDuration.toFixed(1)}s → {fitReport.duration.toFixed(1)}s · objetivo {fitReport.target.toFixed(1)}s ·{' '}
+                    <span className={Math.abs(fitReport.duration - fitReport.target) <= 0.1 ? 'text-green-400' : 'text-amber-400'}>
+                      {formatDeviation(fitReport.duration - fitReport.target)}
+                    </span>
+                    {fitReport.rewrites > 0 && ` · ${fitReport.rewrites} ${fitReport.rewrites === 1 ? 'reescritura' : 'reescrituras'}`}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -607,22 +1404,35 @@ const App: React.FC = () => {
             <div className="bg-slate-800/50 rounded-2xl p-1 border border-slate-700/50 shadow-xl overflow-hidden sticky top-24">
               <div className="bg-[#000] rounded-xl overflow-hidden">
                 <VideoPreview 
-                  imageUrl={state.imageUrl}
+                  slides={state.slides}
+                  slideTimes={slideTimes}
                   audioBuffer={state.audioBuffer}
-                  musicBuffer={state.musicBuffer}
+                  music={musicBed}
+                  musicTempo={musicTempo}
+                  sfx={placedSfx}
                   musicVolume={state.musicVolume}
+                  mixSettings={state.mixSettings}
+                  loudnessTarget={selectedLoudnessTarget}
                   musicFileName={state.musicFileName}
                   analysis={state.analysisData}
-                  script={state.script}
+                  captions={captions}
+                  preset={selectedPreset}
+                  brandKit={activeBrandKit}
+                  endCard={state.endCard}
+                  motion={selectedMotion}
+                  onMastered={handleMastered(mixKey)}
                 />
               </div>
               
               {/* Toolbar */}
-              <div className="p-4 flex justify-between items-center border-t border-slate-700/50 mt-1 bg-slate-800/80">
+              <div className="p-4 flex flex-wrap gap-3 justify-between items-center border-t border-slate-700/50 mt-1 bg-slate-800/80">
                  <div className="flex gap-4 text-xs font-mono text-slate-400">
                     <div>
                         <span className="block text-slate-500 uppercase tracking-wider text-[10px]">Duración Real</span>
-                        <span className="text-white">{state.audioBuffer ? `${Math.round(state.audioBuffer.duration)}s` : '--'}</span>
+                        <span className="text-white">{state.audioBuffer ? `${spotTimeline.duration.toFixed(1)}s` : '--'}</span>
+                        {state.audioBuffer && (
+                            <span className="ml-1 text-slate-500">({formatDeviation(spotTimeline.duration - state.duration)})</span>
+                        )}
                     </div>
                     <div>
                         <span className="block text-slate-500 uppercase tracking-wider text-[10px]">Estilo</span>
@@ -632,31 +1442,147 @@ const App: React.FC = () => {
                     </div>
                  </div>
 
-                 <button
-                    onClick={handleDownloadAudio}
-                    disabled={!state.audioBuffer || isExportingAudio}
-                    className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors border border-slate-600 ${
-                        !state.audioBuffer 
-                        ? 'opacity-50 cursor-not-allowed text-slate-500' 
-                        : 'text-white hover:bg-white/10 hover:border-slate-400'
-                    }`}
-                 >
-                    {isExportingAudio ? <Loader2 className="w-4 h-4 animate-spin"/> : <FileAudio className="w-4 h-4 text-green-400" />}
-                    Exportar Audio
-                 </button>
+                 <div className="flex flex-wrap items-center gap-2">
+                    <input 
+                       type="file" 
+                       ref={subtitleInputRef}
+                       onChange={handleSubtitleUpload}
+                       accept=".srt,.vtt,text/vtt" 
+                       className="hidden" 
+                    />
+                    <div className="flex items-center rounded-lg border border-slate-600 overflow-hidden text-sm font-medium">
+                       <span className="px-2 py-2 text-slate-400" title={state.captionOverride ? 'Usando subtítulos importados' : 'Subtítulos automáticos'}>
+                           <Captions className={`w-4 h-4 ${state.captionOverride ? 'text-yellow-400' : ''}`} />
+                       </span>
+                       {(['srt', 'vtt'] as const).map(format => (
+                           <button
+                               key={format}
+                               onClick={() => handleDownloadSubtitles(format)}
+                               disabled={!state.audioBuffer}
+                               className={`px-2 py-2 uppercase transition-colors ${!state.audioBuffer ? 'text-slate-600 cursor-not-allowed' : 'text-white hover:bg-white/10'}`}
+                               title={`Descargar subtítulos .${format}`}
+                           >
+                               {format}
+                           </button>
+                       ))}
+                       <button
+                           onClick={() => subtitleInputRef.current?.click()}
+                           className="px-2 py-2 text-slate-300 hover:text-white hover:bg-white/10 transition-colors"
+                           title="Importar subtítulos editados (SRT / WebVTT)"
+                       >
+                           <Upload className="w-4 h-4" />
+                       </button>
+                       {state.captionOverride && (
+                           <button
+                               onClick={() => { recordUndo(); setState(prev => ({ ...prev, captionOverride: null })); }}
+                               className="px-2 py-2 text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+                               title="Volver a los subtítulos automáticos"
+                           >
+                               <X className="w-4 h-4" />
+                           </button>
+                       )}
+                    </div>
+
+                    <div className="flex items-center rounded-lg border border-slate-600 overflow-hidden text-xs">
+                       <select
+                           value={state.loudnessTarget}
+                           onChange={(e) => setState(prev => ({ ...prev, loudnessTarget: e.target.value }))}
+                           className="bg-transparent px-2 py-2 text-slate-300 outline-none max-w-[150px]"
+                           title="Normalización de sonoridad al exportar"
+                       >
+                           {LOUDNESS_TARGETS.map(target => (
+                               <option key={target.id} value={target.id} className="bg-slate-900">{target.name}</option>
+                           ))}
+                       </select>
+                       <button
+                           onClick={handleCheckLoudness}
+                           disabled={!state.audioBuffer || !mixLoudness || selectedLoudnessTarget.lufs === null || !!masterReport || isCheckingLoudness}
+                           className="px-2 py-2 font-mono border-l border-slate-600 whitespace-nowrap enabled:hover:bg-slate-600/50"
+                           title={describeLoudness(mixLoudness, masterReport, selectedLoudnessTarget)}
+                       >
+                           {!state.audioBuffer ? (
+                               <span className="text-slate-600">-- LUFS</span>
+                           ) : !mixLoudness || isCheckingLoudness ? (
+                               <Loader2 className="w-3 h-3 animate-spin text-slate-400" />
+                           ) : masterReport ? (
+                               // Measured on the normalized master: green only when it really meets the target
+                               <span className={isLoudnessCompliant(masterReport.output, selectedLoudnessTarget) ? 'text-green-400' : 'text-amber-400'}>
+                                   {formatLoudness(masterReport.output.integrated)} LUFS · {formatLoudness(masterReport.output.truePeak)} dBTP
+                               </span>
+                           ) : selectedLoudnessTarget.lufs === null ? (
+                               // Exported as is, so the mix measurement is the output
+                               <span className={isLoudnessCompliant(mixLoudness, selectedLoudnessTarget) ? 'text-green-400' : 'text-amber-400'}>
+                                   {formatLoudness(mixLoudness.integrated)} LUFS · {formatLoudness(mixLoudness.truePeak)} dBTP
+                               </span>
+                           ) : (
+                               <span className="text-slate-400">
+                                   {formatLoudness(mixLoudness.integrated)} → {selectedLoudnessTarget.lufs} LUFS · {formatLoudness(mixLoudness.truePeak)} dBTP
+                               </span>
+                           )}
+                       </button>
+                    </div>
+
+                    <button
+                       onClick={() => setIsAudioExportOpen(true)}
+                       disabled={!state.audioBuffer || isExportingAudio}
+                       className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors border border-slate-600 ${
+                           !state.audioBuffer 
+                           ? 'opacity-50 cursor-not-allowed text-slate-500' 
+                           : 'text-white hover:bg-white/10 hover:border-slate-400'
+                       }`}
+                    >
+                       {isExportingAudio ? <Loader2 className="w-4 h-4 animate-spin"/> : <FileAudio className="w-4 h-4 text-green-400" />}
+                       Exportar Audio
+                    </button>
+                 </div>
               </div>
             </div>
 
+            <SfxTimeline
+              clips={state.sfxClips}
+              sounds={state.sfxSounds}
+              words={captionWords}
+              timeline={spotTimeline}
+              voiceDuration={state.audioBuffer?.duration ?? null}
+              hasMusic={!!state.musicBuffer}
+              onAdd={handleAddSfx}
+              onChange={handleSfxChange}
+              onRemove={handleRemoveSfx}
+            />
+
+            {state.slides.length > 0 && (
+              <SlideStrip
+                slides={state.slides}
+                times={slideTimes}
+                words={captionWords}
+                voiceStart={spotTimeline.voiceStart}
+                selectedId={selectedSlide?.id || null}
+                onSelect={setSelectedSlideId}
+                onAdd={handleAddSlides}
+                onChange={handleSlidesChange}
+              />
+            )}
+
+            {selectedSlide && state.analysisData && (
+              <FocusRegionEditor
+                key={selectedSlide.id}
+                imageUrl={selectedSlide.imageUrl}
+                regions={selectedSlide.regions}
+                products={state.analysisData.detectedProducts}
+                onChange={(regions) => handleRegionsChange(selectedSlide.id, regions)}
+              />
+            )}
+
             {/* Info Cards */}
             {state.analysisData && (
               <div className="grid grid-cols-2 gap-4 animate-fade-in-up">
                 <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-700/30">
-                   <h3 className="text-xs font-bold text-slate-400 uppercase mb-2">Colores Detectados</h3>
+                   <h3 className="text-xs font-bold text-slate-400 uppercase mb-2">{activeBrandKit ? `Colores de ${activeBrandKit.name}` : 'Colores Detectados'}</h3>
                    <div className="flex gap-2">
-                      {state.analysisData.brandColors.map((color, i) => (
+                      {(activeBrandKit?.colors || state.analysisData.brandColors).map((color, i) => (
                         <div key={i} className="w-8 h-8 rounded-full border-2 border-slate-600 shadow-sm" style={{backgroundColor: color}} title={color}></div>
                       ))}
-                      {state.analysisData.brandColors.length === 0 && <span className="text-sm text-slate-500">N/A</span>}
+                      {(activeBrandKit?.colors || state.analysisData.brandColors).length === 0 && <span className="text-sm text-slate-500">N/A</span>}
                    </div>
                 </div>
                 <div className="bg-slate-800/30 p-4 rounded-xl border border-slate-700/30">
@@ -672,7 +1598,100 @@ const App: React.FC = () => {
             )}
           </div>
         </div>
+
+        {state.analysisData && (
+          <div className="mt-8">
+            <ScriptVariants
+              variants={syncActiveVariant(state)}
+              activeVariantId={state.activeVariantId}
+              duration={state.duration}
+              isGenerating={isGeneratingVariants}
+              canGenerate={!state.isAnalyzing && !state.isRewriting}
+              onGenerate={handleGenerateVariants}
+              onSelect={handleSelectVariant}
+              onToggleStar={handleToggleVariantStar}
+              onDelete={handleDeleteVariant}
+            />
+          </div>
+        )}
       </main>
+
+      <ProjectManager
+        isOpen={isProjectManagerOpen}
+        onClose={() => setIsProjectManagerOpen(false)}
+        currentProjectId={currentProject?.id || null}
+        currentName={defaultProjectName}
+        canSave={state.slides.length > 0}
+        onSave={handleSaveProject}
+        onOpen={handleOpenProject}
+      />
+
+      <ScriptHistory
+        isOpen={isHistoryOpen}
+        onClose={() => setIsHistoryOpen(false)}
+        history={state.scriptHistory}
+        currentScript={state.script}
+        onRestore={handleRestoreVersion}
+      />
+
+      <PronunciationPanel
+        isOpen={isPronunciationOpen}
+        onClose={() => setIsPronunciationOpen(false)}
+        settings={pronunciation}
+        script={state.script}
+        onSave={handleSavePronunciation}
+      />
+
+      <AudioExportDialog
+        isOpen={isAudioExportOpen}
+        onClose={() => setIsAudioExportOpen(false)}
+        options={audioExportOptions}
+        loudnessTarget={selectedLoudnessTarget}
+        hasStems={!!state.musicBuffer || placedSfx.length > 0}
+        onExport={handleDownloadAudio}
+      />
+
+      <MusicLibrary
+        isOpen={isMusicLibraryOpen}
+        onClose={() => setIsMusicLibraryOpen(false)}
+        mood={state.analysisData?.mood}
+        currentTrackId={state.musicTrackId}
+        onSelect={handleSelectTrack}
+      />
+
+      <BrandKitPanel
+        isOpen={isBrandKitsOpen}
+        onClose={() => setIsBrandKitsOpen(false)}
+        kits={brandKits}
+        activeKitId={state.brandKitId}
+        onKitsChanged={refreshBrandKits}
+        onUse={handleSelectBrandKit}
+      />
+
+      <SpeechCachePanel
+        isOpen={isSpeechCacheOpen}
+        onClose={() => setIsSpeechCacheOpen(false)}
+      />
+
+      <SettingsPanel
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+        settings={aiSettings}
+        onSave={handleSaveSettings}
+      />
+
+      <BatchPanel
+        isOpen={isBatchOpen}
+        onClose={() => setIsBatchOpen(false)}
+        initialSettings={{
+          voiceProfile: state.voiceProfile,
+          voiceStyle: state.voiceStyle,
+          duration: state.duration,
+          musicVolume: state.musicVolume,
+          mixSettings: state.mixSettings,
+          loudnessTarget: state.loudnessTarget,
+        }}
+      />
     </div>
   );
 };
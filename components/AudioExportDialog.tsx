@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { FileAudio, X, Download } from 'lucide-react';
+import { AudioExportOptions, LoudnessTarget } from '../types';
+import { AUDIO_SAMPLE_RATES, WAV_BIT_DEPTHS, MP3_BITRATES } from '../constants';
+
+interface AudioExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  options: AudioExportOptions;
+  loudnessTarget: LoudnessTarget;
+  hasStems: boolean; // there is music or effects to split from the voice
+  onExport: (options: AudioExportOptions) => void;
+}
+
+const labelClass = "block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider";
+
+// Row of mutually exclusive choices
+function Choice<T extends string | number>({ value, options, onChange }: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+      {options.map(option => (
+        <button
+          key={option.value}
+          onClick={() => onChange(option.value)}
+          className={`flex-1 py-2 text-sm font-medium transition-colors ${
+            option.value === value ? 'bg-indigo-600 text-white' : 'bg-slate-950 text-slate-400 hover:text-white'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export const AudioExportDialog: React.FC<AudioExportDialogProps> = ({ isOpen, onClose, options, loudnessTarget, hasStems, onExport }) => {
+  const [draft, setDraft] = useState<AudioExportOptions>(options);
+
+  useEffect(() => {
+    if (isOpen) setDraft(options);
+  }, [isOpen, options]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AudioExportOptions>) => setDraft(prev => ({ ...prev, ...patch }));
+  const isMp3 = draft.format === 'mp3';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <FileAudio className="w-5 h-5 text-green-400" /> Exportar Audio
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          <div>
+            <label className={labelClass}>Formato</label>
+            <Choice
+              value={draft.format}
+              options={[{ value: 'wav', label: 'WAV (PCM)' }, { value: 'mp3', label: 'MP3' }]}
+              onChange={(format) => update({ format })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Frecuencia</label>
+              <Choice
+                value={draft.sampleRate}
+                options={AUDIO_SAMPLE_RATES.map(rate => ({ value: rate, label: `${rate / 1000} kHz` }))}
+                onChange={(sampleRate) => update({ sampleRate })}
+              />
+            </div>
+            {isMp3 ? (
+              <div>
+                <label className={labelClass}>Bitrate</label>
+                <select
+                  value={draft.mp3Bitrate}
+                  onChange={(e) => update({ mp3Bitrate: parseInt(e.target.value, 10) })}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none"
+                >
+                  {MP3_BITRATES.map(kbps => <option key={kbps} value={kbps}>{kbps} kbps (CBR)</option>)}
+                </select>
+              </div>
+            ) : (
+              <div>
+                <label className={labelClass}>Profundidad</label>
+                <Choice
+                  value={draft.bitDepth}
+                  options={WAV_BIT_DEPTHS.map(bits => ({ value: bits, label: `${bits} bits` }))}
+                  onChange={(bitDepth) => update({ bitDepth })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className={labelClass}>Canales</label>
+            <Choice
+              value={draft.channels}
+              options={[{ value: 2, label: 'Estéreo' }, { value: 1, label: 'Mono' }]}
+              onChange={(channels) => update({ channels })}
+            />
+          </div>
+
+          <label className={`flex items-start gap-2 text-sm ${hasStems ? 'text-slate-300 cursor-pointer' : 'text-slate-500'}`}>
+            <input
+              type="checkbox"
+              checked={draft.stems && hasStems}
+              disabled={!hasStems}
+              onChange={(e) => update({ stems: e.target.checked })}
+              className="mt-0.5 accent-indigo-500"
+            />
+            <span>
+              Incluir pistas separadas de voz, música y efectos (ZIP)
+              <span className="block text-[11px] text-slate-500">
+                {hasStems ? 'Alineadas con la mezcla, para remezclar en el editor de audio.' : 'Añade música de fondo o efectos para separar pistas.'}
+              </span>
+            </span>
+          </label>
+
+          <p className="text-[11px] text-slate-500 pt-2 border-t border-slate-800">
+            Normalización: {loudnessTarget.name}
+            {loudnessTarget.lufs !== null && ` · pico máximo ${loudnessTarget.truePeak} dBTP`}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 p-5 border-t border-slate-800">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-white/10">
+            Cancelar
+          </button>
+          <button
+            onClick={() => onExport(draft)}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white"
+          >
+            <Download className="w-4 h-4" /> Exportar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
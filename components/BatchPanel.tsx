@@ -0,0 +1,314 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Layers, Upload, X, Loader2, Check, AlertTriangle, RotateCcw, Download, Play, Music, Trash2 } from 'lucide-react';
+import { BatchItem, BatchItemStatus, BatchSettings, MusicBed } from '../types';
+import { VOICES, VOICE_STYLES, DEFAULT_MUSIC_EDIT } from '../constants';
+import { BATCH_CONCURRENCY, buildBatchZip, createBatchItem, processBatchItem } from '../services/batchProcessor';
+import { decodeAudioFile } from '../services/audioUtils';
+import { downloadBlob } from '../services/fileUtils';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface BatchPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialSettings: BatchSettings;
+}
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+  pending: 'En cola',
+  analyzing: 'Analizando...',
+  voicing: 'Generando voz...',
+  mixing: 'Mezclando...',
+  done: 'Listo',
+  error: 'Error',
+};
+
+const isActive = (status: BatchItemStatus) => status === 'analyzing' || status === 'voicing' || status === 'mixing';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({ isOpen, onClose, initialSettings }) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+
+  const [settings, setSettings] = useState<BatchSettings>(initialSettings);
+  const [music, setMusic] = useState<{ name: string; buffer: AudioBuffer } | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isZipping, setIsZipping] = useState(false);
+
+  // The queue runs outside React's render cycle, so it works on refs and mirrors them into state
+  const itemsRef = useRef<BatchItem[]>([]);
+  const runningRef = useRef(0);
+  const runSettingsRef = useRef<{ settings: BatchSettings; music: MusicBed | null; musicName: string | null } | null>(null);
+
+  // Changes made in the editor carry over to the panel; a run in progress keeps its frozen copy
+  const { voiceProfile, voiceStyle, duration, musicVolume, mixSettings, loudnessTarget } = initialSettings;
+  useEffect(() => {
+    setSettings({ voiceProfile, voiceStyle, duration, musicVolume, mixSettings, loudnessTarget });
+  }, [voiceProfile, voiceStyle, duration, musicVolume, mixSettings, loudnessTarget]);
+
+  const commitItems = (next: BatchItem[]) => {
+    itemsRef.current = next;
+    setItems(next);
+  };
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) => {
+    commitItems(itemsRef.current.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const isRunning = items.some(item => isActive(item.status));
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const errorCount = items.filter(item => item.status === 'error').length;
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+
+  // Starts pending items until the concurrency limit is reached; each finished item pulls the next one
+  const pump = () => {
+    const run = runSettingsRef.current;
+    if (!run) return;
+
+    while (runningRef.current < BATCH_CONCURRENCY) {
+      const next = itemsRef.current.find(item => item.status === 'pending');
+      if (!next) break;
+
+      runningRef.current++;
+      updateItem(next.id, { status: 'analyzing', error: null });
+
+      processBatchItem(next.file, run.settings, run.music, status => updateItem(next.id, { status }))
+        .then(result => updateItem(next.id, { ...result, status: 'done' }))
+        .catch(error => {
+          console.error(`Batch item failed: ${next.file.name}`, error);
+          updateItem(next.id, { status: 'error', error: getErrorMessage(error) });
+        })
+        .finally(() => {
+          runningRef.current--;
+          pump();
+        });
+    }
+  };
+
+  const startQueue = () => {
+    // Settings are frozen for the whole run so every spot in the batch is consistent
+    runSettingsRef.current = {
+      settings,
+      music: music ? { buffer: music.buffer, edit: DEFAULT_MUSIC_EDIT } : null,
+      musicName: music?.name || null,
+    };
+    pump();
+  };
+
+  // Retried items join a run in progress with its frozen settings; an idle queue starts a new run
+  const resumeQueue = () => {
+    if (runningRef.current > 0) pump();
+    else startQueue();
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    commitItems([...itemsRef.current, ...images.map(createBatchItem)]);
+  };
+
+  const retryItem = (id: string) => {
+    updateItem(id, { status: 'pending', error: null });
+    resumeQueue();
+  };
+
+  const retryFailed = () => {
+    commitItems(itemsRef.current.map(item => item.status === 'error' ? { ...item, status: 'pending', error: null } : item));
+    resumeQueue();
+  };
+
+  const removeItem = (id: string) => {
+    commitItems(itemsRef.current.filter(item => item.id !== id));
+  };
+
+  const handleMusicUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setMusic({ name: file.name, buffer: await decodeAudioFile(await file.arrayBuffer()) });
+    } catch (error) {
+      console.error("Error loading music file", error);
+      alert("Error al cargar el archivo de audio. Asegúrate que sea un formato válido (MP3/WAV).");
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      // The manifest describes the run that rendered the audio, not what the panel shows now
+      const run = runSettingsRef.current;
+      const zip = run
+        ? await buildBatchZip(itemsRef.current, run.settings, run.musicName)
+        : await buildBatchZip(itemsRef.current, settings, music?.name || null);
+      downloadBlob(zip, `spots_lote_${Date.now()}.zip`);
+    } catch (error) {
+      console.error(error);
+      alert("Error generando el archivo ZIP.");
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Layers className="w-5 h-5 text-indigo-400" /> Modo Lote
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Shared preset */}
+        <div className="p-5 border-b border-slate-800 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider">Voz</label>
+            <select
+              value={settings.voiceProfile}
+              onChange={(e) => setSettings(prev => ({ ...prev, voiceProfile: e.target.value }))}
+              disabled={isRunning}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none"
+            >
+              {VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider">Estilo</label>
+            <select
+              value={settings.voiceStyle}
+              onChange={(e) => setSettings(prev => ({ ...prev, voiceStyle: e.target.value }))}
+              disabled={isRunning}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-sm text-white outline-none"
+            >
+              {VOICE_STYLES.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider">Duración</label>
+            <div className="grid grid-cols-3 gap-1">
+              {[10, 15, 30].map(duration => (
+                <button
+                  key={duration}
+                  onClick={() => setSettings(prev => ({ ...prev, duration }))}
+                  disabled={isRunning}
+                  className={`py-2 rounded-lg text-xs font-semibold border ${
+                    settings.duration === duration
+                      ? 'bg-indigo-600 text-white border-indigo-500'
+                      : 'bg-slate-950 text-slate-400 border-slate-700 hover:text-slate-200'
+                  }`}
+                >
+                  {duration}s
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider">Música ({Math.round(settings.musicVolume * 100)}%)</label>
+            <input type="file" ref={musicInputRef} onChange={handleMusicUpload} accept="audio/*" className="hidden" />
+            <button
+              onClick={() => musicInputRef.current?.click()}
+              disabled={isRunning}
+              className={`w-full flex items-center justify-center gap-2 p-2 rounded-lg border text-xs truncate ${
+                music ? 'bg-indigo-600/10 border-indigo-500/50 text-indigo-300' : 'bg-slate-950 border-slate-700 text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              <Music className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{music?.name || 'Sin música'}</span>
+            </button>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={settings.musicVolume}
+              onChange={(e) => setSettings(prev => ({ ...prev, musicVolume: parseFloat(e.target.value) }))}
+              disabled={isRunning}
+              className="w-full mt-2 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        </div>
+
+        {/* Drop zone + queue */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          <div
+            onClick={() => imageInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+            className="border-2 border-dashed border-slate-700 hover:border-slate-500 rounded-xl p-6 flex flex-col items-center justify-center text-center cursor-pointer transition-colors"
+          >
+            <input type="file" ref={imageInputRef} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} accept="image/*" multiple className="hidden" />
+            <Upload className="w-6 h-6 text-slate-400 mb-2" />
+            <p className="text-sm text-slate-300">Arrastra aquí todos los flyers o haz click para elegirlos</p>
+          </div>
+
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 p-2 rounded-lg bg-slate-800/40">
+              <div className="w-6 flex justify-center">
+                {isActive(item.status) && <Loader2 className="w-4 h-4 animate-spin text-indigo-400" />}
+                {item.status === 'done' && <Check className="w-4 h-4 text-green-400" />}
+                {item.status === 'error' && <AlertTriangle className="w-4 h-4 text-red-400" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <span className="block text-sm text-white truncate">{item.file.name}</span>
+                <span className={`block text-xs truncate ${item.status === 'error' ? 'text-red-400' : 'text-slate-500'}`} title={item.error || undefined}>
+                  {item.status === 'error' ? item.error : STATUS_LABELS[item.status]}
+                  {item.status === 'done' && item.duration !== null && ` · ${Math.round(item.duration)}s · ${item.analysis?.headline || ''}`}
+                </span>
+              </div>
+              {item.status === 'error' && (
+                <button onClick={() => retryItem(item.id)} className="p-2 rounded-full text-slate-400 hover:text-white hover:bg-white/10" title="Reintentar">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+              {!isActive(item.status) && (
+                <button onClick={() => removeItem(item.id)} className="p-2 rounded-full text-slate-400 hover:text-red-400 hover:bg-white/10" title="Quitar">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between gap-2">
+          <span className="text-xs font-mono text-slate-400">
+            {doneCount}/{items.length} listos{errorCount > 0 && ` · ${errorCount} con error`}
+          </span>
+          <div className="flex gap-2">
+            {errorCount > 0 && (
+              <button
+                onClick={retryFailed}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-300 border border-slate-700 hover:bg-white/10"
+              >
+                <RotateCcw className="w-4 h-4" /> Reintentar fallidos
+              </button>
+            )}
+            <button
+              onClick={resumeQueue}
+              disabled={pendingCount === 0}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-700 disabled:text-slate-500"
+            >
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+              Procesar {pendingCount > 0 && `(${pendingCount})`}
+            </button>
+            <button
+              onClick={handleDownloadZip}
+              disabled={doneCount === 0 || isRunning || isZipping}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-white border border-slate-600 hover:bg-white/10 disabled:opacity-50"
+            >
+              {isZipping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4 text-green-400" />}
+              Descargar ZIP
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Palette, X, Plus, Trash2, Upload, Check, Loader2 } from 'lucide-react';
+import { BrandKit } from '../types';
+import { BRAND_FONTS, VOICES, VOICE_STYLES } from '../constants';
+import { createBrandKit, deleteBrandKit, saveBrandKit } from '../services/brandKits';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface BrandKitPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kits: BrandKit[];
+  activeKitId: string | null;
+  onKitsChanged: () => void;
+  onUse: (kit: BrandKit) => void;
+}
+
+const MAX_COLORS = 5;
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider";
+
+// Saved client identities: logo, palette, fonts, tagline, preferred voice and legal lines
+export const BrandKitPanel: React.FC<BrandKitPanelProps> = ({ isOpen, onClose, kits, activeKitId, onKitsChanged, onUse }) => {
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState<BrandKit | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Open on the kit in use, or the first one
+  useEffect(() => {
+    if (isOpen) setDraft(kits.find(k => k.id === activeKitId) || kits[0] || null);
+  }, [isOpen]);
+
+  const logoUrl = useMemo(() => (draft?.logo ? URL.createObjectURL(draft.logo) : null), [draft?.logo]);
+  useEffect(() => () => { if (logoUrl) URL.revokeObjectURL(logoUrl); }, [logoUrl]);
+
+  if (!isOpen) return null;
+
+  const isNew = !!draft && !kits.some(k => k.id === draft.id);
+  const update = (patch: Partial<BrandKit>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleLogoChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) update({ logo: file });
+  };
+
+  const handleSave = async (): Promise<BrandKit | null> => {
+    if (!draft) return null;
+    const kit = {
+      ...draft,
+      name: draft.name.trim() || 'Sin nombre',
+      tagline: draft.tagline.trim(),
+      disclaimers: draft.disclaimers.map(line => line.trim()).filter(Boolean),
+    };
+    setIsSaving(true);
+    try {
+      await saveBrandKit(kit);
+      setDraft(kit);
+      onKitsChanged();
+      return kit;
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUse = async () => {
+    const kit = await handleSave();
+    if (!kit) return;
+    onUse(kit);
+    onClose();
+  };
+
+  const handleDelete = async () => {
+    if (!draft) return;
+    if (!isNew) {
+      if (!confirm(`¿Eliminar el kit de marca "${draft.name}"?`)) return;
+      await deleteBrandKit(draft.id);
+      onKitsChanged();
+    }
+    setDraft(kits.find(k => k.id !== draft.id) || null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Palette className="w-5 h-5 text-indigo-400" /> Kits de Marca
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              Logo, colores, tipografías, voz y leyendas legales de cada cliente.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Kit list */}
+          <div className="w-56 border-r border-slate-800 p-3 space-y-1 overflow-y-auto">
+            <button
+              onClick={() => setDraft(createBrandKit('Nueva marca'))}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-indigo-300 hover:bg-white/5"
+            >
+              <Plus className="w-4 h-4" /> Nuevo kit
+            </button>
+            {kits.map(kit => (
+              <button
+                key={kit.id}
+                onClick={() => setDraft(kit)}
+                className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm ${
+                  draft?.id === kit.id ? 'bg-indigo-600/20 text-white' : 'text-slate-300 hover:bg-white/5'
+                }`}
+              >
+                <span className="flex -space-x-1">
+                  {kit.colors.slice(0, 3).map((color, i) => (
+                    <span key={i} className="w-3 h-3 rounded-full border border-slate-900" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+                <span className="flex-1 truncate">{kit.name}</span>
+                {kit.id === activeKitId && <Check className="w-3.5 h-3.5 text-green-400" />}
+              </button>
+            ))}
+            {kits.length === 0 && <p className="text-xs text-slate-500 px-3 py-2">Aún no hay kits guardados.</p>}
+          </div>
+
+          {/* Editor */}
+          {draft ? (
+            <div className="flex-1 overflow-y-auto p-5 space-y-5">
+              <div className="grid grid-cols-[1fr_auto] gap-4">
+                <div>
+                  <label className={labelClass}>Nombre del cliente</label>
+                  <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Logo</label>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => logoInputRef.current?.click()}
+                      className="w-24 h-10 rounded-lg border border-dashed border-slate-600 bg-slate-950 flex items-center justify-center overflow-hidden hover:border-slate-400"
+                      title="Subir logo (PNG con transparencia recomendado)"
+                    >
+                      {logoUrl ? <img src={logoUrl} alt="Logo" className="max-w-full max-h-full object-contain" /> : <Upload className="w-4 h-4 text-slate-500" />}
+                    </button>
+                    {draft.logo && (
+                      <button onClick={() => update({ logo: null })} className="p-1.5 rounded-lg text-slate-400 hover:text-red-400 hover:bg-white/10" title="Quitar logo">
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  <input ref={logoInputRef} type="file" accept="image/*" onChange={handleLogoChosen} className="hidden" />
+                </div>
+              </div>
+
+              {/* Palette */}
+              <div>
+                <label className={labelClass}>Colores (el primero es el principal)</label>
+                <div className="flex items-center gap-2">
+                  {draft.colors.map((color, i) => (
+                    <div key={i} className="relative group">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => update({ colors: draft.colors.map((c, j) => (j === i ? e.target.value : c)) })}
+                        className="w-10 h-10 rounded-lg bg-transparent border border-slate-700 cursor-pointer"
+                      />
+                      {draft.colors.length > 1 && (
+                        <button
+                          onClick={() => update({ colors: draft.colors.filter((_, j) => j !== i) })}
+                          className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-4 h-4 items-center justify-center rounded-full bg-slate-700 text-slate-200"
+                          title="Quitar color"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {draft.colors.length < MAX_COLORS && (
+                    <button
+                      onClick={() => update({ colors: [...draft.colors, '#ffffff'] })}
+                      className="w-10 h-10 rounded-lg border border-dashed border-slate-600 flex items-center justify-center text-slate-400 hover:text-white"
+                      title="Añadir color"
+                    >
+                      <Plus className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {/* Fonts */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Tipografía de titulares</label>
+                  <select value={draft.headlineFont} onChange={(e) => update({ headlineFont: e.target.value })} className={inputClass} style={{ fontFamily: draft.headlineFont }}>
+                    {BRAND_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Tipografía de subtítulos</label>
+                  <select value={draft.bodyFont} onChange={(e) => update({ bodyFont: e.target.value })} className={inputClass} style={{ fontFamily: draft.bodyFont }}>
+                    {BRAND_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Eslogan</label>
+                <input
+                  value={draft.tagline}
+                  onChange={(e) => update({ tagline: e.target.value })}
+                  placeholder="Ej. Siempre los precios más bajos"
+                  className={inputClass}
+                />
+              </div>
+
+              {/* Preferred voice */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Voz preferida</label>
+                  <select value={draft.voiceProfile || ''} onChange={(e) => update({ voiceProfile: e.target.value || null })} className={inputClass}>
+                    <option value="">Sin preferencia</option>
+                    {VOICES.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Estilo preferido</label>
+                  <select value={draft.voiceStyle || ''} onChange={(e) => update({ voiceStyle: e.target.value || null })} className={inputClass}>
+                    <option value="">Sin preferencia</option>
+                    {VOICE_STYLES.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Leyendas legales obligatorias (una por línea)</label>
+                <textarea
+                  value={draft.disclaimers.join('\n')}
+                  onChange={(e) => update({ disclaimers: e.target.value.split('\n') })}
+                  rows={3}
+                  placeholder="Ej. Vigencia del 1 al 15 de octubre o hasta agotar existencias."
+                  className={`${inputClass} resize-none`}
+                />
+                <p className="text-[11px] text-slate-500 mt-1">Se incluyen textualmente al final del guion y en el cierre del video.</p>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-slate-500 p-5">
+              Crea un kit para cada cliente que produces con frecuencia.
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between gap-2">
+          <button
+            onClick={handleDelete}
+            disabled={!draft}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-red-300 hover:bg-red-500/10 disabled:opacity-40"
+          >
+            <Trash2 className="w-4 h-4" /> Eliminar
+          </button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-white/10">Cancelar</button>
+            <button
+              onClick={handleSave}
+              disabled={!draft || isSaving}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-slate-200 border border-slate-600 hover:bg-white/10 disabled:opacity-40"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 animate-spin" />} Guardar
+            </button>
+            <button
+              onClick={handleUse}
+              disabled={!draft || isSaving}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-40"
+            >
+              Usar en este spot
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
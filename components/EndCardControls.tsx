@@ -0,0 +1,99 @@
+import React, { useMemo } from 'react';
+import { Flag } from 'lucide-react';
+import { EndCardSettings } from '../types';
+import { END_CARD_DURATIONS } from '../constants';
+import { encodeQr } from '../services/qrCode';
+
+interface EndCardControlsProps {
+  endCard: EndCardSettings;
+  onChange: (changes: Partial<EndCardSettings>) => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 rounded-lg px-2.5 py-1.5 text-xs text-slate-200 outline-none focus:border-indigo-500 disabled:opacity-40";
+const labelClass = "block text-[11px] text-slate-400 mb-1";
+
+// Closing segment after the voice: call to action, contact details and a QR to the advertiser's link.
+// Its seconds are added to the mix, so the music plays under it in the preview and in every export.
+export const EndCardControls: React.FC<EndCardControlsProps> = ({ endCard, onChange }) => {
+  const qrError = useMemo(() => {
+    const url = endCard.url.trim();
+    if (!url) return null;
+    try {
+      encodeQr(url);
+      return null;
+    } catch (error: any) {
+      return error?.message || 'No se pudo generar el código QR.';
+    }
+  }, [endCard.url]);
+
+  const disabled = !endCard.enabled;
+
+  return (
+    <details className="group bg-slate-900 rounded-lg border border-slate-700">
+      <summary className="flex items-center justify-between p-3 cursor-pointer select-none text-xs font-medium text-slate-400 uppercase tracking-wider">
+        <span className="flex items-center gap-1"><Flag className="w-3 h-3" /> Cierre</span>
+        <span className="normal-case tracking-normal text-[11px] text-slate-500">
+          {endCard.enabled ? `+${endCard.duration}s${endCard.url.trim() && !qrError ? ' · QR' : ''}` : 'Sin cierre'}
+        </span>
+      </summary>
+
+      <div className="px-3 pb-3 space-y-3">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={endCard.enabled}
+            onChange={(e) => onChange({ enabled: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Agregar un cierre al final del spot
+        </label>
+
+        <div className={disabled ? 'opacity-40' : ''}>
+          <span className={labelClass}>Duración del cierre</span>
+          <div className="flex gap-1">
+            {END_CARD_DURATIONS.map(seconds => (
+              <button
+                key={seconds}
+                onClick={() => onChange({ duration: seconds })}
+                disabled={disabled}
+                className={`flex-1 py-1 rounded-md text-xs font-mono border transition-colors disabled:cursor-not-allowed ${
+                  endCard.duration === seconds
+                    ? 'bg-indigo-600 border-indigo-500 text-white'
+                    : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {seconds}s
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Llamado a la acción</label>
+          <input value={endCard.cta} onChange={(e) => onChange({ cta: e.target.value })} disabled={disabled} placeholder="Visítanos en" className={inputClass} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Teléfono</label>
+            <input value={endCard.phone} onChange={(e) => onChange({ phone: e.target.value })} disabled={disabled} placeholder="55 1234 5678" className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Dirección</label>
+            <input value={endCard.address} onChange={(e) => onChange({ address: e.target.value })} disabled={disabled} placeholder="Av. Reforma 123, CDMX" className={inputClass} />
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Enlace del código QR</label>
+          <input value={endCard.url} onChange={(e) => onChange({ url: e.target.value })} disabled={disabled} placeholder="https://mitienda.mx" className={inputClass} />
+          {qrError ? (
+            <p className="mt-1 text-[11px] text-amber-400">{qrError}</p>
+          ) : (
+            <p className="mt-1 text-[11px] text-slate-500">El código se genera en el navegador; déjalo vacío para no mostrar QR.</p>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { Crop, Plus, Trash2, ZoomIn } from 'lucide-react';
+import { FocusBox, FocusKind, FocusRegion } from '../types';
+
+interface FocusRegionEditorProps {
+  imageUrl: string;
+  regions: FocusRegion[];
+  products: string[]; // detectedProducts, offered as labels for new boxes
+  onChange: (regions: FocusRegion[]) => void;
+}
+
+const KIND_NAMES: Record<FocusKind, string> = { headline: 'Titular', price: 'Precio', product: 'Producto' };
+
+const KIND_COLORS: Record<FocusKind, { box: string; chip: string }> = {
+  headline: { box: 'border-sky-400 bg-sky-400/10', chip: 'bg-sky-400 text-slate-900' },
+  price: { box: 'border-amber-400 bg-amber-400/10', chip: 'bg-amber-400 text-slate-900' },
+  product: { box: 'border-emerald-400 bg-emerald-400/10', chip: 'bg-emerald-400 text-slate-900' },
+};
+
+// Smallest box side while resizing, as a fraction of the image
+const MIN_SIZE = 0.03;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Boxes the analysis found on the flyer, drawn over the image: drag to move, drag the corner to resize.
+// The camera frames them and zooms in on the spotlighted ones when the voice mentions them.
+export const FocusRegionEditor: React.FC<FocusRegionEditorProps> = ({ imageUrl, regions, products, onChange }) => {
+  const areaRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; mode: 'move' | 'resize'; x: number; y: number; box: FocusBox } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const update = (id: string, changes: Partial<FocusRegion>) => {
+    onChange(regions.map(region => (region.id === id ? { ...region, ...changes } : region)));
+  };
+
+  const handleAdd = () => {
+    const label = products.find(product => !regions.some(region => region.label === product)) || '';
+    const region: FocusRegion = {
+      id: crypto.randomUUID(),
+      kind: 'product',
+      label,
+      box: { x: 0.35, y: 0.35, width: 0.3, height: 0.3 },
+      spotlight: true,
+    };
+    onChange([...regions, region]);
+    setSelectedId(region.id);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, region: FocusRegion, mode: 'move' | 'resize') => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelectedId(region.id);
+    dragRef.current = { id: region.id, mode, x: e.clientX, y: e.clientY, box: region.box };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const area = areaRef.current;
+    if (!drag || !area) return;
+    const dx = (e.clientX - drag.x) / area.clientWidth;
+    const dy = (e.clientY - drag.y) / area.clientHeight;
+    const { x, y, width, height } = drag.box;
+    const box = drag.mode === 'move'
+      ? { x: clamp(x + dx, 0, 1 - width), y: clamp(y + dy, 0, 1 - height), width, height }
+      : { x, y, width: clamp(width + dx, MIN_SIZE, 1 - x), height: clamp(height + dy, MIN_SIZE, 1 - y) };
+    update(drag.id, { box });
+  };
+
+  const percent = (value: number) => `${value * 100}%`;
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-5 border border-slate-700/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+          <Crop className="w-4 h-4 text-indigo-400" /> Encuadre
+        </h3>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-900 border border-slate-700 text-slate-300 hover:bg-slate-800"
+        >
+          <Plus className="w-3 h-3" /> Añadir región
+        </button>
+      </div>
+
+      <div
+        ref={areaRef}
+        className="relative rounded-lg overflow-hidden select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerDown={() => setSelectedId(null)}
+      >
+        <img src={imageUrl} alt="" className="w-full block pointer-events-none" />
+        {regions.map(region => (
+          <div
+            key={region.id}
+            onPointerDown={(e) => handlePointerDown(e, region, 'move')}
+            className={`absolute border-2 rounded cursor-move ${KIND_COLORS[region.kind].box} ${region.id === selectedId ? 'ring-2 ring-white/70' : ''}`}
+            style={{ left: percent(region.box.x), top: percent(region.box.y), width: percent(region.box.width), height: percent(region.box.height) }}
+          >
+            <span className={`absolute top-0 left-0 px-1 rounded-br text-[10px] font-semibold whitespace-nowrap flex items-center gap-0.5 ${KIND_COLORS[region.kind].chip}`}>
+              {region.spotlight && <ZoomIn className="w-2.5 h-2.5" />}
+              {region.label || KIND_NAMES[region.kind]}
+            </span>
+            <div
+              onPointerDown={(e) => handlePointerDown(e, region, 'resize')}
+              className="absolute -right-1.5 -bottom-1.5 w-3 h-3 rounded-sm bg-white border border-slate-900 cursor-nwse-resize"
+            />
+          </div>
+        ))}
+      </div>
+
+      {regions.length === 0 ? (
+        <p className="text-[11px] text-slate-500">
+          El análisis no marcó regiones en esta imagen; el encuadre queda centrado. Añade una para guiar la cámara.
+        </p>
+      ) : (
+        <div className="space-y-1.5">
+          {regions.map(region => (
+            <div
+              key={region.id}
+              onClick={() => setSelectedId(region.id)}
+              className={`flex items-center gap-2 p-1.5 rounded-lg border ${region.id === selectedId ? 'border-slate-500 bg-slate-900' : 'border-transparent'}`}
+            >
+              <select
+                value={region.kind}
+                onChange={(e) => update(region.id, { kind: e.target.value as FocusKind })}
+                className="bg-slate-900 border border-slate-700 rounded-md px-1.5 py-1 text-xs text-slate-300 outline-none"
+              >
+                {(Object.keys(KIND_NAMES) as FocusKind[]).map(kind => (
+                  <option key={kind} value={kind}>{KIND_NAMES[kind]}</option>
+                ))}
+              </select>
+              <input
+                value={region.label}
+                onChange={(e) => update(region.id, { label: e.target.value })}
+                list="focus-region-products"
+                placeholder="Como lo dice la voz"
+                className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-xs text-slate-200 outline-none focus:border-indigo-500"
+              />
+              <button
+                onClick={() => update(region.id, { spotlight: !region.spotlight })}
+                title={region.spotlight ? 'Acercar cuando la voz lo menciona' : 'Sin acercamiento'}
+                className={`p-1.5 rounded-md ${region.spotlight ? 'text-indigo-300 bg-indigo-500/20' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                <ZoomIn className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onChange(regions.filter(r => r.id !== region.id))}
+                title="Quitar región"
+                className="p-1.5 rounded-md text-slate-500 hover:text-red-400"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <datalist id="focus-region-products">
+            {products.map(product => <option key={product} value={product} />)}
+          </datalist>
+          <p className="text-[11px] text-slate-500">
+            La cámara recorre el volante entre todas las regiones y el precio; las marcadas con lupa se acercan cuando la voz las menciona.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { MixSettings } from '../types';
+
+interface MixControlsProps {
+  mix: MixSettings;
+  hasMusic: boolean;
+  onChange: (changes: Partial<MixSettings>) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, disabled, onChange }) => (
+  <div className={disabled ? 'opacity-40' : ''}>
+    <div className="flex justify-between text-[11px] text-slate-400 mb-1">
+      <span>{label}</span>
+      <span className="font-mono text-indigo-400">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500 disabled:cursor-not-allowed"
+    />
+  </div>
+);
+
+const seconds = (value: number) => `${value.toFixed(value < 1 ? 2 : 1)}s`;
+
+// Ducking and intro/outro of the music bed; applied identically to the preview and the exports
+export const MixControls: React.FC<MixControlsProps> = ({ mix, hasMusic, onChange }) => (
+  <details className="group bg-slate-900 rounded-lg border border-slate-700">
+    <summary className="flex items-center justify-between p-3 cursor-pointer select-none text-xs font-medium text-slate-400 uppercase tracking-wider">
+      <span className="flex items-center gap-1"><SlidersHorizontal className="w-3 h-3" /> Mezcla</span>
+      <span className="normal-case tracking-normal text-[11px] text-slate-500">
+        {mix.ducking ? `Atenuación -${mix.duckDepthDb} dB` : 'Sin atenuación'} · {seconds(mix.preRoll)} / {seconds(mix.postRoll)}
+      </span>
+    </summary>
+
+    <div className="px-3 pb-3 space-y-3">
+      {!hasMusic && (
+        <p className="text-[11px] text-slate-500">Sube una música de fondo para aplicar la mezcla.</p>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={mix.ducking}
+          onChange={(e) => onChange({ ducking: e.target.checked })}
+          className="accent-indigo-500"
+        />
+        Bajar la música cuando habla la voz
+      </label>
+
+      <div className="grid grid-cols-3 gap-3">
+        <Slider label="Profundidad" value={mix.duckDepthDb} min={0} max={24} step={1} format={v => `-${v} dB`} disabled={!mix.ducking} onChange={v => onChange({ duckDepthDb: v })} />
+        <Slider label="Ataque" value={mix.duckAttack} min={0} max={0.5} step={0.01} format={seconds} disabled={!mix.ducking} onChange={v => onChange({ duckAttack: v })} />
+        <Slider label="Liberación" value={mix.duckRelease} min={0.05} max={2} step={0.05} format={seconds} disabled={!mix.ducking} onChange={v => onChange({ duckRelease: v })} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Slider label="Intro musical" value={mix.preRoll} min={0} max={3} step={0.1} format={seconds} onChange={v => onChange({ preRoll: v })} />
+        <Slider label="Cola musical" value={mix.postRoll} min={0} max={5} step={0.1} format={seconds} onChange={v => onChange({ postRoll: v })} />
+        <Slider label="Fundido de entrada" value={mix.fadeIn} min={0} max={3} step={0.1} format={seconds} onChange={v => onChange({ fadeIn: v })} />
+        <Slider label="Fundido de salida" value={mix.fadeOut} min={0} max={5} step={0.1} format={seconds} onChange={v => onChange({ fadeOut: v })} />
+      </div>
+    </div>
+  </details>
+);
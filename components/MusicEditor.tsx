@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Scissors, Repeat } from 'lucide-react';
+import { MusicEdit } from '../types';
+import { computePeaks } from '../services/musicArrange';
+
+interface MusicEditorProps {
+  buffer: AudioBuffer;
+  edit: MusicEdit;
+  onChange: (changes: Partial<MusicEdit>) => void;
+}
+
+type Handle = 'offset' | 'loopStart' | 'loopEnd';
+
+const WAVEFORM_COLUMNS = 300;
+const WAVEFORM_HEIGHT = 64;
+const HANDLE_HIT_PX = 8;
+
+const seconds = (value: number) => `${value.toFixed(1)}s`;
+
+// Waveform of the music file with draggable start offset and loop points
+export const MusicEditor: React.FC<MusicEditorProps> = ({ buffer, edit, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+
+  const peaks = useMemo(() => computePeaks(buffer, WAVEFORM_COLUMNS), [buffer]);
+  const duration = buffer.duration;
+
+  const handles: Record<Handle, number | null> = {
+    offset: edit.offset,
+    loopStart: edit.loop?.start ?? null,
+    loopEnd: edit.loop?.end ?? null,
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const width = canvas.width;
+    const height = canvas.height;
+    const x = (time: number) => (time / duration) * width;
+    ctx.clearRect(0, 0, width, height);
+
+    // Loop section
+    if (edit.loop) {
+      ctx.fillStyle = 'rgba(99, 102, 241, 0.18)';
+      ctx.fillRect(x(edit.loop.start), 0, x(edit.loop.end) - x(edit.loop.start), height);
+    }
+
+    // Waveform, dimmed before the start offset
+    const columnWidth = width / peaks.length;
+    peaks.forEach((peak, i) => {
+      const time = (i / peaks.length) * duration;
+      const barHeight = Math.max(1, peak * height);
+      ctx.fillStyle = time < edit.offset ? '#334155' : '#818cf8';
+      ctx.fillRect(i * columnWidth, (height - barHeight) / 2, Math.max(1, columnWidth - 0.5), barHeight);
+    });
+
+    // Markers
+    const marker = (time: number, color: string) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(Math.round(x(time)) - 1, 0, 2, height);
+    };
+    if (edit.loop) {
+      marker(edit.loop.start, '#6366f1');
+      marker(edit.loop.end, '#6366f1');
+    }
+    marker(edit.offset, '#4ade80');
+  }, [peaks, duration, edit]);
+
+  const timeAt = (clientX: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  // Nearest handle under the pointer, or the start offset when clicking elsewhere
+  const pickHandle = (clientX: number): Handle => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    let best: Handle = 'offset';
+    let bestDistance = Infinity;
+    for (const handle of Object.keys(handles) as Handle[]) {
+      const time = handles[handle];
+      if (time === null) continue;
+      const distance = Math.abs(rect.left + (time / duration) * rect.width - clientX);
+      if (distance <= HANDLE_HIT_PX && distance < bestDistance) {
+        best = handle;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  };
+
+  const moveHandle = (handle: Handle, time: number) => {
+    if (handle === 'offset') onChange({ offset: time });
+    else if (edit.loop) onChange({ loop: handle === 'loopStart' ? { ...edit.loop, start: time } : { ...edit.loop, end: time } });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const handle = pickHandle(e.clientX);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+    moveHandle(handle, timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (dragging) moveHandle(dragging, timeAt(e.clientX));
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg p-3 border border-slate-700 space-y-3">
+      <div className="flex justify-between text-[11px] text-slate-400">
+        <span className="flex items-center gap-1"><Scissors className="w-3 h-3" /> Editor de música</span>
+        <span className="font-mono">
+          <span className="text-green-400">▶ {seconds(edit.offset)}</span>
+          {edit.loop && <span className="text-indigo-400"> · bucle {seconds(edit.loop.start)} – {seconds(edit.loop.end)}</span>}
+          <span className="text-slate-500"> / {seconds(duration)}</span>
+        </span>
+      </div>
+
+      <canvas
+        ref={canvasRef}
+        width={WAVEFORM_COLUMNS * 2}
+        height={WAVEFORM_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+        className="w-full h-16 rounded bg-slate-950 cursor-ew-resize touch-none"
+      />
+      <p className="text-[10px] text-slate-500">
+        Haz clic para fijar el inicio; arrastra las líneas para mover el inicio (verde) o el bucle (azul).
+      </p>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!edit.loop}
+            onChange={(e) => onChange({ loop: e.target.checked ? { start: edit.offset, end: duration } : null })}
+            className="accent-indigo-500"
+          />
+          <Repeat className="w-3 h-3" /> Repetir solo una sección
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={edit.fitEnding}
+            onChange={(e) => onChange({ fitEnding: e.target.checked })}
+            className="accent-indigo-500"
+          />
+          Ajustar el final al cierre del spot
+        </label>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-[11px] text-slate-400 mb-1">
+          <span>Fundido en la unión del bucle</span>
+          <span className="font-mono text-indigo-400">{Math.round(edit.crossfade * 1000)} ms</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="0.5"
+          step="0.01"
+          value={edit.crossfade}
+          onChange={(e) => onChange({ crossfade: parseFloat(e.target.value) })}
+          className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+        />
+      </div>
+    </div>
+  );
+};
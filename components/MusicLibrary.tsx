@@ -0,0 +1,323 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Library, X, Play, Square, Loader2, Check, Sparkles, Trash2, Upload, Save } from 'lucide-react';
+import { MusicEnergy, MusicTrack } from '../types';
+import { MUSIC_MOODS } from '../constants';
+import { decodeAudioFile, playPreview } from '../services/audioUtils';
+import { deleteUserTrack, listMusicTracks, LoadedTrack, loadTrackAudio, saveUserTrack, suggestTrack } from '../services/musicLibrary';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface MusicLibraryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mood?: string; // detected mood of the flyer, used to suggest a track
+  currentTrackId: string | null;
+  onSelect: (track: MusicTrack, loaded: LoadedTrack) => void;
+}
+
+interface TrackDraft {
+  file: File;
+  name: string;
+  moods: string[];
+  tempo: string;
+  energy: MusicEnergy;
+}
+
+const ENERGY_LABELS: Record<MusicEnergy, string> = {
+  low: 'Suave',
+  medium: 'Media',
+  high: 'Alta',
+};
+
+const moodName = (id: string) => MUSIC_MOODS.find(m => m.id === id)?.name || id;
+
+const labelClass = "block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider";
+
+export const MusicLibrary: React.FC<MusicLibraryProps> = ({ isOpen, onClose, mood, currentTrackId, onSelect }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+
+  const [tracks, setTracks] = useState<MusicTrack[]>([]);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TrackDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const stopPreview = () => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+    setPreviewingId(null);
+  };
+
+  const refresh = () => listMusicTracks().then(setTracks).catch(error => console.error("Failed to list music", error));
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    else {
+      stopPreview();
+      setDraft(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const suggested = suggestTrack(mood, tracks);
+
+  const handlePreview = async (track: MusicTrack) => {
+    const wasPlaying = previewingId === track.id;
+    stopPreview();
+    if (wasPlaying) return;
+
+    setLoadingId(track.id);
+    try {
+      const { buffer } = await loadTrackAudio(track);
+      stopPreviewRef.current = playPreview(buffer, () => {
+        setPreviewingId(current => current === track.id ? null : current);
+      });
+      setPreviewingId(track.id);
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleUse = async (track: MusicTrack) => {
+    stopPreview();
+    setLoadingId(track.id);
+    try {
+      onSelect(track, await loadTrackAudio(track));
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  const handleDelete = async (track: MusicTrack) => {
+    if (!confirm(`¿Eliminar "${track.name}" de la biblioteca?`)) return;
+    if (previewingId === track.id) stopPreview();
+    await deleteUserTrack(track.id);
+    refresh();
+  };
+
+  const handleFileChosen = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setDraft({ file, name: file.name.replace(/\.[^.]+$/, ''), moods: [], tempo: '', energy: 'medium' });
+  };
+
+  const handleSaveTrack = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    try {
+      // Only register files the browser can actually play back
+      await decodeAudioFile(await draft.file.arrayBuffer());
+      const tempo = parseInt(draft.tempo, 10);
+      await saveUserTrack({
+        id: crypto.randomUUID(),
+        name: draft.name.trim() || draft.file.name,
+        moods: draft.moods,
+        tempo: tempo > 0 ? tempo : null,
+        energy: draft.energy,
+        builtin: false,
+        loop: null,
+        fileName: draft.file.name,
+        data: draft.file,
+        createdAt: Date.now(),
+      });
+      setDraft(null);
+      refresh();
+    } catch (error) {
+      console.error("Error registering music", error);
+      alert("Error al cargar el archivo de audio. Asegúrate que sea un formato válido (MP3/WAV).");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleDraftMood = (id: string) => {
+    setDraft(prev => prev && ({
+      ...prev,
+      moods: prev.moods.includes(id) ? prev.moods.filter(m => m !== id) : [...prev.moods, id],
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Library className="w-5 h-5 text-indigo-400" /> Biblioteca de Música
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              Pistas libres de derechos generadas en el navegador, más las que registres tú.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+          {tracks.map(track => {
+            const isCurrent = track.id === currentTrackId;
+            const isBusy = loadingId === track.id;
+            return (
+              <div
+                key={track.id}
+                className={`flex items-center gap-3 p-3 rounded-lg border ${
+                  isCurrent ? 'bg-indigo-600/10 border-indigo-500/50' : 'bg-slate-950 border-slate-800'
+                }`}
+              >
+                <button
+                  onClick={() => handlePreview(track)}
+                  disabled={isBusy}
+                  title="Escuchar"
+                  className="p-2 rounded-full bg-slate-800 text-slate-300 hover:text-white hover:bg-slate-700 flex-shrink-0"
+                >
+                  {isBusy ? <Loader2 className="w-4 h-4 animate-spin" />
+                    : previewingId === track.id ? <Square className="w-4 h-4 fill-current" />
+                    : <Play className="w-4 h-4 fill-current" />}
+                </button>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-white truncate">{track.name}</span>
+                    {suggested?.id === track.id && (
+                      <span className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-amber-500/15 text-amber-300">
+                        <Sparkles className="w-3 h-3" /> Sugerida
+                      </span>
+                    )}
+                    {!track.builtin && <span className="text-[10px] text-slate-500">Tuya</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1 text-[10px]">
+                    {track.moods.map(id => (
+                      <span key={id} className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-400">{moodName(id)}</span>
+                    ))}
+                    <span className="px-1.5 py-0.5 text-slate-500 font-mono">
+                      {track.tempo ? `${track.tempo} BPM · ` : ''}Energía {ENERGY_LABELS[track.energy].toLowerCase()}
+                    </span>
+                  </div>
+                </div>
+
+                {!track.builtin && (
+                  <button
+                    onClick={() => handleDelete(track)}
+                    title="Eliminar de la biblioteca"
+                    className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleUse(track)}
+                  disabled={isBusy}
+                  className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold ${
+                    isCurrent ? 'bg-indigo-600/30 text-indigo-200' : 'bg-indigo-600 hover:bg-indigo-500 text-white'
+                  }`}
+                >
+                  {isCurrent && <Check className="w-3 h-3" />} {isCurrent ? 'En uso' : 'Usar'}
+                </button>
+              </div>
+            );
+          })}
+
+          {/* Register a track of your own */}
+          <div className="pt-4 mt-2 border-t border-slate-800">
+            <input type="file" ref={fileInputRef} onChange={handleFileChosen} accept="audio/*" className="hidden" />
+            {!draft ? (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center justify-center gap-2 p-2.5 rounded-lg border border-dashed border-slate-700 text-sm text-slate-400 hover:text-slate-200 hover:bg-slate-800"
+              >
+                <Upload className="w-4 h-4" /> Añadir pista a la biblioteca
+              </button>
+            ) : (
+              <div className="space-y-4 p-4 rounded-lg bg-slate-950 border border-slate-800">
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="col-span-2">
+                    <label className={labelClass}>Nombre</label>
+                    <input
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-indigo-500"
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Tempo (BPM)</label>
+                    <input
+                      type="number"
+                      min="40"
+                      max="220"
+                      value={draft.tempo}
+                      placeholder="—"
+                      onChange={(e) => setDraft({ ...draft, tempo: e.target.value })}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white outline-none focus:border-indigo-500"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Estados de ánimo</label>
+                  <div className="flex flex-wrap gap-1.5">
+                    {MUSIC_MOODS.map(m => (
+                      <button
+                        key={m.id}
+                        onClick={() => toggleDraftMood(m.id)}
+                        className={`px-2 py-1 rounded text-xs border ${
+                          draft.moods.includes(m.id)
+                            ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-200'
+                            : 'border-slate-700 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {m.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className={labelClass}>Energía</label>
+                  <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+                    {(Object.keys(ENERGY_LABELS) as MusicEnergy[]).map(energy => (
+                      <button
+                        key={energy}
+                        onClick={() => setDraft({ ...draft, energy })}
+                        className={`flex-1 py-1.5 text-xs font-medium ${
+                          draft.energy === energy ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {ENERGY_LABELS[energy]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-white/10">
+                    Cancelar
+                  </button>
+                  <button
+                    onClick={handleSaveTrack}
+                    disabled={isSaving}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+                  >
+                    {isSaving ? <Loader2 className="w-3 h-3 animate-spin" /> : <Save className="w-3 h-3" />} Guardar en biblioteca
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
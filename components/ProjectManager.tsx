@@ -0,0 +1,207 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FolderOpen, Save, Copy, Trash2, Download, Upload, X, Loader2, Image as ImageIcon } from 'lucide-react';
+import { ProjectSummary, SpotProject } from '../types';
+import { listProjects, getProject, saveProject, deleteProject, duplicateProject } from '../services/projectStore';
+import { exportProjectFile, importProjectFile, PROJECT_FILE_EXTENSION } from '../services/projectSerializer';
+import { downloadBlob } from '../services/fileUtils';
+
+interface ProjectManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentProjectId: string | null;
+  currentName: string;
+  canSave: boolean;
+  onSave: (name: string, asNew: boolean) => Promise<void>;
+  onOpen: (project: SpotProject) => Promise<void>;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-MX', { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({
+  isOpen,
+  onClose,
+  currentProjectId,
+  currentName,
+  canSave,
+  onSave,
+  onOpen
+}) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [name, setName] = useState(currentName);
+  const [busyId, setBusyId] = useState<string | null>(null); // project id, or 'save' / 'import'
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to list projects", error);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setName(currentName);
+      refresh();
+    }
+  }, [isOpen, currentName]);
+
+  // Runs a project action with a busy indicator and a friendly alert on failure
+  const run = async (id: string, action: () => Promise<void>, errorMessage: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      await refresh();
+    } catch (error: any) {
+      console.error(errorMessage, error);
+      alert(error?.message ? `${errorMessage}\n${error.message}` : errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSave = (asNew: boolean) =>
+    run('save', () => onSave(name.trim() || currentName, asNew), 'Error guardando el proyecto.');
+
+  const handleOpen = (id: string) =>
+    run(id, async () => {
+      const project = await getProject(id);
+      if (!project) throw new Error('El proyecto ya no existe.');
+      await onOpen(project);
+      onClose();
+    }, 'Error abriendo el proyecto.');
+
+  const handleDuplicate = (id: string) =>
+    run(id, async () => { await duplicateProject(id); }, 'Error duplicando el proyecto.');
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!confirm(`¿Eliminar el proyecto "${project.name}"? Esta acción no se puede deshacer.`)) return;
+    run(project.id, () => deleteProject(project.id), 'Error eliminando el proyecto.');
+  };
+
+  const handleExport = (project: ProjectSummary) =>
+    run(project.id, async () => {
+      const full = await getProject(project.id);
+      if (!full) throw new Error('El proyecto ya no existe.');
+      const safeName = project.name.replace(/[^\w\-áéíóúñÁÉÍÓÚÑ ]+/g, '').trim() || 'spot';
+      downloadBlob(await exportProjectFile(full), `${safeName}.${PROJECT_FILE_EXTENSION}`);
+    }, 'Error exportando el proyecto.');
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    run('import', async () => {
+      await saveProject(await importProjectFile(file));
+    }, 'Error importando el proyecto.');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <FolderOpen className="w-5 h-5 text-indigo-400" /> Proyectos
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Save current spot */}
+        <div className="p-5 border-b border-slate-800 space-y-2">
+          <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider">Spot actual</label>
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Nombre del proyecto"
+              className="flex-1 bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none"
+            />
+            <button
+              onClick={() => handleSave(false)}
+              disabled={!canSave || busyId !== null}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-700 disabled:text-slate-500"
+            >
+              {busyId === 'save' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Guardar
+            </button>
+            {currentProjectId && (
+              <button
+                onClick={() => handleSave(true)}
+                disabled={!canSave || busyId !== null}
+                className="px-3 py-2 rounded-lg text-sm text-slate-300 border border-slate-700 hover:bg-white/10 disabled:text-slate-600"
+              >
+                Guardar como nuevo
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Project list */}
+        <div className="flex-1 overflow-y-auto p-3">
+          {projects.length === 0 && (
+            <p className="text-sm text-slate-500 text-center py-8">Aún no hay proyectos guardados en este navegador.</p>
+          )}
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-3 p-2 rounded-lg hover:bg-slate-800/70 ${project.id === currentProjectId ? 'bg-indigo-600/10' : ''}`}
+            >
+              <div className="w-16 h-12 rounded-md bg-slate-800 overflow-hidden flex items-center justify-center flex-shrink-0">
+                {project.thumbnail
+                  ? <img src={project.thumbnail} alt="" className="w-full h-full object-cover" />
+                  : <ImageIcon className="w-5 h-5 text-slate-600" />}
+              </div>
+              <button onClick={() => handleOpen(project.id)} disabled={busyId !== null} className="flex-1 min-w-0 text-left">
+                <span className="block text-sm text-white truncate">{project.name}</span>
+                <span className="block text-xs text-slate-500">{formatDate(project.updatedAt)}</span>
+              </button>
+              {busyId === project.id ? (
+                <Loader2 className="w-4 h-4 animate-spin text-indigo-400 mx-2" />
+              ) : (
+                <div className="flex items-center text-slate-400">
+                  <button onClick={() => handleDuplicate(project.id)} disabled={busyId !== null} className="p-2 rounded-full hover:text-white hover:bg-white/10" title="Duplicar">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleExport(project)} disabled={busyId !== null} className="p-2 rounded-full hover:text-white hover:bg-white/10" title="Exportar archivo">
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(project)} disabled={busyId !== null} className="p-2 rounded-full hover:text-red-400 hover:bg-white/10" title="Eliminar">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Import */}
+        <div className="p-4 border-t border-slate-800 flex justify-end">
+          <input
+            type="file"
+            ref={importInputRef}
+            onChange={handleImport}
+            accept={`.${PROJECT_FILE_EXTENSION},application/json`}
+            className="hidden"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={busyId !== null}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-slate-300 border border-slate-700 hover:bg-white/10"
+          >
+            {busyId === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Importar proyecto
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { SpellCheck, X, Plus, Trash2 } from 'lucide-react';
+import { PronunciationEntry, PronunciationSettings } from '../types';
+import { prepareSpeechText } from '../services/pronunciation';
+
+interface PronunciationPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: PronunciationSettings;
+  script: string;
+  onSave: (settings: PronunciationSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider";
+
+// Lexicon of terms the voice should say differently, with a preview of the script as the voice receives it
+export const PronunciationPanel: React.FC<PronunciationPanelProps> = ({ isOpen, onClose, settings, script, onSave }) => {
+  const [draft, setDraft] = useState<PronunciationSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  const updateEntry = (id: string, patch: Partial<PronunciationEntry>) => {
+    setDraft(prev => ({ ...prev, entries: prev.entries.map(entry => (entry.id === id ? { ...entry, ...patch } : entry)) }));
+  };
+
+  const addEntry = () => {
+    setDraft(prev => ({ ...prev, entries: [...prev.entries, { id: crypto.randomUUID(), term: '', spoken: '', caseSensitive: false }] }));
+  };
+
+  const removeEntry = (id: string) => {
+    setDraft(prev => ({ ...prev, entries: prev.entries.filter(entry => entry.id !== id) }));
+  };
+
+  const handleSave = () => {
+    onSave({ ...draft, entries: draft.entries.filter(entry => entry.term.trim() && entry.spoken.trim()) });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <SpellCheck className="w-5 h-5 text-indigo-400" /> Pronunciación
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {/* Lexicon */}
+          <div>
+            <label className={labelClass}>Diccionario</label>
+            <p className="text-[11px] text-slate-500 mb-3">
+              Marcas, siglas y abreviaturas que la voz debe decir de otra forma. El guion y los subtítulos no cambian.
+            </p>
+            <div className="space-y-2">
+              {draft.entries.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2">
+                  <input
+                    value={entry.term}
+                    onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                    placeholder="Escrito"
+                    className={`${inputClass} font-mono`}
+                  />
+                  <span className="text-slate-500">→</span>
+                  <input
+                    value={entry.spoken}
+                    onChange={(e) => updateEntry(entry.id, { spoken: e.target.value })}
+                    placeholder="Se dice"
+                    className={inputClass}
+                  />
+                  <button
+                    onClick={() => updateEntry(entry.id, { caseSensitive: !entry.caseSensitive })}
+                    className={`px-2 py-2 rounded-lg border text-xs font-mono ${entry.caseSensitive ? 'border-indigo-500 text-indigo-300 bg-indigo-500/10' : 'border-slate-700 text-slate-500 hover:text-white'}`}
+                    title={entry.caseSensitive ? 'Distingue mayúsculas' : 'Ignora mayúsculas'}
+                  >
+                    Aa
+                  </button>
+                  <button
+                    onClick={() => removeEntry(entry.id)}
+                    className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-white/10"
+                    title="Eliminar"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addEntry}
+              className="mt-3 flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs text-slate-200 border border-slate-600 hover:bg-white/10"
+            >
+              <Plus className="w-3.5 h-3.5" /> Añadir término
+            </button>
+          </div>
+
+          {/* Normalization */}
+          <label className="flex items-start gap-2 text-sm text-slate-300 cursor-pointer pt-2 border-t border-slate-800">
+            <input
+              type="checkbox"
+              checked={draft.normalizeNumbers}
+              onChange={(e) => setDraft(prev => ({ ...prev, normalizeNumbers: e.target.checked }))}
+              className="accent-indigo-500 mt-1"
+            />
+            <span>
+              Leer cifras en español de México
+              <span className="block text-[11px] text-slate-500">Precios, porcentajes, promociones 2x1, fechas y teléfonos.</span>
+            </span>
+          </label>
+
+          {/* Preview */}
+          {script.trim() && (
+            <div>
+              <label className={labelClass}>Así lo recibe la voz</label>
+              <p className="bg-slate-950 border border-slate-700 rounded-lg p-3 text-sm text-slate-300 whitespace-pre-wrap">
+                {prepareSpeechText(script, draft)}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-white/10">Cancelar</button>
+          <button onClick={handleSave} className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white">
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
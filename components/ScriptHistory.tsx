@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, X, RotateCcw } from 'lucide-react';
+import { ScriptVersion, ScriptVersionSource } from '../types';
+import { diffWords } from '../services/scriptHistory';
+import { splitWords } from '../services/captions';
+
+interface ScriptHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  history: ScriptVersion[];
+  currentScript: string;
+  onRestore: (version: ScriptVersion) => void;
+}
+
+const SOURCE_LABELS: Record<ScriptVersionSource, string> = {
+  analysis: 'Análisis IA',
+  rewrite: 'Reescritura IA',
+  duration: 'Cambio de duración',
+  manual: 'Edición manual',
+};
+
+const SOURCE_COLORS: Record<ScriptVersionSource, string> = {
+  analysis: 'bg-indigo-900/50 text-indigo-300',
+  rewrite: 'bg-violet-900/50 text-violet-300',
+  duration: 'bg-sky-900/50 text-sky-300',
+  manual: 'bg-slate-700 text-slate-300',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-MX', { dateStyle: 'short', timeStyle: 'medium' });
+
+export const ScriptHistory: React.FC<ScriptHistoryProps> = ({ isOpen, onClose, history, currentScript, onRestore }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Newest first, and preselect the latest version whenever the panel opens
+  const versions = useMemo(() => [...history].reverse(), [history]);
+  useEffect(() => {
+    if (isOpen) setSelectedId(versions[0]?.id || null);
+  }, [isOpen]);
+
+  const selected = versions.find(v => v.id === selectedId) || null;
+  const diff = useMemo(() => (selected ? diffWords(selected.script, currentScript) : []), [selected, currentScript]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-[80vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-400" /> Historial del Guion
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Version list */}
+          <div className="w-64 flex-shrink-0 border-r border-slate-800 overflow-y-auto p-2">
+            {versions.length === 0 && (
+              <p className="text-sm text-slate-500 text-center py-8 px-2">Aún no hay versiones guardadas.</p>
+            )}
+            {versions.map((version, i) => (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                className={`w-full text-left p-2.5 rounded-lg mb-1 transition-colors ${version.id === selectedId ? 'bg-indigo-600/20' : 'hover:bg-slate-800/70'}`}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${SOURCE_COLORS[version.source]}`}>
+                    {SOURCE_LABELS[version.source]}
+                  </span>
+                  <span className="text-[10px] text-slate-500">v{versions.length - i}</span>
+                </div>
+                <span className="block text-xs text-slate-400">{formatTime(version.createdAt)}</span>
+                <span className="block text-xs text-slate-500">{splitWords(version.script).length} palabras</span>
+              </button>
+            ))}
+          </div>
+
+          {/* Diff against the current script */}
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="flex items-center justify-between gap-3 px-5 py-3 border-b border-slate-800 text-xs text-slate-400">
+                  <span>
+                    Cambios desde esta versión hasta el guion actual:
+                    <span className="ml-2 px-1 rounded bg-red-900/40 text-red-300 line-through">eliminado</span>
+                    <span className="ml-2 px-1 rounded bg-green-900/40 text-green-300">agregado</span>
+                  </span>
+                  <button
+                    onClick={() => { onRestore(selected); onClose(); }}
+                    disabled={selected.script === currentScript}
+                    className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-700 disabled:text-slate-500"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Restaurar
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-5 text-sm leading-relaxed text-slate-300">
+                  {selected.script === currentScript ? (
+                    <p className="text-slate-500">Esta versión es igual al guion actual.</p>
+                  ) : (
+                    diff.map((part, i) => (
+                      <span
+                        key={i}
+                        className={
+                          part.type === 'added' ? 'bg-green-900/40 text-green-300 rounded px-0.5'
+                            : part.type === 'removed' ? 'bg-red-900/40 text-red-300 line-through rounded px-0.5'
+                            : ''
+                        }
+                      >
+                        {part.text}{' '}
+                      </span>
+                    ))
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="m-auto text-sm text-slate-500">Selecciona una versión para compararla.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
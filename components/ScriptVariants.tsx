@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Sparkles, Star, Loader2, Mic, Clock, Check, Trash2 } from 'lucide-react';
+import { ScriptVariant } from '../types';
+import { SCRIPT_ANGLES } from '../constants';
+import { estimateReadSeconds } from '../services/captions';
+import { getSpokenText } from '../services/dialogue';
+
+interface ScriptVariantsProps {
+  variants: ScriptVariant[];
+  activeVariantId: string | null;
+  duration: number;
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onGenerate: (angleIds: string[]) => void;
+  onSelect: (id: string) => void;
+  onToggleStar: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+// Read times within this fraction of the target duration are considered on time
+const DURATION_TOLERANCE = 0.15;
+
+const GENERATED_ANGLES = SCRIPT_ANGLES.filter(angle => angle.id !== 'original');
+
+export const ScriptVariants: React.FC<ScriptVariantsProps> = ({
+  variants,
+  activeVariantId,
+  duration,
+  isGenerating,
+  canGenerate,
+  onGenerate,
+  onSelect,
+  onToggleStar,
+  onDelete
+}) => {
+  const [selectedAngles, setSelectedAngles] = useState<string[]>(['price', 'emotional', 'urgency']);
+
+  const toggleAngle = (id: string) => {
+    setSelectedAngles(prev => prev.includes(id) ? prev.filter(a => a !== id) : [...prev, id]);
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-6 border border-slate-700/50">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-indigo-400" />
+          Variantes del Guion
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          {GENERATED_ANGLES.map(angle => (
+            <button
+              key={angle.id}
+              onClick={() => toggleAngle(angle.id)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${
+                selectedAngles.includes(angle.id)
+                  ? 'bg-indigo-600/20 text-indigo-300 border-indigo-500/50'
+                  : 'bg-slate-900 text-slate-400 border-slate-700 hover:text-slate-200'
+              }`}
+            >
+              {angle.name}
+            </button>
+          ))}
+          <button
+            onClick={() => onGenerate(selectedAngles)}
+            disabled={!canGenerate || isGenerating || selectedAngles.length === 0}
+            className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-700 disabled:text-slate-500"
+          >
+            {isGenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+            Generar {selectedAngles.length} variante{selectedAngles.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          Genera versiones del guion con distintos enfoques, compáralas lado a lado y marca tu favorita. Cada variante conserva su propia toma de voz.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+          {variants.map(variant => {
+            const angle = SCRIPT_ANGLES.find(a => a.id === variant.angle);
+            const readTime = estimateReadSeconds(getSpokenText(variant.script));
+            const onTime = Math.abs(readTime - duration) <= duration * DURATION_TOLERANCE;
+            const isActive = variant.id === activeVariantId;
+
+            return (
+              <div
+                key={variant.id}
+                className={`flex flex-col rounded-xl border p-4 transition-all ${
+                  isActive
+                    ? 'border-indigo-500 bg-indigo-600/10 shadow-lg shadow-indigo-500/10'
+                    : variant.starred ? 'border-yellow-500/50 bg-slate-900/60' : 'border-slate-700 bg-slate-900/60'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-semibold text-white">{angle?.name || variant.angle}</span>
+                  <div className="flex items-center text-slate-400">
+                    <button
+                      onClick={() => onToggleStar(variant.id)}
+                      className="p-1.5 rounded-full hover:bg-white/10"
+                      title={variant.starred ? 'Quitar favorita' : 'Marcar como favorita'}
+                    >
+                      <Star className={`w-4 h-4 ${variant.starred ? 'text-yellow-400 fill-current' : 'hover:text-white'}`} />
+                    </button>
+                    {!isActive && (
+                      <button onClick={() => onDelete(variant.id)} className="p-1.5 rounded-full hover:text-red-400 hover:bg-white/10" title="Descartar">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex gap-3 text-[11px] font-mono mb-3">
+                  <span className={`flex items-center gap-1 ${onTime ? 'text-green-400' : 'text-amber-400'}`} title="Tiempo de lectura estimado">
+                    <Clock className="w-3 h-3" /> ~{Math.round(readTime)}s / {duration}s
+                  </span>
+                  <span className={`flex items-center gap-1 ${variant.audioBuffer ? 'text-indigo-300' : 'text-slate-500'}`}>
+                    <Mic className="w-3 h-3" /> {variant.audioBuffer ? `Voz ${Math.round(variant.audioBuffer.duration)}s` : 'Sin voz'}
+                  </span>
+                </div>
+
+                <p className="flex-1 text-sm text-slate-300 leading-relaxed max-h-48 overflow-y-auto whitespace-pre-wrap">{variant.script}</p>
+
+                <button
+                  onClick={() => onSelect(variant.id)}
+                  disabled={isActive}
+                  className={`mt-3 flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-semibold border transition-colors ${
+                    isActive
+                      ? 'border-indigo-500/50 text-indigo-300 cursor-default'
+                      : 'border-slate-600 text-slate-200 hover:bg-white/10'
+                  }`}
+                >
+                  {isActive ? <><Check className="w-3 h-3" /> En uso</> : 'Usar y escuchar'}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
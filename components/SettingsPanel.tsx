@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { Settings, X, Eye, EyeOff, Loader2, Check, AlertTriangle, Trash2, PlugZap } from 'lucide-react';
+import { AISettings, ProviderModels } from '../types';
+import { GEMINI_TEXT_MODELS, GEMINI_TTS_MODELS, OPENAI_TEXT_MODELS, OPENAI_TTS_MODELS, DEFAULT_AI_SETTINGS } from '../constants';
+import { AI_PROVIDERS, createAIProvider } from '../services/aiProvider';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+}
+
+type TestState = { status: 'idle' } | { status: 'testing' } | { status: 'ok' } | { status: 'error'; message: string };
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-indigo-500 outline-none";
+const labelClass = "block text-xs font-medium text-slate-400 mb-1.5 uppercase tracking-wider";
+
+// Free-text model field with suggestions
+const ModelField: React.FC<{ label: string; value: string; options: string[]; listId: string; onChange: (value: string) => void }> = ({
+  label, value, options, listId, onChange
+}) => (
+  <div>
+    <label className={labelClass}>{label}</label>
+    <input value={value} onChange={(e) => onChange(e.target.value)} list={listId} className={inputClass} />
+    <datalist id={listId}>
+      {options.map(option => <option key={option} value={option} />)}
+    </datalist>
+  </div>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [test, setTest] = useState<TestState>({ status: 'idle' });
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setTest({ status: 'idle' });
+      setShowKey(false);
+    }
+  }, [isOpen, settings]);
+
+  const updateGemini = (patch: Partial<AISettings['gemini']>) => {
+    setDraft(prev => ({ ...prev, gemini: { ...prev.gemini, ...patch } }));
+    setTest({ status: 'idle' });
+  };
+
+  const updateOpenAI = (patch: Partial<AISettings['openai']>) => {
+    setDraft(prev => ({ ...prev, openai: { ...prev.openai, ...patch } }));
+    setTest({ status: 'idle' });
+  };
+
+  const handleTest = async () => {
+    setTest({ status: 'testing' });
+    try {
+      await createAIProvider(draft.provider, draft).testConnection();
+      setTest({ status: 'ok' });
+    } catch (error) {
+      console.error("Connection test failed", error);
+      setTest({ status: 'error', message: getErrorMessage(error) });
+    }
+  };
+
+  // Clearing a key takes effect immediately, not only on save
+  const handleClearKey = () => {
+    const cleared: AISettings = draft.provider === 'openai-compatible'
+      ? { ...draft, openai: { ...draft.openai, apiKey: '' } }
+      : { ...draft, gemini: { ...draft.gemini, apiKey: '' } };
+    setDraft(cleared);
+    onSave({
+      ...settings,
+      gemini: { ...settings.gemini, apiKey: cleared.gemini.apiKey },
+      openai: { ...settings.openai, apiKey: cleared.openai.apiKey },
+    });
+    setTest({ status: 'idle' });
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      retries: Math.max(1, Math.round(draft.retries) || DEFAULT_AI_SETTINGS.retries),
+      retryDelayMs: Math.max(0, Math.round(draft.retryDelayMs)),
+    });
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const isGemini = draft.provider === 'gemini';
+  const isOpenAI = draft.provider === 'openai-compatible';
+  const models: ProviderModels & { apiKey: string } = isOpenAI ? draft.openai : draft.gemini;
+  const updateModels = isOpenAI ? updateOpenAI : updateGemini;
+  const textModels = isOpenAI ? OPENAI_TEXT_MODELS : GEMINI_TEXT_MODELS;
+  const ttsModels = isOpenAI ? OPENAI_TTS_MODELS : GEMINI_TTS_MODELS;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-indigo-400" /> Configuración de IA
+          </h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {/* Provider */}
+          <div>
+            <label className={labelClass}>Proveedor</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => { setDraft(prev => ({ ...prev, provider: e.target.value })); setTest({ status: 'idle' }); }}
+              className={inputClass}
+            >
+              {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+
+          {(isGemini || isOpenAI) && (
+            <div className="space-y-4">
+              {isOpenAI && (
+                <div>
+                  <label className={labelClass}>URL del servidor</label>
+                  <input
+                    value={draft.openai.baseUrl}
+                    onChange={(e) => updateOpenAI({ baseUrl: e.target.value.trim() })}
+                    placeholder="http://localhost:8080/v1"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {/* API key */}
+              <div>
+                <label className={labelClass}>API Key {isOpenAI && '(opcional en servidores locales)'}</label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <input
+                      type={showKey ? 'text' : 'password'}
+                      value={models.apiKey}
+                      onChange={(e) => updateModels({ apiKey: e.target.value.trim() })}
+                      placeholder={isGemini ? 'AIza...' : 'sk-...'}
+                      autoComplete="off"
+                      className={`${inputClass} pr-10 font-mono`}
+                    />
+                    <button
+                      onClick={() => setShowKey(!showKey)}
+                      className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-slate-400 hover:text-white"
+                      title={showKey ? 'Ocultar' : 'Mostrar'}
+                    >
+                      {showKey ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  <button
+                    onClick={handleClearKey}
+                    disabled={!models.apiKey}
+                    className="px-3 rounded-lg border border-slate-700 text-slate-400 hover:text-red-400 hover:bg-white/10 disabled:opacity-40"
+                    title="Borrar la API Key de este navegador"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-[11px] text-slate-500 mt-1.5">Se guarda solo en este navegador y se envía únicamente al proveedor.</p>
+              </div>
+
+              {/* Models */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <ModelField label="Análisis" value={models.analysisModel} options={textModels} listId="analysis-models" onChange={(analysisModel) => updateModels({ analysisModel })} />
+                <ModelField label="Reescritura" value={models.rewriteModel} options={textModels} listId="rewrite-models" onChange={(rewriteModel) => updateModels({ rewriteModel })} />
+                <ModelField label="Voz (TTS)" value={models.ttsModel} options={ttsModels} listId="tts-models" onChange={(ttsModel) => updateModels({ ttsModel })} />
+              </div>
+            </div>
+          )}
+
+          {/* Test */}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleTest}
+              disabled={test.status === 'testing'}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm text-slate-200 border border-slate-600 hover:bg-white/10"
+            >
+              {test.status === 'testing' ? <Loader2 className="w-4 h-4 animate-spin" /> : <PlugZap className="w-4 h-4" />}
+              Probar conexión
+            </button>
+            {test.status === 'ok' && <span className="text-sm text-green-400 flex items-center gap-1"><Check className="w-4 h-4" /> Conexión correcta</span>}
+            {test.status === 'error' && <span className="text-xs text-red-400 flex items-start gap-1"><AlertTriangle className="w-4 h-4 flex-shrink-0" /> {test.message}</span>}
+          </div>
+
+          {/* Retry policy */}
+          <div className="grid grid-cols-2 gap-3 pt-2 border-t border-slate-800">
+            <div>
+              <label className={labelClass}>Reintentos</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={draft.retries}
+                onChange={(e) => setDraft(prev => ({ ...prev, retries: parseInt(e.target.value, 10) || 1 }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Espera inicial (s)</label>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={draft.retryDelayMs / 1000}
+                onChange={(e) => setDraft(prev => ({ ...prev, retryDelayMs: (parseFloat(e.target.value) || 0) * 1000 }))}
+                className={inputClass}
+              />
+            </div>
+            <p className="col-span-2 text-[11px] text-slate-500">
+              Ante errores 429 o 500 se reintenta con espera exponencial: {draft.retryDelayMs / 1000}s, {draft.retryDelayMs * 2 / 1000}s, {draft.retryDelayMs * 4 / 1000}s...
+            </p>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-white/10">Cancelar</button>
+          <button onClick={handleSave} className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white">
+            Guardar
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
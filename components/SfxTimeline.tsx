@@ -0,0 +1,349 @@
+import React, { useRef, useState } from 'react';
+import { AudioLines, Plus, Upload, Trash2, Loader2, Anchor, Clock, AlertTriangle } from 'lucide-react';
+import { CaptionWord, SfxClip, SfxSound } from '../types';
+import { SFX_TRACK_COUNT } from '../constants';
+import { MixTimeline } from '../services/mixer';
+import { decodeAudioFile } from '../services/audioUtils';
+import { BUILTIN_SFX, renderBuiltinSfx } from '../services/sfxGenerator';
+import { createSfxClip, resolveClipStart } from '../services/sfxTimeline';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface SfxTimelineProps {
+  clips: SfxClip[];
+  sounds: Record<string, SfxSound>;
+  words: CaptionWord[]; // in voice time
+  timeline: MixTimeline;
+  voiceDuration: number | null;
+  hasMusic: boolean;
+  onAdd: (clip: SfxClip, sound: SfxSound) => void;
+  onChange: (id: string, changes: Partial<SfxClip>) => void;
+  onRemove: (id: string) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, format, onChange }) => (
+  <div>
+    <div className="flex justify-between text-[11px] text-slate-400 mb-1">
+      <span>{label}</span>
+      <span className="font-mono text-indigo-400">{format(value)}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+    />
+  </div>
+);
+
+const seconds = (value: number) => `${value.toFixed(2)}s`;
+const signedSeconds = (value: number) => `${value >= 0 ? '+' : '−'}${Math.abs(value).toFixed(2)}s`;
+
+const laneClass = "relative h-7 rounded bg-slate-950 border border-slate-800";
+
+// Voice, music and effect lanes of the spot. Effects are placed at a time or on a word of the script,
+// and dragged along the timeline; the same placement feeds the preview and every export.
+export const SfxTimeline: React.FC<SfxTimelineProps> = ({
+  clips, sounds, words, timeline, voiceDuration, hasMusic, onAdd, onChange, onRemove
+}) => {
+  const lanesRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const dragRef = useRef<{ id: string; x: number; value: number } | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const { voiceStart, duration } = timeline;
+  const percent = (time: number) => `${(Math.max(0, time) / duration) * 100}%`;
+  const startOf = (clip: SfxClip) => resolveClipStart(clip, words, voiceStart);
+  const selected = clips.find(clip => clip.id === selectedId) || null;
+  const missingCount = clips.filter(clip => startOf(clip) === null).length;
+
+  const addClip = (clip: SfxClip, sound: SfxSound) => {
+    onAdd(clip, sound);
+    setSelectedId(clip.id);
+  };
+
+  const handleAddBuiltin = async (id: string, name: string) => {
+    setIsMenuOpen(false);
+    setIsLoading(true);
+    try {
+      const buffer = await renderBuiltinSfx(id);
+      addClip(createSfxClip(id, name, { type: 'time', time: 0 }), { name, buffer, file: null });
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    setIsMenuOpen(false);
+    if (!file) return;
+    try {
+      const buffer = await decodeAudioFile(await file.arrayBuffer());
+      const name = file.name.replace(/\.[^.]+$/, '');
+      addClip(createSfxClip(crypto.randomUUID(), name, { type: 'time', time: 0 }), { name, buffer, file });
+    } catch (error) {
+      console.error("Error loading effect file", error);
+      alert("Error al cargar el archivo de audio. Asegúrate que sea un formato válido (MP3/WAV).");
+    }
+  };
+
+  // Dragging moves a timed clip, or shifts a word-anchored clip relative to its word
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>, clip: SfxClip) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelectedId(clip.id);
+    dragRef.current = { id: clip.id, x: e.clientX, value: clip.anchor.type === 'time' ? clip.anchor.time : clip.offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const width = lanesRef.current?.clientWidth;
+    const clip = drag && clips.find(c => c.id === drag.id);
+    if (!drag || !width || !clip) return;
+    const value = drag.value + ((e.clientX - drag.x) / width) * duration;
+    if (clip.anchor.type === 'time') onChange(clip.id, { anchor: { type: 'time', time: Math.max(0, value) } });
+    else onChange(clip.id, { offset: value });
+  };
+
+  // Switching the anchor keeps the clip where it is
+  const setAnchorType = (clip: SfxClip, type: 'time' | 'word') => {
+    const start = startOf(clip) ?? 0;
+    if (type === 'time') {
+      onChange(clip.id, { anchor: { type: 'time', time: Math.max(0, start) }, offset: 0 });
+      return;
+    }
+    if (words.length === 0) return;
+    let nearest = 0;
+    words.forEach((word, i) => {
+      if (Math.abs(voiceStart + word.start - start) < Math.abs(voiceStart + words[nearest].start - start)) nearest = i;
+    });
+    onChange(clip.id, { anchor: { type: 'word', index: nearest, word: words[nearest].text }, offset: 0 });
+  };
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-5 border border-slate-700/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+          <AudioLines className="w-4 h-4 text-indigo-400" /> Línea de tiempo de audio
+        </h3>
+        <div className="relative">
+          <input type="file" ref={fileInputRef} onChange={handleUpload} accept="audio/*" className="hidden" />
+          <button
+            onClick={() => setIsMenuOpen(open => !open)}
+            disabled={isLoading}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-900 border border-slate-700 text-slate-300 hover:bg-slate-800"
+          >
+            {isLoading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Plus className="w-3 h-3" />} Añadir efecto
+          </button>
+          {isMenuOpen && (
+            <div className="absolute right-0 z-20 mt-1 w-52 bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+              {BUILTIN_SFX.map(sfx => (
+                <button
+                  key={sfx.id}
+                  onClick={() => handleAddBuiltin(sfx.id, sfx.name)}
+                  className="w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-slate-700"
+                >
+                  {sfx.name}
+                </button>
+              ))}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="w-full flex items-center gap-1.5 px-3 py-2 text-xs text-indigo-300 hover:bg-slate-700 border-t border-slate-700"
+              >
+                <Upload className="w-3 h-3" /> Subir sonido...
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Lanes */}
+      <div className="flex gap-2 text-[10px] text-slate-500">
+        <div className="w-14 flex-shrink-0 space-y-1">
+          <div className="h-4" />
+          <div className="h-7 flex items-center">Voz</div>
+          <div className="h-7 flex items-center">Música</div>
+          {Array.from({ length: SFX_TRACK_COUNT }, (_, track) => (
+            <div key={track} className="h-7 flex items-center">Efectos {track + 1}</div>
+          ))}
+        </div>
+
+        <div ref={lanesRef} className="relative flex-1 space-y-1" onPointerMove={handlePointerMove} onPointerUp={() => { dragRef.current = null; }}>
+          <div className="relative h-4 font-mono">
+            {Array.from({ length: Math.floor(duration) + 1 }, (_, s) => s).filter(s => s % (duration > 20 ? 5 : 1) === 0).map(s => (
+              <span key={s} className="absolute -translate-x-1/2" style={{ left: percent(s) }}>{s}</span>
+            ))}
+          </div>
+
+          <div className={laneClass}>
+            {voiceDuration !== null && (
+              <div
+                className="absolute inset-y-1 rounded bg-sky-500/30 border border-sky-500/50"
+                style={{ left: percent(voiceStart), width: percent(voiceDuration) }}
+              />
+            )}
+            {words.map((word, i) => (
+              <div key={i} className="absolute inset-y-2 w-px bg-sky-300/40" style={{ left: percent(voiceStart + word.start) }} />
+            ))}
+          </div>
+
+          <div className={laneClass}>
+            {hasMusic && <div className="absolute inset-y-1 left-0 right-0 rounded bg-indigo-500/25 border border-indigo-500/40" />}
+          </div>
+
+          {Array.from({ length: SFX_TRACK_COUNT }, (_, track) => (
+            <div key={track} className={laneClass}>
+              {clips.filter(clip => clip.track === track).map(clip => {
+                const start = startOf(clip);
+                const sound = sounds[clip.soundId];
+                if (start === null || !sound) return null;
+                return (
+                  <div
+                    key={clip.id}
+                    onPointerDown={(e) => handlePointerDown(e, clip)}
+                    title={clip.name}
+                    className={`absolute inset-y-0.5 px-1 rounded text-[10px] leading-5 truncate cursor-grab touch-none select-none ${
+                      clip.id === selectedId ? 'bg-amber-400 text-slate-900' : 'bg-amber-500/40 text-amber-100 hover:bg-amber-500/60'
+                    }`}
+                    style={{ left: percent(start), width: `max(6px, ${percent(sound.buffer.duration)})` }}
+                  >
+                    {clip.anchor.type === 'word' && <Anchor className="inline w-2.5 h-2.5 mr-0.5" />}
+                    {clip.name}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {missingCount > 0 && (
+        <p className="text-[11px] text-amber-400 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3" />
+          {missingCount === 1 ? 'Un efecto está anclado' : `${missingCount} efectos están anclados`} a palabras que ya no están en el guion y no suena.
+        </p>
+      )}
+
+      {clips.length === 0 && (
+        <p className="text-[11px] text-slate-500">
+          Añade un whoosh al titular, una caja registradora en el precio o un cierre de marca al final.
+        </p>
+      )}
+
+      {/* Clip list and the selected clip's settings */}
+      {clips.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {clips.map(clip => (
+            <button
+              key={clip.id}
+              onClick={() => setSelectedId(clip.id)}
+              className={`px-2 py-1 rounded text-[11px] border ${
+                clip.id === selectedId ? 'bg-amber-500/20 border-amber-500/60 text-amber-200' : 'border-slate-700 text-slate-400 hover:text-white'
+              } ${startOf(clip) === null ? 'line-through' : ''}`}
+            >
+              {clip.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="bg-slate-900 rounded-lg p-3 border border-slate-700 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={selected.name}
+              onChange={(e) => onChange(selected.id, { name: e.target.value })}
+              className="flex-1 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-indigo-500"
+            />
+            <select
+              value={selected.track}
+              onChange={(e) => onChange(selected.id, { track: parseInt(e.target.value, 10) })}
+              className="bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+            >
+              {Array.from({ length: SFX_TRACK_COUNT }, (_, track) => (
+                <option key={track} value={track}>Efectos {track + 1}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => { onRemove(selected.id); setSelectedId(null); }}
+              title="Quitar efecto"
+              className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden flex-shrink-0">
+              {(['time', 'word'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setAnchorType(selected, type)}
+                  disabled={type === 'word' && words.length === 0}
+                  className={`flex items-center gap-1 px-2 py-1 text-[11px] ${
+                    selected.anchor.type === type ? 'bg-indigo-600 text-white' : 'bg-slate-950 text-slate-400 hover:text-white disabled:opacity-40'
+                  }`}
+                >
+                  {type === 'time' ? <><Clock className="w-3 h-3" /> Tiempo</> : <><Anchor className="w-3 h-3" /> Palabra</>}
+                </button>
+              ))}
+            </div>
+            {selected.anchor.type === 'time' ? (
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={selected.anchor.time}
+                onChange={(e) => onChange(selected.id, { anchor: { type: 'time', time: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                className="w-24 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+              />
+            ) : (
+              <select
+                value={selected.anchor.index}
+                onChange={(e) => {
+                  const index = parseInt(e.target.value, 10);
+                  onChange(selected.id, { anchor: { type: 'word', index, word: words[index].text } });
+                }}
+                className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+              >
+                {words.map((word, i) => (
+                  <option key={i} value={i}>{(voiceStart + word.start).toFixed(1)}s · {word.text}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-3">
+            {selected.anchor.type === 'word' && (
+              <Slider label="Desfase" value={selected.offset} min={-1} max={1} step={0.05} format={signedSeconds}
+                onChange={(offset) => onChange(selected.id, { offset })} />
+            )}
+            <Slider label="Ganancia" value={selected.gainDb} min={-24} max={6} step={0.5} format={(v) => `${v > 0 ? '+' : ''}${v} dB`}
+              onChange={(gainDb) => onChange(selected.id, { gainDb })} />
+            <Slider label="Entrada" value={selected.fadeIn} min={0} max={1} step={0.05} format={seconds}
+              onChange={(fadeIn) => onChange(selected.id, { fadeIn })} />
+            <Slider label="Salida" value={selected.fadeOut} min={0} max={2} step={0.05} format={seconds}
+              onChange={(fadeOut) => onChange(selected.id, { fadeOut })} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
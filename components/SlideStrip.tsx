@@ -0,0 +1,191 @@
+import React, { useMemo } from 'react';
+import { GalleryHorizontal, Plus, Trash2, ChevronLeft, ChevronRight, Sparkles, Clock, Anchor } from 'lucide-react';
+import { CaptionWord, Slide, SlideTiming } from '../types';
+import { buildCaptionCues } from '../services/captions';
+import { findAnchorWord } from '../services/sfxTimeline';
+import { SlideTime } from '../services/slideshow';
+
+interface SlideStripProps {
+  slides: Slide[];
+  times: SlideTime[]; // resolved against the current script, in spot time
+  words: CaptionWord[]; // in voice time
+  voiceStart: number;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (files: File[]) => void;
+  onChange: (slides: Slide[]) => void;
+}
+
+const DEFAULT_SLIDE_SECONDS = 3;
+
+const TIMING_OPTIONS: { type: SlideTiming['type']; label: string; icon: React.ElementType }[] = [
+  { type: 'auto', label: 'Automático', icon: Sparkles },
+  { type: 'duration', label: 'Duración', icon: Clock },
+  { type: 'word', label: 'Con la frase', icon: Anchor },
+];
+
+// Slides of the spot in order: reorder, remove, add more, and choose when each one comes in.
+// On automatic a slide changes when the voice first names one of its regions.
+export const SlideStrip: React.FC<SlideStripProps> = ({ slides, times, words, voiceStart, selectedId, onSelect, onAdd, onChange }) => {
+  const selectedIndex = slides.findIndex(slide => slide.id === selectedId);
+  const selected = slides[selectedIndex] || null;
+
+  // Phrases a slide can come in on: the caption screens, by the index of their first word
+  const phrases = useMemo(() => {
+    let index = 0;
+    return buildCaptionCues(words).map(cue => {
+      const phrase = { index, start: cue.start, text: cue.words.map(w => w.text).join(' ') };
+      index += cue.words.length;
+      return phrase;
+    });
+  }, [words]);
+
+  const update = (id: string, changes: Partial<Slide>) => {
+    onChange(slides.map(slide => (slide.id === id ? { ...slide, ...changes } : slide)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= slides.length) return;
+    const next = [...slides];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const setTimingType = (slide: Slide, type: SlideTiming['type']) => {
+    if (type === 'auto') update(slide.id, { timing: { type: 'auto' } });
+    else if (type === 'duration') update(slide.id, { timing: { type: 'duration', seconds: DEFAULT_SLIDE_SECONDS } });
+    else if (phrases.length > 0) {
+      // Starts on the phrase nearest to where the slide comes in now
+      const start = (times[slides.indexOf(slide)]?.start ?? 0) - voiceStart;
+      const nearest = phrases.reduce((best, phrase) => (Math.abs(phrase.start - start) < Math.abs(best.start - start) ? phrase : best));
+      update(slide.id, { timing: { type: 'word', index: nearest.index, word: words[nearest.index].text } });
+    }
+  };
+
+  const anchoredIndex = selected?.timing.type === 'word' ? findAnchorWord(selected.timing, words) : null;
+
+  return (
+    <div className="bg-slate-800/50 rounded-2xl p-5 border border-slate-700/50 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-slate-300 flex items-center gap-2">
+          <GalleryHorizontal className="w-4 h-4 text-indigo-400" /> Diapositivas
+        </h3>
+        <label className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium bg-slate-900 border border-slate-700 text-slate-300 hover:bg-slate-800 cursor-pointer">
+          <Plus className="w-3 h-3" /> Añadir imágenes
+          <input
+            type="file"
+            accept="image/*"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) onAdd(Array.from<File>(e.target.files));
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {slides.map((slide, i) => (
+          <button
+            key={slide.id}
+            onClick={() => onSelect(slide.id)}
+            className={`relative flex-shrink-0 w-28 rounded-lg overflow-hidden border-2 text-left ${slide.id === selectedId ? 'border-indigo-500' : 'border-slate-700 hover:border-slate-500'}`}
+          >
+            <img src={slide.imageUrl} alt="" className="w-full aspect-video object-cover" />
+            <span className="absolute top-1 left-1 px-1.5 rounded bg-black/70 text-[10px] font-semibold text-white">{i + 1}</span>
+            <span className="block px-1.5 py-0.5 bg-slate-900 text-[10px] font-mono text-slate-400">
+              {times[i] ? `${times[i].start.toFixed(1)}–${times[i].end.toFixed(1)}s` : '--'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="bg-slate-900 rounded-lg p-3 border border-slate-700 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-xs text-slate-300 truncate">Diapositiva {selectedIndex + 1} · {selected.image.name}</span>
+            <button
+              onClick={() => move(selectedIndex, -1)}
+              disabled={selectedIndex === 0}
+              title="Mover antes"
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => move(selectedIndex, 1)}
+              disabled={selectedIndex === slides.length - 1}
+              title="Mover después"
+              className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-white/5 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => onChange(slides.filter(slide => slide.id !== selected.id))}
+              disabled={slides.length === 1}
+              title="Quitar diapositiva"
+              className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-white/5 disabled:opacity-30"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          {selectedIndex === 0 ? (
+            <p className="text-[11px] text-slate-500">La primera diapositiva abre el spot.</p>
+          ) : (
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-lg border border-slate-700 overflow-hidden flex-shrink-0">
+                {TIMING_OPTIONS.map(({ type, label, icon: Icon }) => (
+                  <button
+                    key={type}
+                    onClick={() => setTimingType(selected, type)}
+                    disabled={type === 'word' && phrases.length === 0}
+                    className={`flex items-center gap-1 px-2 py-1 text-[11px] ${
+                      selected.timing.type === type ? 'bg-indigo-600 text-white' : 'bg-slate-950 text-slate-400 hover:text-white disabled:opacity-40'
+                    }`}
+                  >
+                    <Icon className="w-3 h-3" /> {label}
+                  </button>
+                ))}
+              </div>
+              {selected.timing.type === 'duration' && (
+                <input
+                  type="number"
+                  min="0.5"
+                  step="0.5"
+                  value={selected.timing.seconds}
+                  onChange={(e) => update(selected.id, { timing: { type: 'duration', seconds: Math.max(0.5, parseFloat(e.target.value) || 0) } })}
+                  className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+                />
+              )}
+              {selected.timing.type === 'word' && (
+                <select
+                  value={anchoredIndex ?? ''}
+                  onChange={(e) => {
+                    const index = parseInt(e.target.value, 10);
+                    update(selected.id, { timing: { type: 'word', index, word: words[index].text } });
+                  }}
+                  className="flex-1 min-w-0 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-white outline-none"
+                >
+                  {anchoredIndex === null && <option value="">Frase ya no está en el guion</option>}
+                  {anchoredIndex !== null && !phrases.some(p => p.index === anchoredIndex) && (
+                    <option value={anchoredIndex}>{(voiceStart + words[anchoredIndex].start).toFixed(1)}s · {words[anchoredIndex].text}…</option>
+                  )}
+                  {phrases.map(phrase => (
+                    <option key={phrase.index} value={phrase.index}>{(voiceStart + phrase.start).toFixed(1)}s · {phrase.text}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-[11px] text-slate-500">
+        Sube varias imágenes juntas en el paso 1 para que el guion las recorra en orden; cada cambio entra con la transición de la animación.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { HardDrive, X, Play, Square, Trash2, Loader2, Download } from 'lucide-react';
+import { SpeechCacheEntry } from '../types';
+import { SPEECH_CACHE_MAX_BYTES, VOICES, VOICE_STYLES } from '../constants';
+import { clearSpeechCache, deleteSpeechCacheEntry, listSpeechCache } from '../services/speechCache';
+import { renderVoiceDemoPack } from '../services/speechSynthesis';
+import { pcmToAudioBuffer, playPreview } from '../services/audioUtils';
+import { downloadBlob } from '../services/fileUtils';
+import { getErrorMessage } from '../services/errorUtils';
+
+interface SpeechCachePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// PCM is 16-bit mono at 24 kHz
+const BYTES_PER_SECOND = 48000;
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('es-MX', { dateStyle: 'short', timeStyle: 'short' });
+
+const styleName = (instruction: string) => VOICE_STYLES.find(s => s.instruction === instruction)?.name || instruction || 'Sin estilo';
+
+// What is stored in the speech cache, with playback, deletion and the voice demo pack
+export const SpeechCachePanel: React.FC<SpeechCachePanelProps> = ({ isOpen, onClose }) => {
+  const stopPreviewRef = useRef<(() => void) | null>(null);
+  const [entries, setEntries] = useState<SpeechCacheEntry[]>([]);
+  const [previewingKey, setPreviewingKey] = useState<string | null>(null);
+  const [demoProgress, setDemoProgress] = useState<number | null>(null);
+
+  const stopPreview = () => {
+    stopPreviewRef.current?.();
+    stopPreviewRef.current = null;
+    setPreviewingKey(null);
+  };
+
+  const refresh = () => listSpeechCache().then(setEntries).catch(error => console.error("Failed to list the speech cache", error));
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    else stopPreview();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  const handlePreview = (entry: SpeechCacheEntry) => {
+    const wasPlaying = previewingKey === entry.key;
+    stopPreview();
+    if (wasPlaying) return;
+    stopPreviewRef.current = playPreview(pcmToAudioBuffer(entry.pcm, 24000), () => {
+      setPreviewingKey(current => current === entry.key ? null : current);
+    });
+    setPreviewingKey(entry.key);
+  };
+
+  const handleDelete = async (entry: SpeechCacheEntry) => {
+    if (previewingKey === entry.key) stopPreview();
+    await deleteSpeechCacheEntry(entry.key);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('¿Vaciar la caché de voz? Las locuciones se volverán a generar con la API.')) return;
+    stopPreview();
+    await clearSpeechCache();
+    refresh();
+  };
+
+  const handleDownloadDemos = async () => {
+    setDemoProgress(0);
+    try {
+      const zip = await renderVoiceDemoPack(done => setDemoProgress(done));
+      downloadBlob(zip, 'voice-demos.zip');
+    } catch (error) {
+      console.error(error);
+      alert(getErrorMessage(error));
+    } finally {
+      setDemoProgress(null);
+      refresh();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div>
+            <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+              <HardDrive className="w-5 h-5 text-indigo-400" /> Caché de voz
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              Locuciones ya generadas: el mismo texto, voz, estilo y modelo no vuelve a consumir cuota.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-full text-slate-400 hover:text-white hover:bg-white/10">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Usage */}
+        <div className="px-5 pt-4">
+          <div className="flex justify-between text-[11px] text-slate-400 mb-1">
+            <span>{entries.length} locuciones · {Math.round(totalSize / BYTES_PER_SECOND)} s de audio</span>
+            <span className="font-mono">{formatSize(totalSize)} / {formatSize(SPEECH_CACHE_MAX_BYTES)}</span>
+          </div>
+          <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (totalSize / SPEECH_CACHE_MAX_BYTES) * 100)}%` }} />
+          </div>
+          <p className="text-[10px] text-slate-500 mt-1">Al llenarse se descartan primero las que llevan más tiempo sin usarse.</p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-2">
+          {entries.length === 0 && <p className="text-sm text-slate-500 text-center py-8">La caché está vacía.</p>}
+          {entries.map(entry => (
+            <div key={entry.key} className="flex items-center gap-3 p-3 rounded-lg border bg-slate-950 border-slate-800">
+              <button
+                onClick={() => handlePreview(entry)}
+                title="Escuchar"
+                className="p-2 rounded-full bg-slate-800 text-slate-300 hover:text-white hover:bg-slate-700 flex-shrink-0"
+              >
+                {previewingKey === entry.key ? <Square className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate" title={entry.text}>{entry.text}</p>
+                <p className="text-[11px] text-slate-500 truncate">
+                  {entry.voiceName} · {styleName(entry.style)} · {entry.model}
+                </p>
+                <p className="text-[10px] text-slate-600">
+                  {(entry.size / BYTES_PER_SECOND).toFixed(1)} s · {formatSize(entry.size)} · usada {formatTime(entry.lastUsed)} · {entry.hits} {entry.hits === 1 ? 'reuso' : 'reusos'}
+                </p>
+              </div>
+              <button
+                onClick={() => handleDelete(entry)}
+                title="Eliminar"
+                className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-white/10 flex-shrink-0"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between gap-2">
+          <button
+            onClick={handleDownloadDemos}
+            disabled={demoProgress !== null}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-xs text-slate-300 border border-slate-600 hover:bg-white/10 disabled:opacity-50"
+            title="Genera una demo por voz para public/voice-demos"
+          >
+            {demoProgress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {demoProgress !== null ? `Demos ${demoProgress}/${VOICES.length}` : 'Demos de voz'}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleClear}
+              disabled={entries.length === 0}
+              className="px-4 py-2 rounded-lg text-sm text-red-300 hover:bg-red-500/10 disabled:opacity-40"
+            >
+              Vaciar caché
+            </button>
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 text-white">
+              Cerrar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,63 +1,187 @@
-import React, { useEffect, useRef, useState } from 'react';
-import { Play, Pause, Download, MonitorPlay } from 'lucide-react';
-import { AnalysisResult } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Download, MonitorPlay, Loader2, X, Captions } from 'lucide-react';
+import { AnalysisResult, BrandKit, CaptionCue, EndCardSettings, LoudnessReport, LoudnessTarget, MixSettings, MotionTemplate, MusicBed, OutputPreset, PlacedSfx, Slide } from '../types';
+import { BrandScene, drawSpotFrame, getPresetSize, SlideScene, SpotScene } from '../services/spotRenderer';
+import { SlideTime } from '../services/slideshow';
+import { loadBrandFonts } from '../services/brandKits';
+import { encodeQr } from '../services/qrCode';
+import { renderMaster } from '../services/audioUtils';
+import { getMixTimeline } from '../services/mixer';
+import { getMusicBeats } from '../services/musicArrange';
+import { getSfxEnd } from '../services/sfxTimeline';
+import { exportVideo, getSupportedVideoFormat } from '../services/videoExport';
+import { downloadBlob } from '../services/fileUtils';
+import { VIDEO_RESOLUTIONS, VIDEO_FRAME_RATES } from '../constants';
 
 interface VideoPreviewProps {
-  imageUrl: string | null;
+  slides: Slide[];
+  slideTimes: SlideTime[]; // when each slide is on screen, resolved against the current script
   audioBuffer: AudioBuffer | null;
-  musicBuffer: AudioBuffer | null;
+  music: MusicBed | null;
+  musicTempo: number | null; // BPM of the library track the music came from
+  sfx: PlacedSfx[];
   musicVolume: number;
+  mixSettings: MixSettings;
+  loudnessTarget: LoudnessTarget;
   musicFileName: string | null;
   analysis: AnalysisResult | null;
-  script: string;
+  captions: CaptionCue[];
+  preset: OutputPreset;
+  brandKit: BrandKit | null;
+  endCard: EndCardSettings;
+  motion: MotionTemplate;
+  onMastered?: (report: LoudnessReport) => void; // what the normalizer delivered for the exported video
 }
 
+// Short side of the live preview canvas; export renders at the chosen resolution instead
+const PREVIEW_SHORT_SIDE = 720;
+
 export const VideoPreview: React.FC<VideoPreviewProps> = ({ 
-  imageUrl, 
+  slides,
+  slideTimes,
   audioBuffer, 
-  musicBuffer,
+  music,
+  musicTempo,
+  sfx,
   musicVolume,
+  mixSettings,
+  loudnessTarget,
   musicFileName,
   analysis, 
-  script 
+  captions,
+  preset,
+  brandKit,
+  endCard,
+  motion,
+  onMastered
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const voiceSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const musicSourceRef = useRef<AudioBufferSourceNode | null>(null);
-  const musicGainNodeRef = useRef<GainNode | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const playRequestRef = useRef(0); // bumped by stop, so a play still waiting for its master gives up
+  const masterRef = useRef<ReturnType<typeof renderMaster> | null>(null);
   const animationFrameRef = useRef<number>(0);
-  const startTimeRef = useRef<number>(0);
-  const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
+  const startTimeRef = useRef<number>(0); // AudioContext time at which the timeline started
+  const [slideImages, setSlideImages] = useState<Record<string, HTMLImageElement>>({}); // by object URL
+  const [brandScene, setBrandScene] = useState<BrandScene | null>(null);
+
+  // Export State
+  const [exportResolution, setExportResolution] = useState(VIDEO_RESOLUTIONS[1].id);
+  const [exportFps, setExportFps] = useState(30);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const exportFormat = getSupportedVideoFormat();
+
+  const [highlightWords, setHighlightWords] = useState(true);
+
+  const endCardSeconds = endCard.enabled ? endCard.duration : 0;
+
+  // Voice plus the music intro and outro, the end card and any effect ringing past them;
+  // without a voice the picture runs on a nominal 10 s
+  const timeline = audioBuffer
+    ? getMixTimeline(audioBuffer.duration, !!music, mixSettings, getSfxEnd(sfx), endCardSeconds)
+    : { voiceStart: 0, endCardStart: 10, duration: 10 + endCardSeconds };
+
+  // Beats the punch-zoom lands on, following the music edit
+  const beats = useMemo(() => (
+    music && musicTempo ? getMusicBeats(music.buffer.duration, music.edit, timeline.duration, musicTempo) : []
+  ), [music, musicTempo, timeline.duration]);
+
+  // Encoded here rather than per frame; a link too long for a QR just leaves it out
+  const qr = useMemo(() => {
+    const url = endCard.url.trim();
+    if (!endCard.enabled || !url) return null;
+    try {
+      return encodeQr(url);
+    } catch {
+      return null;
+    }
+  }, [endCard.enabled, endCard.url]);
 
-  // Load image object
+  const previewSize = getPresetSize(preset, PREVIEW_SHORT_SIDE);
+  const isPortrait = preset.height > preset.width;
+
+  // Load the image of every new slide; reordering or timing changes reuse the decoded ones,
+  // and images of slides that are gone are dropped
   useEffect(() => {
-    if (imageUrl) {
+    const urls = new Set(slides.map(slide => slide.imageUrl));
+    if (Object.keys(slideImages).some(url => !urls.has(url))) {
+      setSlideImages(prev => Object.fromEntries(Object.entries(prev).filter(([url]) => urls.has(url))));
+    }
+    slides.forEach(({ imageUrl }) => {
+      if (slideImages[imageUrl]) return;
       const img = new Image();
       img.src = imageUrl;
-      img.onload = () => setImageElement(img);
+      img.onload = () => setSlideImages(prev => ({ ...prev, [imageUrl]: img }));
+    });
+  }, [slides]);
+
+  // Slides whose image is ready, with their time on screen
+  const sceneSlides = useMemo<SlideScene[]>(() => slides.flatMap((slide, i) => {
+    const image = slideImages[slide.imageUrl];
+    const time = slideTimes[i];
+    return image && time ? [{ image, start: time.start, end: time.end, regions: slide.regions }] : [];
+  }), [slides, slideTimes, slideImages]);
+  const hasPicture = sceneSlides.length > 0;
+
+  // Brand kit with its logo decoded and its fonts loaded, so the first frame already uses them
+  useEffect(() => {
+    if (!brandKit) {
+      setBrandScene(null);
+      return;
     }
-  }, [imageUrl]);
-
-  // Initial Draw
+    let cancelled = false;
+    const logoUrl = brandKit.logo ? URL.createObjectURL(brandKit.logo) : null;
+    const logo = new Promise<HTMLImageElement | null>(resolve => {
+      if (!logoUrl) return resolve(null);
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => resolve(null);
+      img.src = logoUrl;
+    });
+    Promise.all([logo, loadBrandFonts(brandKit)]).then(([logoImage]) => {
+      if (cancelled) return;
+      const { colors, headlineFont, bodyFont, tagline, disclaimers } = brandKit;
+      setBrandScene({ logo: logoImage, colors, headlineFont, bodyFont, tagline, disclaimers });
+    });
+    return () => {
+      cancelled = true;
+      if (logoUrl) URL.revokeObjectURL(logoUrl);
+    };
+  }, [brandKit]);
+
+  // Initial Draw (also after a preset change, which resizes and clears the canvas)
   useEffect(() => {
-    if (canvasRef.current && imageElement) {
+    if (canvasRef.current && hasPicture && !isPlaying) {
       drawFrame(0);
     }
-  }, [imageElement, analysis]);
+  }, [sceneSlides, analysis, preset, captions, highlightWords, brandScene, endCard, qr, motion]);
 
-  // Stop playback if buffers change (e.g. new generation)
+  // Stop playback and drop the rendered master if buffers or the mix change (e.g. new generation)
   useEffect(() => {
+    masterRef.current = null;
     stop();
-  }, [audioBuffer, musicBuffer]);
+  }, [audioBuffer, music, sfx, musicVolume, mixSettings, loudnessTarget, endCardSeconds]);
 
-  // Real-time Volume Adjustment
+  // Cancel any running export if the preview goes away
   useEffect(() => {
-    if (musicGainNodeRef.current) {
-        musicGainNodeRef.current.gain.value = musicVolume;
+    return () => exportAbortRef.current?.abort();
+  }, []);
+
+  // The normalized, limited mix the exports deliver. Playback plays it too, so the preview sounds exactly
+  // like the files; it is rendered once per mix and shared with the video export.
+  const getMaster = () => {
+    if (!masterRef.current) {
+      const master = renderMaster(audioBuffer!, music, sfx, endCardSeconds, musicVolume, mixSettings, loudnessTarget);
+      master.catch(() => {
+        if (masterRef.current === master) masterRef.current = null;
+      });
+      masterRef.current = master;
     }
-  }, [musicVolume]);
+    return masterRef.current;
+  };
 
   const togglePlay = async () => {
     if (isPlaying) {
@@ -68,7 +192,21 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
   };
 
   const play = async () => {
-    if (!audioBuffer || !imageElement) return;
+    if (!audioBuffer || !hasPicture || isPreparing) return;
+    const request = ++playRequestRef.current;
+
+    setIsPreparing(true);
+    let master: AudioBuffer;
+    try {
+      master = (await getMaster()).buffer;
+    } catch (error: any) {
+      console.error("Preview render failed", error);
+      alert(`Error preparando la vista previa: ${error?.message || error}`);
+      return;
+    } finally {
+      setIsPreparing(false);
+    }
+    if (request !== playRequestRef.current) return;
 
     if (!audioContextRef.current) {
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -79,61 +217,28 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
     }
 
     const ctx = audioContextRef.current;
-    
-    // 1. Play Voice
-    const voiceSource = ctx.createBufferSource();
-    voiceSource.buffer = audioBuffer;
-    voiceSource.connect(ctx.destination);
-    voiceSource.onended = () => stop();
-    
-    voiceSourceRef.current = voiceSource;
-    voiceSource.start(0);
-
-    // 2. Play Music (if available)
-    if (musicBuffer) {
-      const musicSource = ctx.createBufferSource();
-      musicSource.buffer = musicBuffer;
-      musicSource.loop = true; // Loop music if short
-      
-      const gainNode = ctx.createGain();
-      gainNode.gain.value = musicVolume;
-      
-      musicSource.connect(gainNode);
-      gainNode.connect(ctx.destination);
-      musicSource.start(0);
-      
-      musicSourceRef.current = musicSource;
-      musicGainNodeRef.current = gainNode;
-    }
+    const startAt = ctx.currentTime;
 
-    startTimeRef.current = performance.now();
+    const source = ctx.createBufferSource();
+    source.buffer = master;
+    source.connect(ctx.destination);
+    source.start(startAt);
+    sourceRef.current = source;
+
+    startTimeRef.current = startAt;
     setIsPlaying(true);
 
     animate();
   };
 
   const stop = () => {
-    if (voiceSourceRef.current) {
+    playRequestRef.current++;
+    if (sourceRef.current) {
       try {
-        voiceSourceRef.current.stop();
-        voiceSourceRef.current.disconnect();
+        sourceRef.current.stop();
+        sourceRef.current.disconnect();
       } catch (e) { /* ignore */ }
-      voiceSourceRef.current = null;
-    }
-
-    if (musicSourceRef.current) {
-      try {
-        musicSourceRef.current.stop();
-        musicSourceRef.current.disconnect();
-      } catch (e) { /* ignore */ }
-      musicSourceRef.current = null;
-    }
-    
-    if (musicGainNodeRef.current) {
-        try {
-            musicGainNodeRef.current.disconnect();
-        } catch(e) { /* ignore */ }
-        musicGainNodeRef.current = null;
+      sourceRef.current = null;
     }
 
     if (animationFrameRef.current) {
@@ -144,10 +249,12 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
   };
 
   const animate = () => {
-    const elapsed = (performance.now() - startTimeRef.current) / 1000;
-    const duration = audioBuffer ? audioBuffer.duration : 10;
-    
-    if (elapsed > duration + 0.5) { // Small buffer
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    // Timeline clock follows the audio clock so picture and sound never drift apart
+    const elapsed = ctx.currentTime - startTimeRef.current;
+
+    if (elapsed > timeline.duration) {
       stop();
       return;
     }
@@ -156,139 +263,82 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
     animationFrameRef.current = requestAnimationFrame(animate);
   };
 
+  const getScene = (): SpotScene => ({
+    slides: sceneSlides,
+    analysis,
+    captions,
+    highlightWords,
+    duration: timeline.duration,
+    voiceStart: timeline.voiceStart,
+    safeArea: preset.safeArea,
+    brand: brandScene,
+    endCard: endCard.enabled
+      ? { start: timeline.endCardStart, cta: endCard.cta, phone: endCard.phone, address: endCard.address, url: endCard.url.trim(), qr }
+      : null,
+    motion,
+    beats,
+  });
+
   const drawFrame = (time: number) => {
     const canvas = canvasRef.current;
-    if (!canvas || !imageElement) return;
+    if (!canvas || !hasPicture) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    const width = canvas.width;
-    const height = canvas.height;
-
-    // Clear
-    ctx.fillStyle = '#000';
-    ctx.fillRect(0, 0, width, height);
-
-    // KEN BURNS EFFECT
-    // Zoom from 1.0 to 1.15 over the duration
-    const duration = audioBuffer ? audioBuffer.duration : 10;
-    const progress = Math.min(time / duration, 1);
-    const scale = 1.0 + (progress * 0.15); // 15% zoom
-    
-    // Pan slightly to the right
-    const panX = (width * 0.05) * progress; 
-    
-    // Calculate centered source rectangle
-    const iRatio = imageElement.width / imageElement.height;
-    const cRatio = width / height;
-    
-    let sWidth, sHeight, sx, sy;
-
-    // Cover logic
-    if (iRatio > cRatio) {
-      sHeight = imageElement.height;
-      sWidth = imageElement.height * cRatio;
-      sx = (imageElement.width - sWidth) / 2;
-      sy = 0;
-    } else {
-      sWidth = imageElement.width;
-      sHeight = imageElement.width / cRatio;
-      sx = 0;
-      sy = (imageElement.height - sHeight) / 2;
-    }
-
-    // Apply scale to source rect (inverse scale)
-    const activeSWidth = sWidth / scale;
-    const activeSHeight = sHeight / scale;
-    const activeSx = sx + ((sWidth - activeSWidth) / 2) + (panX * (imageElement.width / width));
-    const activeSy = sy + ((sHeight - activeSHeight) / 2);
-
-    ctx.drawImage(
-      imageElement, 
-      activeSx, activeSy, activeSWidth, activeSHeight, 
-      0, 0, width, height
-    );
-
-    // OVERLAY
-    // Darken slightly for text readability
-    ctx.fillStyle = 'rgba(0,0,0,0.3)';
-    ctx.fillRect(0, 0, width, height);
-
-    // TEXT ANIMATIONS
-    if (analysis) {
-      // Dynamic Captioning logic
-      ctx.textAlign = 'center';
-      
-      // Headline (Always visible but fades out slightly or moves)
-      ctx.font = 'bold 32px Inter';
-      ctx.fillStyle = analysis.brandColors?.[0] || '#ffffff';
-      ctx.shadowColor = 'rgba(0,0,0,0.8)';
-      ctx.shadowBlur = 10;
-      
-      // Animate headline entrance
-      const headY = 80 + (progress < 0.1 ? (1 - progress/0.1) * -50 : 0);
-      ctx.globalAlpha = Math.min(progress * 2, 1);
-      ctx.fillText(analysis.headline.substring(0, 30) + (analysis.headline.length > 30 ? '...' : ''), width / 2, headY);
-      
-      // Script Captions (Simple chunking)
-      const words = script.split(' ');
-      const wordsPerScreen = 8;
-      const totalScreens = Math.ceil(words.length / wordsPerScreen);
-      const currentScreen = Math.floor(progress * totalScreens);
-      
-      const startWord = currentScreen * wordsPerScreen;
-      const visibleWords = words.slice(startWord, startWord + wordsPerScreen).join(' ');
-
-      if (visibleWords) {
-        ctx.font = '500 24px Inter';
-        ctx.fillStyle = '#ffffff';
-        ctx.globalAlpha = 1;
-        
-        // Wrap text
-        const maxWidth = width - 80;
-        const lineHeight = 35;
-        const x = width / 2;
-        let y = height - 120;
-        
-        wrapText(ctx, visibleWords, x, y, maxWidth, lineHeight);
-      }
-    }
+    drawSpotFrame(ctx, canvas.width, canvas.height, time, getScene());
   };
 
-  const wrapText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number, lineHeight: number) => {
-    const words = text.split(' ');
-    let line = '';
-
-    for(let n = 0; n < words.length; n++) {
-      const testLine = line + words[n] + ' ';
-      const metrics = ctx.measureText(testLine);
-      const testWidth = metrics.width;
-      if (testWidth > maxWidth && n > 0) {
-        ctx.fillText(line, x, y);
-        line = words[n] + ' ';
-        y += lineHeight;
-      } else {
-        line = testLine;
+  const handleExport = async () => {
+    if (!audioBuffer || !hasPicture || exportProgress !== null) return;
+    stop();
+
+    const resolution = VIDEO_RESOLUTIONS.find(r => r.id === exportResolution) || VIDEO_RESOLUTIONS[0];
+    const { width, height } = getPresetSize(preset, resolution.shortSide);
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+
+    try {
+      const { buffer: mix, loudness } = await getMaster();
+      onMastered?.(loudness);
+      // Rendering the master cannot be interrupted; a cancel during it stops the export here
+      if (controller.signal.aborted) return;
+      const result = await exportVideo(getScene(), mix, {
+        width,
+        height,
+        fps: exportFps,
+        signal: controller.signal,
+        onProgress: setExportProgress,
+      });
+      downloadBlob(result.blob, `spot_video_${Date.now()}.${result.extension}`);
+    } catch (error: any) {
+      if (error?.name !== 'AbortError') {
+        console.error("Video export failed", error);
+        alert(`Error exportando el video: ${error?.message || error}`);
       }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
     }
-    ctx.fillText(line, x, y);
   };
 
-  const handleExport = () => {
-    if (!canvasRef.current || !audioBuffer || !audioContextRef.current) return;
-    alert("Iniciando renderizado 1080p...\n(Esta función descargaría el archivo .webm compuesto)");
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
   };
 
   return (
     <div className="flex flex-col items-center bg-gray-900 rounded-xl p-4 shadow-2xl border border-gray-800">
-      <div className="relative w-full aspect-video bg-black rounded-lg overflow-hidden mb-4 shadow-lg ring-1 ring-white/10">
+      <div
+        className={`relative max-w-full bg-black rounded-lg overflow-hidden mb-4 shadow-lg ring-1 ring-white/10 ${isPortrait ? 'h-[70vh]' : 'w-full'}`}
+        style={{ aspectRatio: `${preset.width} / ${preset.height}` }}
+      >
         <canvas 
           ref={canvasRef} 
-          width={1280} 
-          height={720} 
+          width={previewSize.width} 
+          height={previewSize.height} 
           className="w-full h-full object-cover"
         />
-        {!imageUrl && (
+        {slides.length === 0 && (
           <div className="absolute inset-0 flex items-center justify-center text-gray-500">
             <span className="flex items-center gap-2"><MonitorPlay className="w-6 h-6"/> Vista Previa</span>
           </div>
@@ -299,30 +349,76 @@ export const VideoPreview: React.FC<VideoPreviewProps> = ({
         <div className="flex gap-2">
           <button 
             onClick={togglePlay}
-            disabled={!audioBuffer}
+            disabled={!audioBuffer || isPreparing}
             className={`flex items-center gap-2 px-6 py-2 rounded-full font-semibold transition-all ${
               !audioBuffer 
               ? 'bg-gray-700 text-gray-500 cursor-not-allowed' 
               : 'bg-indigo-600 hover:bg-indigo-500 text-white shadow-lg shadow-indigo-500/30'
             }`}
           >
-            {isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+            {isPreparing ? <Loader2 className="w-5 h-5 animate-spin" /> : isPlaying ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
             {isPlaying ? 'Pausar' : 'Reproducir Spot'}
           </button>
+          <button
+            onClick={() => setHighlightWords(!highlightWords)}
+            className={`p-2 rounded-full transition-colors ${highlightWords ? 'text-yellow-400 bg-white/10' : 'text-gray-500 hover:text-gray-300'}`}
+            title="Resaltar la palabra narrada (karaoke)"
+          >
+            <Captions className="w-5 h-5" />
+          </button>
         </div>
 
-        <button 
-          onClick={handleExport}
-          disabled={!audioBuffer}
-          className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-             !audioBuffer ? 'text-gray-600' : 'text-gray-300 hover:text-white hover:bg-white/10'
-          }`}
-        >
-          <Download className="w-4 h-4" /> Exportar MP4
-        </button>
+        <div className="flex items-center gap-2">
+          <select
+            value={exportResolution}
+            onChange={(e) => setExportResolution(e.target.value)}
+            disabled={exportProgress !== null}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-300 outline-none"
+          >
+            {VIDEO_RESOLUTIONS.map(r => (
+              <option key={r.id} value={r.id}>{r.name}</option>
+            ))}
+          </select>
+          <select
+            value={exportFps}
+            onChange={(e) => setExportFps(parseInt(e.target.value, 10))}
+            disabled={exportProgress !== null}
+            className="bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-300 outline-none"
+          >
+            {VIDEO_FRAME_RATES.map(fps => (
+              <option key={fps} value={fps}>{fps} fps</option>
+            ))}
+          </select>
+          <button 
+            onClick={handleExport}
+            disabled={!audioBuffer || !exportFormat || exportProgress !== null}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+               !audioBuffer || !exportFormat ? 'text-gray-600' : 'text-gray-300 hover:text-white hover:bg-white/10'
+            }`}
+          >
+            {exportProgress !== null ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Exportar {exportFormat?.extension === 'mp4' ? 'MP4' : 'WebM'}
+          </button>
+        </div>
       </div>
+
+      {exportProgress !== null && (
+        <div className="w-full mt-3 px-2 flex items-center gap-3">
+          <div className="flex-1 h-2 bg-gray-800 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(exportProgress * 100)}%` }} />
+          </div>
+          <span className="text-xs font-mono text-gray-400 w-10 text-right">{Math.round(exportProgress * 100)}%</span>
+          <button
+            onClick={cancelExport}
+            className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10"
+            title="Cancelar exportación"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
       
-      {!audioBuffer && imageUrl && analysis && (
+      {!audioBuffer && slides.length > 0 && analysis && (
          <p className="mt-3 text-xs text-yellow-500 animate-pulse">
            ⚠ Genera el spot para escuchar la música y voz.
          </p>
@@ -1,4 +1,4 @@
-import { VoiceOption, VoiceStyle } from './types';
+import { VoiceOption, VoiceStyle, ScriptAngle, OutputPreset, AISettings, MixSettings, LoudnessTarget, AudioExportOptions, MusicMood, MusicEdit, PronunciationSettings, EndCardSettings, MotionTemplate } from './types';
 
 export const VOICES: VoiceOption[] = [
   // Original Voices
@@ -32,10 +32,193 @@ export const VOICE_STYLES: VoiceStyle[] = [
   { id: 'dramatic', name: 'Dramático / Cine', instruction: 'Speak with a deep, dramatic, cinematic movie trailer tone.' },
 ];
 
+// Creative angles for script variants. 'original' is the script from the image analysis.
+export const SCRIPT_ANGLES: ScriptAngle[] = [
+  { id: 'original', name: 'Original', instruction: '' },
+  { id: 'price', name: 'Precio', instruction: 'Lead with the price, the discount and the savings. Mention concrete numbers from the image.' },
+  { id: 'emotional', name: 'Emocional', instruction: 'Tell a small emotional story about family, pride or well-being that the product makes possible.' },
+  { id: 'urgency', name: 'Urgencia', instruction: 'Create urgency: limited time, limited stock, act today. Short, punchy sentences.' },
+  { id: 'humor', name: 'Humor', instruction: 'Use light, friendly Mexican humor and a playful twist, without mocking anyone.' },
+];
 export const INTENSITIES = [
   { id: 'low', name: 'Suave (Fondo)', volume: 0.1 },
   { id: 'medium', name: 'Normal (Equilibrado)', volume: 0.25 },
   { id: 'high', name: 'Alto (Energético)', volume: 0.5 },
 ];
 
-export const INITIAL_SCRIPT_PLACEHOLDER = "Sube una imagen para generar un guion automáticamente...";
\ No newline at end of file
+// Moods the music library is tagged with. The detected mood is free text in either language,
+// so it is matched by keyword stems.
+export const MUSIC_MOODS: MusicMood[] = [
+  { id: 'energetic', name: 'Energético', keywords: ['energ', 'dinam', 'dynamic', 'exciting', 'vibran', 'bold', 'power', 'potent', 'sport', 'deport', 'intens'] },
+  { id: 'festive', name: 'Festivo', keywords: ['fest', 'celebr', 'party', 'fiesta', 'navid', 'christmas', 'alegr', 'joy', 'happy', 'feliz', 'cheer'] },
+  { id: 'playful', name: 'Divertido', keywords: ['fun', 'divert', 'playful', 'jugue', 'kids', 'nino', 'humor', 'ludic', 'colorful', 'colorid'] },
+  { id: 'urgent', name: 'Urgente', keywords: ['urgen', 'sale', 'oferta', 'promo', 'discount', 'descuent', 'limited', 'limitad', 'liquidac', 'hot'] },
+  { id: 'elegant', name: 'Elegante', keywords: ['elegan', 'luxur', 'lujo', 'premium', 'sophist', 'sofistic', 'chic', 'exclusiv', 'refin'] },
+  { id: 'calm', name: 'Tranquilo', keywords: ['calm', 'tranquil', 'relax', 'peace', 'paz', 'seren', 'soft', 'suave', 'natural', 'fresh', 'fresc'] },
+  { id: 'emotional', name: 'Emotivo', keywords: ['emotion', 'emotiv', 'warm', 'calid', 'family', 'famili', 'nostalg', 'tender', 'love', 'amor', 'heart'] },
+  { id: 'corporate', name: 'Corporativo', keywords: ['corporat', 'profes', 'trust', 'confian', 'modern', 'tech', 'innov', 'clean', 'limpi', 'inform', 'neutral'] },
+];
+
+// Whole file from the top, with a short crossfade to hide the seam when it repeats
+export const DEFAULT_MUSIC_EDIT: MusicEdit = {
+  offset: 0,
+  loop: null,
+  crossfade: 0.05,
+  fitEnding: false,
+};
+
+// Effect lanes on the audio timeline, under the voice and music
+export const SFX_TRACK_COUNT = 3;
+
+// Broadcast-style bed: music dips ~10 dB under the voice and frames it with a short intro and outro
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  ducking: true,
+  duckDepthDb: 10,
+  duckAttack: 0.08,
+  duckRelease: 0.4,
+  preRoll: 0.5,
+  postRoll: 1.5,
+  fadeIn: 0.5,
+  fadeOut: 1.5,
+};
+
+// Broadcast specs first; streaming platforms and social feeds play back louder
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'ebu-r128', name: 'EBU R128 (-23 LUFS)', lufs: -23, truePeak: -1 },
+  { id: 'atsc-a85', name: 'ATSC A/85 (-24 LUFS)', lufs: -24, truePeak: -2 },
+  { id: 'streaming', name: 'Streaming (-14 LUFS)', lufs: -14, truePeak: -1 },
+  { id: 'social', name: 'Redes sociales (-16 LUFS)', lufs: -16, truePeak: -1 },
+  { id: 'none', name: 'Sin normalizar', lufs: null, truePeak: 0 },
+];
+
+export const AUDIO_SAMPLE_RATES = [44100, 48000];
+export const WAV_BIT_DEPTHS = [16, 24];
+export const MP3_BITRATES = [128, 192, 256, 320];
+
+export const DEFAULT_AUDIO_EXPORT_OPTIONS: AudioExportOptions = {
+  format: 'wav',
+  sampleRate: 44100,
+  bitDepth: 16,
+  channels: 2,
+  mp3Bitrate: 192,
+  stems: false,
+};
+
+export const INITIAL_SCRIPT_PLACEHOLDER = "Sube una imagen para generar un guion automáticamente...";
+
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  { id: 'youtube', name: 'YouTube / TV', aspectRatio: '16:9', width: 1920, height: 1080, safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 } },
+  { id: 'reels', name: 'Reels / Stories / TikTok', aspectRatio: '9:16', width: 1080, height: 1920, safeArea: { top: 0.14, right: 0.06, bottom: 0.22, left: 0.06 } },
+  { id: 'feed', name: 'Feed Cuadrado', aspectRatio: '1:1', width: 1080, height: 1080, safeArea: { top: 0.06, right: 0.06, bottom: 0.08, left: 0.06 } },
+  { id: 'feed-portrait', name: 'Feed Vertical', aspectRatio: '4:5', width: 1080, height: 1350, safeArea: { top: 0.06, right: 0.06, bottom: 0.10, left: 0.06 } },
+];
+
+// Export quality, expressed as the short side of the selected preset
+export const VIDEO_RESOLUTIONS = [
+  { id: '720p', name: 'HD 720p', shortSide: 720 },
+  { id: '1080p', name: 'Full HD 1080p', shortSide: 1080 },
+];
+
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+
+
+// Suggestions for the model fields of the settings panel (any model id can be typed in)
+export const GEMINI_TEXT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite', 'gemini-2.0-flash'];
+export const GEMINI_TTS_MODELS = ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'];
+export const OPENAI_TEXT_MODELS = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini'];
+export const OPENAI_TTS_MODELS = ['gpt-4o-mini-tts', 'tts-1', 'tts-1-hd'];
+
+// Retail abbreviations every Mexican flyer uses; users extend the list with their brands
+export const DEFAULT_PRONUNCIATION_SETTINGS: PronunciationSettings = {
+  normalizeNumbers: true,
+  entries: [
+    { id: 'msi', term: 'MSI', spoken: 'meses sin intereses', caseSensitive: true },
+    { id: 'cu', term: 'c/u', spoken: 'cada uno', caseSensitive: false },
+    { id: 'pzas', term: 'pzas', spoken: 'piezas', caseSensitive: false },
+    { id: 'hrs', term: 'hrs', spoken: 'horas', caseSensitive: false },
+    { id: 'av', term: 'Av.', spoken: 'avenida', caseSensitive: false },
+    { id: 'col', term: 'Col.', spoken: 'colonia', caseSensitive: true },
+    { id: 'cdmx', term: 'CDMX', spoken: 'ciudad de México', caseSensitive: false },
+  ],
+};
+
+// Families loaded from Google Fonts in index.html, so the canvas can draw with them
+export const BRAND_FONTS = ['Inter', 'Montserrat', 'Poppins', 'Oswald', 'Bebas Neue', 'Playfair Display', 'Roboto Slab', 'Pacifico'];
+
+// Last seconds of the picture given to the brand end card when no end card segment is added
+export const END_CARD_SECONDS = 3;
+
+export const DEFAULT_END_CARD: EndCardSettings = {
+  enabled: false,
+  duration: 4,
+  cta: 'Visítanos en',
+  phone: '',
+  address: '',
+  url: '',
+};
+
+export const END_CARD_DURATIONS = [3, 4, 5, 6];
+
+// Picture looks. The first one is the original slow zoom and the fallback when no mood matches.
+export const MOTION_TEMPLATES: MotionTemplate[] = [
+  {
+    id: 'classic', name: 'Clásico', description: 'Acercamiento lento con desplazamiento a la derecha.',
+    moods: ['corporate'],
+    zoomFrom: 1, zoomTo: 1.15, panX: 0.05, panY: 0, punchZoom: 0,
+    overlay: 'dark', headline: 'drop', caption: 'cut', transition: 'fade',
+  },
+  {
+    id: 'impact', name: 'Impacto', description: 'Golpes de zoom al ritmo de la música y cierre con destello.',
+    moods: ['energetic', 'urgent'],
+    zoomFrom: 1.05, zoomTo: 1.2, panX: 0, panY: 0, punchZoom: 0.06,
+    overlay: 'gradient', headline: 'pop', caption: 'pop', transition: 'flash',
+  },
+  {
+    id: 'flash-sale', name: 'Oferta relámpago', description: 'Encuadre cerrado, cortes secos y barrido al cierre.',
+    moods: ['urgent'],
+    zoomFrom: 1.12, zoomTo: 1.18, panX: -0.03, panY: 0, punchZoom: 0.1,
+    overlay: 'dark', headline: 'slide', caption: 'cut', transition: 'wipe',
+  },
+  {
+    id: 'party', name: 'Fiesta', description: 'Sube sobre el volante con el color de la marca y cierre en círculo.',
+    moods: ['festive', 'playful'],
+    zoomFrom: 1.02, zoomTo: 1.18, panX: 0, panY: -0.06, punchZoom: 0.04,
+    overlay: 'tint', headline: 'pop', caption: 'rise', transition: 'iris',
+  },
+  {
+    id: 'elegant', name: 'Elegante', description: 'Se aleja despacio, con viñeta y textos que aparecen suavemente.',
+    moods: ['elegant'],
+    zoomFrom: 1.2, zoomTo: 1.04, panX: -0.04, panY: 0, punchZoom: 0,
+    overlay: 'vignette', headline: 'fade', caption: 'fade', transition: 'fade',
+  },
+  {
+    id: 'serene', name: 'Sereno', description: 'Movimiento mínimo hacia abajo y titular escrito letra por letra.',
+    moods: ['calm', 'emotional'],
+    zoomFrom: 1.04, zoomTo: 1.1, panX: 0, panY: 0.04, punchZoom: 0,
+    overlay: 'gradient', headline: 'typewriter', caption: 'rise', transition: 'fade',
+  },
+];
+
+// Speech cache budget; at 24 kHz mono this is about 35 minutes of voice
+export const SPEECH_CACHE_MAX_BYTES = 100 * 1024 * 1024;
+
+export const VOICE_DEMO_TEXT = "Esta es mi voz para spot publicitario en español.";
+
+export const DEFAULT_AI_SETTINGS: AISettings = {
+  provider: 'gemini',
+  gemini: {
+    apiKey: '',
+    analysisModel: 'gemini-2.5-flash',
+    rewriteModel: 'gemini-2.5-flash',
+    ttsModel: 'gemini-2.5-flash-preview-tts',
+  },
+  openai: {
+    baseUrl: '',
+    apiKey: '',
+    analysisModel: 'gpt-4o-mini',
+    rewriteModel: 'gpt-4o-mini',
+    ttsModel: 'gpt-4o-mini-tts',
+  },
+  retries: 6,
+  retryDelayMs: 5000,
+};
@@ -0,0 +1,20 @@
+import { AIProvider, AISettings } from "../types";
+import { GeminiService, geminiService } from "./geminiService";
+import { OpenAICompatibleService, openAICompatibleService } from "./openAICompatibleService";
+import { mockAIService } from "./mockAIService";
+import { getAISettings } from "./aiSettings";
+
+export const AI_PROVIDERS: AIProvider[] = [geminiService, openAICompatibleService, mockAIService];
+
+// The provider every analysis, rewrite and speech call goes through
+export const getAIProvider = (): AIProvider =>
+  AI_PROVIDERS.find(p => p.id === getAISettings().provider) || geminiService;
+
+// Detached provider bound to unsaved settings, used by the settings panel's "test" button
+export const createAIProvider = (id: string, settings: AISettings): AIProvider => {
+  switch (id) {
+    case geminiService.id: return new GeminiService(() => settings);
+    case openAICompatibleService.id: return new OpenAICompatibleService(() => settings);
+    default: return mockAIService;
+  }
+};
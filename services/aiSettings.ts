@@ -0,0 +1,33 @@
+import { AISettings } from '../types';
+import { DEFAULT_AI_SETTINGS } from '../constants';
+
+const SETTINGS_STORAGE_KEY = 'spotmaker.aiSettings';
+
+// Stored settings merged over the defaults, so fields added later get sane values
+const loadSettings = (): AISettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || 'null');
+    if (!stored) return DEFAULT_AI_SETTINGS;
+    return {
+      ...DEFAULT_AI_SETTINGS,
+      ...stored,
+      gemini: { ...DEFAULT_AI_SETTINGS.gemini, ...stored.gemini },
+      openai: { ...DEFAULT_AI_SETTINGS.openai, ...stored.openai },
+    };
+  } catch (e) {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
+
+let currentSettings = loadSettings();
+
+export const getAISettings = (): AISettings => currentSettings;
+
+export const saveAISettings = (settings: AISettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist AI settings", e);
+  }
+};
@@ -0,0 +1,62 @@
+import { AudioExportOptions, AudioStem, LoudnessReport, LoudnessTarget, MixSettings, MusicBed, PlacedSfx } from '../types';
+import { bufferToMp3, bufferToWav, renderMaster, renderMix } from './audioUtils';
+import { createZip, ZipEntry } from './zipWriter';
+
+export interface AudioExportResult {
+  blob: Blob;
+  fileName: string; // a single audio file, or a zip when stems were requested
+  loudness: LoudnessReport;
+}
+
+const STEM_FILE_NAMES: Record<AudioStem, string> = {
+  mix: 'spot_mezcla',
+  voice: 'spot_voz',
+  music: 'spot_musica',
+  sfx: 'spot_efectos',
+};
+
+// Stems get the same static gain as the normalized mix (but no limiter), so they line up with it in a DAW
+const applyGain = (buffer: AudioBuffer, gainDb: number): AudioBuffer => {
+  if (gainDb === 0) return buffer;
+  const gain = Math.pow(10, gainDb / 20);
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < data.length; i++) data[i] *= gain;
+  }
+  return buffer;
+};
+
+// Renders and encodes the spot audio with the chosen format, rate, depth and channel layout
+export const exportAudio = async (
+  voiceBuffer: AudioBuffer,
+  music: MusicBed | null,
+  sfx: PlacedSfx[],
+  endCard: number,
+  volume: number,
+  mix: MixSettings,
+  loudnessTarget: LoudnessTarget,
+  options: AudioExportOptions
+): Promise<AudioExportResult> => {
+  const render = { sampleRate: options.sampleRate, channels: options.channels };
+  const extension = options.format;
+  const encode = (buffer: AudioBuffer) => (
+    options.format === 'mp3' ? bufferToMp3(buffer, options.mp3Bitrate) : Promise.resolve(bufferToWav(buffer, options.bitDepth))
+  );
+
+  const { buffer, loudness } = await renderMaster(voiceBuffer, music, sfx, endCard, volume, mix, loudnessTarget, render);
+  const mixBlob = await encode(buffer);
+  const stamp = Date.now();
+
+  // Without music or effects there is nothing to split: the voice stem would be the mix itself
+  const stems: AudioStem[] = ['voice', ...(music ? ['music' as const] : []), ...(sfx.length > 0 ? ['sfx' as const] : [])];
+  if (!options.stems || stems.length === 1) {
+    return { blob: mixBlob, fileName: `spot_audio_${stamp}.${extension}`, loudness };
+  }
+
+  const entries: ZipEntry[] = [{ path: `${STEM_FILE_NAMES.mix}.${extension}`, data: mixBlob }];
+  for (const stem of stems) {
+    const stemBuffer = await renderMix(voiceBuffer, music, sfx, endCard, volume, mix, { ...render, stem });
+    entries.push({ path: `${STEM_FILE_NAMES[stem]}.${extension}`, data: await encode(applyGain(stemBuffer, loudness.gainDb)) });
+  }
+  return { blob: await createZip(entries), fileName: `spot_audio_${stamp}.zip`, loudness };
+};
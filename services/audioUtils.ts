@@ -1,3 +1,9 @@
+import { AudioStem, LoudnessMeasurement, LoudnessReport, LoudnessTarget, MixSettings, MusicBed, PlacedSfx } from '../types';
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { getMixTimeline, scheduleMix } from './mixer';
+import { getSfxEnd } from './sfxTimeline';
+import { measureLoudness, normalizeLoudness } from './loudness';
+
 let sharedAudioContext: AudioContext | null = null;
 
 const getSharedAudioContext = () => {
@@ -27,6 +33,32 @@ export const pcmToAudioBuffer = (buffer: ArrayBuffer, sampleRate: number = 24000
   return audioBuffer;
 };
 
+// Inverse of pcmToAudioBuffer: first channel back to raw PCM (Int16), e.g. for storing a generated voice
+export const audioBufferToPcm = (audioBuffer: AudioBuffer): ArrayBuffer => {
+  const data = audioBuffer.getChannelData(0);
+  const int16Array = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16Array[i] = sample < 0 ? sample * 32768 : sample * 32767;
+  }
+  return int16Array.buffer;
+};
+
+// Joins raw PCM (Int16) chunks into one, with the given number of silent samples between them
+export const concatPcm = (chunks: ArrayBuffer[], gapSamples: number = 0): ArrayBuffer => {
+  const lengths = chunks.map(chunk => Math.floor(chunk.byteLength / 2));
+  const gap = Math.max(0, Math.round(gapSamples));
+  const total = lengths.reduce((sum, length) => sum + length, 0) + gap * Math.max(0, chunks.length - 1);
+  const output = new Int16Array(total);
+
+  let offset = 0;
+  chunks.forEach((chunk, i) => {
+    output.set(new Int16Array(chunk, 0, lengths[i]), offset);
+    offset += lengths[i] + gap;
+  });
+  return output.buffer;
+};
+
 // Decodes an ArrayBuffer (mp3/wav) into an AudioBuffer
 export const decodeAudioFile = async (fileBuffer: ArrayBuffer): Promise<AudioBuffer> => {
     const ctx = getSharedAudioContext();
@@ -54,48 +86,80 @@ export const playPreview = (buffer: AudioBuffer, onEnded?: () => void): () => vo
   };
 };
 
-// Mixes Voice and Music using OfflineAudioContext and returns a WAV Blob
-export const mixAudioAndExport = async (
+export interface RenderOptions {
+    sampleRate?: number;
+    channels?: number; // 1 folds the mix down to mono
+    stem?: AudioStem; // render only the voice, the music or the effects, on the same timeline as the mix
+}
+
+// Mixes voice, music and effects using OfflineAudioContext and returns the rendered AudioBuffer.
+// Shared by the audio exports and the video export so all carry the exact same mix.
+export const renderMix = async (
     voiceBuffer: AudioBuffer, 
-    musicBuffer: AudioBuffer | null, 
-    volume: number
-): Promise<Blob> => {
-    // 1. Setup Offline Context
-    const duration = voiceBuffer.duration; // The mix usually matches voice length
-    const sampleRate = 44100;
-    const offlineCtx = new OfflineAudioContext(2, sampleRate * duration, sampleRate);
-
-    // 2. Setup Voice Source
-    const voiceSource = offlineCtx.createBufferSource();
-    voiceSource.buffer = voiceBuffer;
-    voiceSource.connect(offlineCtx.destination);
-    voiceSource.start(0);
-
-    // 3. Setup Music Source (if exists)
-    if (musicBuffer) {
-        const musicSource = offlineCtx.createBufferSource();
-        musicSource.buffer = musicBuffer;
-        musicSource.loop = true;
-        
-        const gainNode = offlineCtx.createGain();
-        gainNode.gain.value = volume;
-
-        musicSource.connect(gainNode);
-        gainNode.connect(offlineCtx.destination);
-        musicSource.start(0);
-    }
+    music: MusicBed | null, 
+    sfx: PlacedSfx[],
+    endCard: number,
+    volume: number,
+    mix: MixSettings,
+    { sampleRate = 44100, channels = 2, stem = 'mix' }: RenderOptions = {}
+): Promise<AudioBuffer> => {
+    // 1. Setup Offline Context, long enough for the music intro and outro
+    const { duration } = getMixTimeline(voiceBuffer.duration, !!music, mix, getSfxEnd(sfx), endCard);
+    const offlineCtx = new OfflineAudioContext(channels, Math.ceil(sampleRate * duration), sampleRate);
+
+    // 2. Same graph as the live preview
+    scheduleMix(offlineCtx, voiceBuffer, music, sfx, endCard, volume, mix, 0, stem);
+
+    // 3. Render
+    return await offlineCtx.startRendering();
+};
 
-    // 4. Render
-    const renderedBuffer = await offlineCtx.startRendering();
+// The mix as it gets delivered: normalized to the loudness target, with the report of what was done
+export const renderMaster = async (
+    voiceBuffer: AudioBuffer, 
+    music: MusicBed | null, 
+    sfx: PlacedSfx[],
+    endCard: number,
+    volume: number,
+    mix: MixSettings,
+    loudnessTarget: LoudnessTarget,
+    options: Omit<RenderOptions, 'stem'> = {}
+): Promise<{ buffer: AudioBuffer; loudness: LoudnessReport }> => {
+    const renderedBuffer = await renderMix(voiceBuffer, music, sfx, endCard, volume, mix, options);
+    const { buffer, report } = normalizeLoudness(renderedBuffer, loudnessTarget);
+    return { buffer, loudness: report };
+};
 
-    // 5. Convert to WAV
-    return bufferToWav(renderedBuffer);
+// Loudness of the mix as rendered, before normalization: one measurement pass, cheap enough for a live readout
+export const measureMix = async (
+    voiceBuffer: AudioBuffer, 
+    music: MusicBed | null, 
+    sfx: PlacedSfx[],
+    endCard: number,
+    volume: number,
+    mix: MixSettings
+): Promise<LoudnessMeasurement> => measureLoudness(await renderMix(voiceBuffer, music, sfx, endCard, volume, mix));
+
+// Mixes voice, music and effects and returns a WAV Blob
+export const mixAudioAndExport = async (
+    voiceBuffer: AudioBuffer, 
+    music: MusicBed | null, 
+    sfx: PlacedSfx[],
+    endCard: number,
+    volume: number,
+    mix: MixSettings,
+    loudnessTarget: LoudnessTarget
+): Promise<Blob> => {
+    const { buffer } = await renderMaster(voiceBuffer, music, sfx, endCard, volume, mix, loudnessTarget);
+    return bufferToWav(buffer);
 };
 
-// Encodes AudioBuffer to WAV format
-function bufferToWav(abuffer: AudioBuffer) {
+// Encodes AudioBuffer to WAV format (16 or 24-bit PCM)
+export function bufferToWav(abuffer: AudioBuffer, bitDepth: number = 16) {
     const numOfChan = abuffer.numberOfChannels;
-    const length = abuffer.length * numOfChan * 2 + 44;
+    const bytesPerSample = bitDepth / 8;
+    const dataLength = abuffer.length * numOfChan * bytesPerSample;
+    const length = dataLength + 44;
     const buffer = new ArrayBuffer(length);
     const view = new DataView(buffer);
     const channels = [];
@@ -114,12 +178,12 @@ function bufferToWav(abuffer: AudioBuffer) {
     setUint16(1); // PCM (uncompressed)
     setUint16(numOfChan);
     setUint32(abuffer.sampleRate);
-    setUint32(abuffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-    setUint16(numOfChan * 2); // block-align
-    setUint16(16); // 16-bit (hardcoded in this simple encoder)
+    setUint32(abuffer.sampleRate * bytesPerSample * numOfChan); // avg. bytes/sec
+    setUint16(numOfChan * bytesPerSample); // block-align
+    setUint16(bitDepth);
   
     setUint32(0x61746164); // "data" - chunk
-    setUint32(length - pos - 4); // chunk length
+    setUint32(dataLength); // chunk length
   
     // write interleaved data
     for(i = 0; i < abuffer.numberOfChannels; i++)
@@ -128,9 +192,16 @@ function bufferToWav(abuffer: AudioBuffer) {
     while(pos < abuffer.length) {
       for(i = 0; i < numOfChan; i++) {             // interleave channels
         sample = Math.max(-1, Math.min(1, channels[i][pos])); // clamp
-        sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; // scale to 16-bit signed int
-        view.setInt16(offset, sample, true);          // write 16-bit sample
-        offset += 2;
+        if (bitDepth === 24) {
+          sample = Math.round(sample < 0 ? sample * 8388608 : sample * 8388607); // scale to 24-bit signed int
+          view.setUint8(offset, sample & 0xff);
+          view.setInt16(offset + 1, sample >> 8, true);
+          offset += 3;
+        } else {
+          sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0; // scale to 16-bit signed int
+          view.setInt16(offset, sample, true);          // write 16-bit sample
+          offset += 2;
+        }
       }
       pos++;
     }
@@ -146,4 +217,34 @@ function bufferToWav(abuffer: AudioBuffer) {
       view.setUint32(offset, data, true);
       offset += 4;
     }
-}
\ No newline at end of file
+}
+// Encodes AudioBuffer to constant-bitrate MP3 (mono or stereo). Encoding runs in chunks and yields
+// between them so the page stays responsive on long spots.
+export const bufferToMp3 = async (abuffer: AudioBuffer, kbps: number): Promise<Blob> => {
+    const toInt16 = (data: Float32Array) => {
+        const out = new Int16Array(data.length);
+        for (let i = 0; i < data.length; i++) {
+            const sample = Math.max(-1, Math.min(1, data[i]));
+            out[i] = sample < 0 ? sample * 32768 : sample * 32767;
+        }
+        return out;
+    };
+
+    const stereo = abuffer.numberOfChannels > 1;
+    const left = toInt16(abuffer.getChannelData(0));
+    const right = stereo ? toInt16(abuffer.getChannelData(1)) : undefined;
+    const encoder = new Mp3Encoder(stereo ? 2 : 1, abuffer.sampleRate, kbps);
+    const chunks: BlobPart[] = [];
+    const chunkSize = 1152 * 64;
+
+    for (let start = 0; start < left.length; start += chunkSize) {
+        const end = start + chunkSize;
+        const frame = encoder.encodeBuffer(left.subarray(start, end), right?.subarray(start, end));
+        if (frame.length > 0) chunks.push(frame.slice());
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    const tail = encoder.flush();
+    if (tail.length > 0) chunks.push(tail.slice());
+
+    return new Blob(chunks, { type: 'audio/mpeg' });
+};
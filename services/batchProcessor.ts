@@ -0,0 +1,119 @@
+import { BatchItem, BatchItemStatus, BatchSettings, MusicBed } from '../types';
+import { VOICES, VOICE_STYLES, LOUDNESS_TARGETS } from '../constants';
+import { getAIProvider } from './aiProvider';
+import { mixAudioAndExport } from './audioUtils';
+import { fitVoiceToDuration } from './durationFit';
+import { DEFAULT_DIALOGUE_GAP } from './speechSynthesis';
+import { alignCaptionWords, offsetCues } from './captions';
+import { getMixTimeline, getVoiceSlot } from './mixer';
+import { buildSubtitleCues, formatSrt } from './subtitles';
+import { createZip, ZipEntry } from './zipWriter';
+
+// Parallel items per batch. Rate limits are handled by the provider's withRetry, which pauses
+// every in-flight request together, so this only needs to keep the API reasonably busy.
+export const BATCH_CONCURRENCY = 2;
+
+export const createBatchItem = (file: File): BatchItem => ({
+  id: crypto.randomUUID(),
+  file,
+  status: 'pending',
+  error: null,
+  analysis: null,
+  script: '',
+  voiceDuration: null,
+  duration: null,
+  mix: null,
+  subtitles: null,
+});
+
+// Runs one flyer through the same pipeline as the single-spot editor: analyze, voice, mix
+export const processBatchItem = async (
+  file: File,
+  settings: BatchSettings,
+  music: MusicBed | null,
+  onStatus: (status: BatchItemStatus) => void
+): Promise<Partial<BatchItem>> => {
+  // 1. Analysis + script
+  onStatus('analyzing');
+  const { analysis, script: draft } = await getAIProvider().analyzeImages([file], settings.duration);
+
+  // 2. Voice, fitted to what the music leaves of the slot like in the editor
+  onStatus('voicing');
+  const voiceSlot = getVoiceSlot(settings.duration, !!music, settings.mixSettings);
+  const { script, audioBuffer: voiceBuffer } = await fitVoiceToDuration(draft, voiceSlot, {
+    voiceProfile: settings.voiceProfile,
+    voiceStyle: settings.voiceStyle,
+    speakerVoices: {},
+    dialogueGap: DEFAULT_DIALOGUE_GAP,
+    jointDialogue: false,
+  }, { analysis, format: 'monologue', allowRewrite: true });
+
+  // 3. Mix + subtitles
+  onStatus('mixing');
+  const loudnessTarget = LOUDNESS_TARGETS.find(t => t.id === settings.loudnessTarget) || LOUDNESS_TARGETS[0];
+  const mix = await mixAudioAndExport(voiceBuffer, music, [], 0, settings.musicVolume, settings.mixSettings, loudnessTarget);
+  const { voiceStart, duration } = getMixTimeline(voiceBuffer.duration, !!music, settings.mixSettings);
+  const subtitles = formatSrt(offsetCues(buildSubtitleCues(alignCaptionWords(script, voiceBuffer)), voiceStart));
+
+  return { analysis, script, voiceDuration: voiceBuffer.duration, duration, mix, subtitles };
+};
+
+const baseName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[^\w\-áéíóúñÁÉÍÓÚÑ]+/g, '_').replace(/^_+|_+$/g, '') || 'spot';
+
+// Zip with one folder per flyer (audio, script, subtitles) and a manifest describing the run
+export const buildBatchZip = async (
+  items: BatchItem[],
+  settings: BatchSettings,
+  musicFileName: string | null
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+
+  const manifestItems = items.map((item, i) => {
+    const folder = `${String(i + 1).padStart(2, '0')}_${baseName(item.file.name)}`;
+    const files: string[] = [];
+
+    if (item.status === 'done' && item.mix) {
+      entries.push({ path: `${folder}/spot.wav`, data: item.mix });
+      entries.push({ path: `${folder}/guion.txt`, data: item.script });
+      files.push(`${folder}/spot.wav`, `${folder}/guion.txt`);
+      if (item.subtitles) {
+        entries.push({ path: `${folder}/subtitulos.srt`, data: item.subtitles });
+        files.push(`${folder}/subtitulos.srt`);
+      }
+    }
+
+    return {
+      source: item.file.name,
+      status: item.status,
+      error: item.error,
+      headline: item.analysis?.headline || null,
+      mood: item.analysis?.mood || null,
+      brandColors: item.analysis?.brandColors || [],
+      detectedProducts: item.analysis?.detectedProducts || [],
+      script: item.script || null,
+      voiceDurationSeconds: item.voiceDuration !== null ? Math.round(item.voiceDuration * 100) / 100 : null,
+      durationSeconds: item.duration !== null ? Math.round(item.duration * 100) / 100 : null,
+      files,
+    };
+  });
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    settings: {
+      voice: VOICES.find(v => v.id === settings.voiceProfile)?.name || settings.voiceProfile,
+      style: VOICE_STYLES.find(s => s.id === settings.voiceStyle)?.name || settings.voiceStyle,
+      targetDurationSeconds: settings.duration,
+      music: musicFileName,
+      musicVolume: settings.musicVolume,
+      mix: settings.mixSettings,
+      loudness: LOUDNESS_TARGETS.find(t => t.id === settings.loudnessTarget)?.name || settings.loudnessTarget,
+    },
+    total: items.length,
+    completed: items.filter(item => item.status === 'done').length,
+    items: manifestItems,
+  };
+
+  entries.unshift({ path: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+  return createZip(entries);
+};
@@ -0,0 +1,42 @@
+import { BrandBrief, BrandKit } from '../types';
+import { BRAND_STORE, withStore } from './db';
+
+export const createBrandKit = (name: string): BrandKit => ({
+  id: crypto.randomUUID(),
+  name,
+  logo: null,
+  colors: ['#facc15', '#1e3a8a'],
+  headlineFont: 'Inter',
+  bodyFont: 'Inter',
+  tagline: '',
+  voiceProfile: null,
+  voiceStyle: null,
+  disclaimers: [],
+  createdAt: Date.now(),
+});
+
+// Alphabetical, as clients are looked up by name
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await withStore<BrandKit[]>(BRAND_STORE, 'readonly', store => store.getAll());
+  return kits.sort((a, b) => a.name.localeCompare(b.name, 'es'));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<void> => {
+  await withStore(BRAND_STORE, 'readwrite', store => store.put(kit));
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await withStore(BRAND_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const toBrandBrief = (kit: BrandKit | null): BrandBrief | null =>
+  kit ? { name: kit.name, tagline: kit.tagline, disclaimers: kit.disclaimers } : null;
+
+// Web fonts download on first use; the canvas would silently fall back without this
+export const loadBrandFonts = async (kit: BrandKit): Promise<void> => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await Promise.all([
+    document.fonts.load(`bold 32px "${kit.headlineFont}"`),
+    document.fonts.load(`500 24px "${kit.bodyFont}"`),
+  ]).catch(e => console.warn("Could not load brand fonts", e));
+};
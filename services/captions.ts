@@ -0,0 +1,229 @@
+import { CaptionCue, CaptionWord } from '../types';
+
+// Envelope resolution and thresholds for speech detection
+const FRAME_SECONDS = 0.01;
+const MIN_PAUSE_SECONDS = 0.12; // shorter gaps are treated as part of the same phrase
+const MIN_VOICED_SECONDS = 0.04; // clicks and breaths shorter than this are ignored
+
+// Brisk promo delivery, used to estimate read time before any voice exists
+const SECONDS_PER_SYLLABLE = 0.17;
+const PHRASE_PAUSE_SECONDS = 0.3;
+
+export interface CueLimits {
+  maxWords: number;
+  maxChars: number;
+}
+
+// On-screen caption limits: one short line at a time
+export const SCREEN_CUE_LIMITS: CueLimits = { maxWords: 8, maxChars: 42 };
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+export const splitWords = (script: string): string[] => script.split(/\s+/).filter(Boolean);
+
+// Spanish is read at a fairly steady syllable rate, so vowel groups are a good proxy for spoken length.
+// Digits are read out as whole words ("99" -> "noventa y nueve").
+const wordWeight = (word: string): number => {
+  const digits = (word.match(/\d/g) || []).length;
+  const vowelGroups = (word.toLowerCase().match(/[aeiouáéíóúü]+/g) || []).length;
+  return Math.max(1, vowelGroups + digits * 2);
+};
+
+const endsPhrase = (word: string): boolean => /[.,;:!?…]["'»”)]*$/.test(word);
+
+// Voiced regions of the buffer, found from a short-term RMS envelope
+export const detectSpeechSegments = (buffer: AudioBuffer): Segment[] => {
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.floor(data.length / frameSize);
+  const energy = new Float32Array(frameCount);
+  let peak = 0;
+
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += data[i] * data[i];
+    energy[f] = Math.sqrt(sum / frameSize);
+    if (energy[f] > peak) peak = energy[f];
+  }
+  if (peak === 0) return [];
+
+  const threshold = Math.max(peak * 0.08, 0.005);
+  const frameDuration = frameSize / buffer.sampleRate;
+  const raw: Segment[] = [];
+  let openAt = -1;
+
+  for (let f = 0; f <= frameCount; f++) {
+    const voiced = f < frameCount && energy[f] >= threshold;
+    if (voiced && openAt < 0) openAt = f;
+    if (!voiced && openAt >= 0) {
+      raw.push({ start: openAt * frameDuration, end: f * frameDuration });
+      openAt = -1;
+    }
+  }
+
+  // Merge gaps that are too short to be a pause, then drop blips
+  const merged: Segment[] = [];
+  raw.forEach(seg => {
+    const last = merged[merged.length - 1];
+    if (last && seg.start - last.end < MIN_PAUSE_SECONDS) {
+      last.end = seg.end;
+    } else {
+      merged.push({ ...seg });
+    }
+  });
+  return merged.filter(seg => seg.end - seg.start >= MIN_VOICED_SECONDS);
+};
+
+const voicedLength = (segments: Segment[]) => segments.reduce((sum, seg) => sum + seg.end - seg.start, 0);
+
+// Spreads words over the voiced time of the given segments in proportion to their weight
+const distributeWords = (words: string[], segments: Segment[]): CaptionWord[] => {
+  const total = voicedLength(segments);
+  const weights = words.map(wordWeight);
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+  // Maps an offset in voiced time back onto the real timeline, skipping the silences
+  const toTimeline = (offset: number) => {
+    let remaining = offset;
+    for (const seg of segments) {
+      const length = seg.end - seg.start;
+      if (remaining <= length) return seg.start + remaining;
+      remaining -= length;
+    }
+    return segments[segments.length - 1].end;
+  };
+
+  let cumulative = 0;
+  return words.map((text, i) => {
+    const start = toTimeline((cumulative / totalWeight) * total);
+    cumulative += weights[i];
+    const end = toTimeline((cumulative / totalWeight) * total);
+    return { text, start, end };
+  });
+};
+
+// Approximate spoken length of a script, in seconds
+export const estimateReadSeconds = (script: string): number =>
+  splitWords(script).reduce(
+    (sum, word) => sum + wordWeight(word) * SECONDS_PER_SYLLABLE + (endsPhrase(word) ? PHRASE_PAUSE_SECONDS : 0),
+    0
+  );
+
+// Moves cues along the timeline, e.g. from voice time to spot time when music plays before the voice
+export const offsetCues = (cues: CaptionCue[], offset: number): CaptionCue[] => (
+  offset === 0 ? cues : cues.map(cue => ({
+    start: cue.start + offset,
+    end: cue.end + offset,
+    words: cue.words.map(word => ({ ...word, start: word.start + offset, end: word.end + offset })),
+  }))
+);
+
+// Evenly timed words for when there is no voice to analyze yet
+export const estimateCaptionWords = (script: string, duration: number, offset: number = 0): CaptionWord[] => {
+  const words = splitWords(script);
+  if (words.length === 0 || duration <= 0) return [];
+  return distributeWords(words, [{ start: offset, end: offset + duration }]);
+};
+
+// Works out when each word of the script is spoken in the generated voice.
+// Gemini TTS returns no word timings, so this aligns punctuation in the script with the
+// longest pauses in the audio, then spreads each phrase over the speech between them.
+export const alignCaptionWords = (script: string, buffer: AudioBuffer): CaptionWord[] => {
+  const words = splitWords(script);
+  if (words.length === 0) return [];
+
+  const segments = detectSpeechSegments(buffer);
+  if (segments.length === 0) return estimateCaptionWords(script, buffer.duration);
+
+  // 1. Phrases of the script, split at punctuation
+  const phrases: string[][] = [[]];
+  words.forEach((word, i) => {
+    phrases[phrases.length - 1].push(word);
+    if (endsPhrase(word) && i < words.length - 1) phrases.push([]);
+  });
+
+  // 2. Keep as many of the longest pauses as there are phrase breaks
+  const pauses = segments.slice(1).map((seg, i) => ({ after: i, length: seg.start - segments[i].end }));
+  const breakCount = Math.min(phrases.length - 1, pauses.length);
+  const chosen = pauses
+    .sort((a, b) => b.length - a.length)
+    .slice(0, breakCount)
+    .map(p => p.after)
+    .sort((a, b) => a - b);
+
+  const spans: Segment[][] = [];
+  let from = 0;
+  chosen.forEach(after => {
+    spans.push(segments.slice(from, after + 1));
+    from = after + 1;
+  });
+  spans.push(segments.slice(from));
+
+  // 3. Assign phrases to spans so that each span boundary falls on the phrase break whose
+  // position in the script best matches the pause's position in the audio
+  const phraseWeights = phrases.map(p => p.reduce((sum, w) => sum + wordWeight(w), 0));
+  const totalWeight = phraseWeights.reduce((a, b) => a + b, 0);
+  const totalVoiced = voicedLength(segments);
+  const boundaries: number[] = [];
+  let voicedSoFar = 0;
+  let previous = 0;
+
+  for (let s = 0; s < spans.length - 1; s++) {
+    voicedSoFar += voicedLength(spans[s]);
+    const target = voicedSoFar / totalVoiced;
+    const maxBoundary = phrases.length - (spans.length - 1 - s);
+    let best = previous + 1;
+    let bestDistance = Infinity;
+    let weightSoFar = phraseWeights.slice(0, previous + 1).reduce((a, b) => a + b, 0);
+
+    for (let b = previous + 1; b <= maxBoundary; b++) {
+      const distance = Math.abs(weightSoFar / totalWeight - target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = b;
+      }
+      weightSoFar += phraseWeights[b] || 0;
+    }
+    boundaries.push(best);
+    previous = best;
+  }
+  boundaries.push(phrases.length);
+
+  // 4. Spread each span's words over its voiced time
+  const aligned: CaptionWord[] = [];
+  let phraseStart = 0;
+  boundaries.forEach((boundary, s) => {
+    const spanWords = phrases.slice(phraseStart, boundary).flat();
+    aligned.push(...distributeWords(spanWords, spans[s]));
+    phraseStart = boundary;
+  });
+  return aligned;
+};
+
+// Groups timed words into caption screens, preferring to break at the end of a phrase
+export const buildCaptionCues = (words: CaptionWord[], limits: CueLimits = SCREEN_CUE_LIMITS): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  let current: CaptionWord[] = [];
+  let chars = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({ start: current[0].start, end: current[current.length - 1].end, words: current });
+    current = [];
+    chars = 0;
+  };
+
+  words.forEach(word => {
+    if (current.length >= limits.maxWords || (chars + word.text.length > limits.maxChars && current.length > 0)) {
+      flush();
+    }
+    current.push(word);
+    chars += word.text.length + 1;
+    if (endsPhrase(word.text) && current.length >= 3) flush();
+  });
+  flush();
+  return cues;
+};
@@ -0,0 +1,67 @@
+// Shared IndexedDB connection for everything the app keeps in the browser
+const DB_NAME = 'spotmaker-ai';
+const DB_VERSION = 4;
+
+export const PROJECT_STORE = 'projects';
+export const MUSIC_STORE = 'music';
+export const SPEECH_STORE = 'speech';
+export const BRAND_STORE = 'brandKits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MUSIC_STORE)) {
+          db.createObjectStore(MUSIC_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SPEECH_STORE)) {
+          db.createObjectStore(SPEECH_STORE, { keyPath: 'key' }).createIndex('lastUsed', 'lastUsed');
+        }
+        if (!db.objectStoreNames.contains(BRAND_STORE)) {
+          db.createObjectStore(BRAND_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Wraps an IDBRequest in a Promise
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Settles once the transaction has committed; a write is only durable then (a quota error can still abort it)
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+// Runs a single request against one object store, resolving with its result once the transaction commits
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  const [result] = await Promise.all([promisifyRequest(run(tx.objectStore(storeName))), done]);
+  return result;
+};
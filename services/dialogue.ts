@@ -0,0 +1,43 @@
+import { DialogueLine } from '../types';
+
+// "CARLOS: texto", tolerating markdown bold around the tag (**CARLOS:**). Names must be in
+// capitals, so ordinary sentences such as "Recuerda: ..." are not taken for speakers.
+const SPEAKER_TAG = /^\s*\**\s*([A-ZÁÉÍÓÚÑÜ][A-ZÁÉÍÓÚÑÜ0-9 ]{0,23}?)\s*\**\s*:\s*\**\s*(.*)$/;
+
+// Splits a tagged script into turns. Untagged lines continue the previous speaker's turn.
+// Returns null for a plain script: a single tag ("OFERTA: 2x1") is not a dialogue.
+export const parseDialogue = (script: string): DialogueLine[] | null => {
+  const lines: DialogueLine[] = [];
+
+  script.split('\n').forEach(raw => {
+    const text = raw.trim();
+    if (!text) return;
+    const match = text.match(SPEAKER_TAG);
+    if (match) {
+      lines.push({ speaker: match[1], text: match[2].trim() });
+    } else if (lines.length > 0) {
+      const last = lines[lines.length - 1];
+      last.text = `${last.text} ${text}`.trim();
+    } else {
+      lines.push({ speaker: '', text }); // intro before the first tag
+    }
+  });
+
+  const speakers = getSpeakers(lines);
+  if (speakers.length < 2) return null;
+
+  // An untagged intro goes to whoever speaks first
+  return lines
+    .map(line => (line.speaker ? line : { ...line, speaker: speakers[0] }))
+    .filter(line => line.text);
+};
+
+// Speakers in order of first appearance
+export const getSpeakers = (lines: DialogueLine[]): string[] =>
+  Array.from(new Set(lines.map(line => line.speaker).filter(Boolean)));
+
+// The words that are actually spoken, without speaker tags (for captions and read-time estimates)
+export const getSpokenText = (script: string): string => {
+  const lines = parseDialogue(script);
+  return lines ? lines.map(line => line.text).join(' ') : script;
+};
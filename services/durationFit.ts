@@ -0,0 +1,71 @@
+import { AnalysisResult, BrandBrief, ScriptFormat } from '../types';
+import { getAIProvider } from './aiProvider';
+import { synthesizeScript, VoiceSettings } from './speechSynthesis';
+import { stretchAudioBuffer } from './timeStretch';
+
+// Beyond ±10% a time stretch starts to sound rushed or dragged, so the copy is rewritten instead
+export const STRETCH_TOLERANCE = 0.1;
+const MAX_REWRITES = 2;
+
+export interface DurationFitResult {
+  script: string; // may differ from the input when the copy had to be rewritten
+  audioBuffer: AudioBuffer;
+  spokenDuration: number; // length of the synthesized voice before stretching
+  duration: number; // final length
+  target: number;
+  rewrites: number;
+}
+
+export interface DurationFitOptions {
+  // Needed to rewrite; without it (or with allowRewrite off) the voice is only stretched
+  analysis: AnalysisResult | null;
+  format: ScriptFormat;
+  angleInstruction?: string;
+  brand?: BrandBrief | null;
+  allowRewrite: boolean;
+  onProgress?: (message: string) => void;
+}
+
+const mismatch = (duration: number, target: number) => Math.abs(target / duration - 1);
+
+// Synthesizes the script and brings the voice to the target length: rewrites the copy while it is
+// too far off, then time-stretches the closest take into place without changing its pitch.
+export const fitVoiceToDuration = async (
+  script: string,
+  target: number,
+  voice: VoiceSettings,
+  { analysis, format, angleInstruction, brand, allowRewrite, onProgress }: DurationFitOptions
+): Promise<DurationFitResult> => {
+  onProgress?.('Generando voz...');
+  let best = { script, buffer: await synthesizeScript(script, voice) };
+  let current = best;
+  let rewrites = 0;
+
+  while (
+    allowRewrite && analysis && rewrites < MAX_REWRITES &&
+    mismatch(best.buffer.duration, target) > STRETCH_TOLERANCE
+  ) {
+    rewrites++;
+    onProgress?.(`Ajustando guion (${current.buffer.duration.toFixed(1)}s → ${target}s)...`);
+    const rewritten = await getAIProvider().rewriteScript(analysis, target, {
+      angleInstruction,
+      format,
+      brand,
+      fitFrom: { script: current.script, spokenSeconds: current.buffer.duration },
+    });
+
+    onProgress?.('Generando voz...');
+    current = { script: rewritten, buffer: await synthesizeScript(rewritten, voice) };
+    // A rewrite can overshoot; keep whichever take is closest
+    if (mismatch(current.buffer.duration, target) < mismatch(best.buffer.duration, target)) best = current;
+  }
+
+  // Stretch only as far as the tolerance allows; whatever is left is reported as the deviation
+  const spokenDuration = best.buffer.duration;
+  const ratio = Math.min(1 + STRETCH_TOLERANCE, Math.max(1 - STRETCH_TOLERANCE, target / spokenDuration));
+  const audioBuffer = Math.abs(ratio - 1) > 0.001
+    ? stretchAudioBuffer(best.buffer, spokenDuration * ratio)
+    : best.buffer;
+
+  return { script: best.script, audioBuffer, spokenDuration, duration: audioBuffer.duration, target, rewrites };
+};
@@ -0,0 +1,45 @@
+// Helper to determine friendly error messages
+export const getErrorMessage = (error: any) => {
+    // Extract status code if available in nested objects
+    const status = error?.status || error?.code || error?.error?.code || error?.error?.status;
+    
+    // Safely extract message from various JSON structures
+    let message = "Unknown Error";
+    try {
+        if (typeof error?.message === 'string') {
+            message = error.message;
+        } else if (error?.error?.message) {
+            message = error.error.message;
+        } else if (typeof error === 'object') {
+            message = JSON.stringify(error);
+        } else {
+            message = String(error);
+        }
+    } catch(e) {
+        message = "Could not parse error details";
+    }
+
+    const isQuota = status === 429 || message.includes('429') || message.includes('quota') || message.includes('RESOURCE_EXHAUSTED');
+    if (isQuota) {
+        return "⚠️ Has excedido tu cuota de uso de la API (Error 429). El sistema intentó reintentar varias veces pero los servidores siguen ocupados. Por favor espera 1 minuto e intenta de nuevo.";
+    }
+    
+    const isServer = (status >= 500 && status < 600) || message.includes('Internal') || message.includes('INTERNAL') || message.includes('500');
+    if (isServer) {
+        return "⚠️ Error interno temporal en Google Gemini (Error 500). El sistema reintentó pero el servicio está inestable. Por favor intenta cambiar el 'Estilo' a 'Natural' o espera unos segundos.";
+    }
+
+    // Return specific error message if available and safe, otherwise generic
+    if (message && !message.includes('fetch') && message.length < 500) {
+        // Clean up message if it is stringified JSON
+        if (message.startsWith('{')) {
+            try {
+                const parsed = JSON.parse(message);
+                if (parsed.error && parsed.error.message) return `Error: ${parsed.error.message}`;
+            } catch(e) {}
+        }
+        return `Error: ${message}`;
+    }
+    
+    return "Ocurrió un error inesperado al conectar con Gemini. Verifica tu conexión a internet o tu API Key.";
+};
@@ -0,0 +1,185 @@
+import { CaptionCue, CaptionWord, FocusBox, FocusKind, FocusRegion, MotionTemplate } from '../types';
+
+// Part of the image the camera shows, in image pixels; always the shape of the frame
+export interface CameraRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Spotlight {
+  region: FocusRegion;
+  start: number; // voice time at which the camera starts moving in
+}
+
+const FOCUS_KINDS: FocusKind[] = ['headline', 'price', 'product'];
+
+// A spotlight eases in just before the word, holds on the region, then eases back to the spot's own move
+const SPOTLIGHT_LEAD = 0.2;
+const SPOTLIGHT_IN = 0.5;
+const SPOTLIGHT_HOLD = 1.2;
+const SPOTLIGHT_OUT = 0.5;
+const SPOTLIGHT_SECONDS = SPOTLIGHT_IN + SPOTLIGHT_HOLD + SPOTLIGHT_OUT;
+
+// Room left around a spotlighted region, and how far in a spotlight may go past the cover crop
+const SPOTLIGHT_PADDING = 1.4;
+const MAX_SPOTLIGHT_ZOOM = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const easeInOut = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2);
+
+// Boxes come from the model as [ymin, xmin, ymax, xmax] on a 0-1000 grid, Gemini's native format,
+// which the prompt asks of every provider, with the 1-based number of the image they are on.
+// Returns one list per image; anything malformed, degenerate or on an unknown image is dropped.
+export const parseFocusRegions = (raw: unknown, imageCount: number): FocusRegion[][] => {
+  const regions: FocusRegion[][] = Array.from({ length: imageCount }, () => []);
+  if (!Array.isArray(raw)) return regions;
+  raw.forEach((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return;
+    const { box, image: imageNumber, kind, label } = item as Record<string, unknown>;
+    const image = typeof imageNumber === 'number' ? imageNumber - 1 : 0;
+    if (!FOCUS_KINDS.includes(kind as FocusKind) || !regions[image]) return;
+    if (!Array.isArray(box) || box.length !== 4 || !box.every((n): n is number => typeof n === 'number')) return;
+    const [ymin, xmin, ymax, xmax] = box.map(n => clamp(n / 1000, 0, 1));
+    if (xmax - xmin < 0.01 || ymax - ymin < 0.01) return;
+    regions[image].push({
+      id: crypto.randomUUID(),
+      kind: kind as FocusKind,
+      label: typeof label === 'string' || typeof label === 'number' ? String(label) : '',
+      box: { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin },
+      spotlight: kind !== 'headline',
+    });
+  });
+  return regions;
+};
+
+// Words worth matching between a label and the voice: long words and numbers, accent-free.
+// "$1,299" and "1299." both become "1299".
+const matchTokens = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .split(/\s+/)
+  .map(word => word.replace(/[^a-z0-9]/g, ''))
+  .filter(word => /\d{2}/.test(word) || word.length >= 4);
+
+// First word at or after voice time `from` that says one of the label's words
+export const findMention = (label: string, words: CaptionWord[], from: number = 0): CaptionWord | null => {
+  const wanted = matchTokens(label);
+  if (wanted.length === 0) return null;
+  return words.find(w => w.start >= from && matchTokens(w.text).some(token => wanted.includes(token))) || null;
+};
+
+// When each spotlighted region comes up: the first time the voice says one of its words from `from` on
+// (the moment its slide comes up). Regions the voice never mentions stay unlit, and a spotlight never
+// cuts into the previous one.
+export const getSpotlights = (regions: FocusRegion[], captions: CaptionCue[], from: number = 0): Spotlight[] => {
+  const words = captions.flatMap(cue => cue.words);
+  const found = regions.filter(region => region.spotlight).flatMap(region => {
+    const word = findMention(region.label, words, from);
+    return word ? [{ region, start: Math.max(0, word.start - SPOTLIGHT_LEAD) }] : [];
+  }).sort((a, b) => a.start - b.start);
+
+  const spotlights: Spotlight[] = [];
+  let freeAt = -Infinity;
+  for (const spotlight of found) {
+    if (spotlight.start < freeAt) continue;
+    spotlights.push(spotlight);
+    freeAt = spotlight.start + SPOTLIGHT_SECONDS;
+  }
+  return spotlights;
+};
+
+// The spotlight on air at `voiceTime` and how far the camera has moved onto it (0..1)
+export const getActiveSpotlight = (spotlights: Spotlight[], voiceTime: number): { region: FocusRegion; weight: number } | null => {
+  for (const { region, start } of spotlights) {
+    const t = voiceTime - start;
+    if (t < 0 || t >= SPOTLIGHT_SECONDS) continue;
+    const weight = t < SPOTLIGHT_IN ? easeInOut(t / SPOTLIGHT_IN)
+      : t < SPOTLIGHT_IN + SPOTLIGHT_HOLD ? 1
+      : 1 - easeInOut((t - SPOTLIGHT_IN - SPOTLIGHT_HOLD) / SPOTLIGHT_OUT);
+    return { region, weight };
+  }
+  return null;
+};
+
+// Largest frame-shaped rectangle that fits in the image: the "cover" crop at zoom 1
+const coverSize = (imageWidth: number, imageHeight: number, frameRatio: number) =>
+  imageWidth / imageHeight > frameRatio
+    ? { width: imageHeight * frameRatio, height: imageHeight }
+    : { width: imageWidth, height: imageWidth / frameRatio };
+
+// Rectangle of the given size centered on a point as far as the image edges allow
+const rectAround = (cx: number, cy: number, width: number, height: number, imageWidth: number, imageHeight: number): CameraRect => ({
+  x: clamp(cx - width / 2, 0, imageWidth - width),
+  y: clamp(cy - height / 2, 0, imageHeight - height),
+  width,
+  height,
+});
+
+// Center of the boxes taken together, in image pixels
+const centerOf = (boxes: FocusBox[], imageWidth: number, imageHeight: number) => {
+  const left = Math.min(...boxes.map(b => b.x));
+  const top = Math.min(...boxes.map(b => b.y));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: (left + right) / 2 * imageWidth, y: (top + bottom) / 2 * imageHeight };
+};
+
+// What the camera frames at `progress` (0..1) of the picture's move. Without regions the crop is centered
+// and drifts the template's way; with them it opens on everything that matters and travels to the hero
+// (the price, else the first product) when zooming in, the other way round when zooming out.
+// A spotlight pulls the frame onto its region, and a punch tightens whatever is framed.
+export const getCameraRect = (
+  imageWidth: number,
+  imageHeight: number,
+  frameRatio: number,
+  motion: MotionTemplate,
+  progress: number,
+  regions: FocusRegion[],
+  spotlight: { region: FocusRegion; weight: number } | null,
+  punch: number
+): CameraRect => {
+  const cover = coverSize(imageWidth, imageHeight, frameRatio);
+  const zoom = motion.zoomFrom + (motion.zoomTo - motion.zoomFrom) * progress;
+
+  let center;
+  if (regions.length === 0) {
+    center = {
+      x: imageWidth / 2 + cover.width * motion.panX * progress,
+      y: imageHeight / 2 + cover.height * motion.panY * progress,
+    };
+  } else {
+    const overview = centerOf(regions.map(r => r.box), imageWidth, imageHeight);
+    const hero = regions.find(r => r.kind === 'price') || regions.find(r => r.kind === 'product');
+    const heroCenter = hero ? centerOf([hero.box], imageWidth, imageHeight) : overview;
+    const [from, to] = motion.zoomTo >= motion.zoomFrom ? [overview, heroCenter] : [heroCenter, overview];
+    center = { x: lerp(from.x, to.x, progress), y: lerp(from.y, to.y, progress) };
+  }
+  let rect = rectAround(center.x, center.y, cover.width / zoom, cover.height / zoom, imageWidth, imageHeight);
+
+  if (spotlight) {
+    const { box } = spotlight.region;
+    const width = clamp(
+      Math.max(box.width * imageWidth, box.height * imageHeight * frameRatio) * SPOTLIGHT_PADDING,
+      cover.width / MAX_SPOTLIGHT_ZOOM,
+      cover.width
+    );
+    const target = centerOf([box], imageWidth, imageHeight);
+    const focused = rectAround(target.x, target.y, width, width / frameRatio, imageWidth, imageHeight);
+    const t = spotlight.weight;
+    rect = {
+      x: lerp(rect.x, focused.x, t),
+      y: lerp(rect.y, focused.y, t),
+      width: lerp(rect.width, focused.width, t),
+      height: lerp(rect.height, focused.height, t),
+    };
+  }
+
+  if (punch > 0) {
+    rect = rectAround(rect.x + rect.width / 2, rect.y + rect.height / 2, rect.width / (1 + punch), rect.height / (1 + punch), imageWidth, imageHeight);
+  }
+  return rect;
+};
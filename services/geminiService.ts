@@ -1,108 +1,53 @@
 import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { AnalysisResult } from "../types";
-
-// Helper to encode ArrayBuffer to Base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+import { AIProvider, AnalysisResult, BrandBrief, DialogueLine, ImageAnalysis, RewriteOptions, ScriptFormat } from "../types";
+import { getAISettings } from "./aiSettings";
+import { arrayBufferToBase64, base64ToArrayBuffer } from "./fileUtils";
+import { RetryingService } from "./retryingService";
+import { buildAnalysisPrompt, buildRewritePrompt, parseAnalysisResponse } from "./prompts";
+
+export class GeminiService extends RetryingService implements AIProvider {
+  readonly id = 'gemini';
+  readonly name = 'Google Gemini';
+  readonly maxDialogueSpeakers = 2; // limit of the multi-speaker TTS config
+
+  isConfigured(): boolean {
+    return !!this.getSettings().gemini.apiKey;
   }
-  return btoa(binary);
-}
 
-// Helper to decode Base64 to ArrayBuffer
-function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+  // Client instance per request, so a key changed at runtime is picked up right away
+  private createClient() {
+    const apiKey = this.getSettings().gemini.apiKey;
+    if (!apiKey) throw new Error("API Key missing. Abre Configuración para ingresar tu API Key de Gemini.");
+    return new GoogleGenAI({ apiKey });
   }
-  return bytes.buffer;
-}
 
-export class GeminiService {
-  // Retry wrapper for API calls to handle 429 (Rate Limit) and 5xx (Server) errors
-  private async withRetry<T>(operation: () => Promise<T>, retries = 6, initialDelay = 5000): Promise<T> {
-    let lastError: any;
-    
-    for (let i = 0; i < retries; i++) {
-      try {
-        return await operation();
-      } catch (error: any) {
-        lastError = error;
-        
-        // Extract status from various potential locations in the error object structure
-        // Checks: top level, inside 'error', inside 'response', etc.
-        const status = 
-            error?.status || 
-            error?.code || 
-            error?.error?.code || 
-            error?.error?.status ||
-            error?.response?.status;
-        
-        // Safely extract message for detection
-        let message = "Unknown error";
-        try {
-            message = error?.message || error?.error?.message || (typeof error === 'object' ? JSON.stringify(error) : String(error));
-        } catch (e) {
-            message = "Non-serializable error object";
-        }
-        
-        const isRateLimit = status === 429 || message.includes('429') || message.includes('quota') || message.includes('RESOURCE_EXHAUSTED');
-        const isServerError = (status >= 500 && status < 600) || message.includes('Internal error') || message.includes('INTERNAL');
-        
-        if ((isRateLimit || isServerError) && i < retries - 1) {
-          // Exponential backoff with longer delays: 5s, 10s, 20s, 40s, 80s...
-          const delay = initialDelay * Math.pow(2, i); 
-          console.warn(`API Error (${status || 'Unknown'}). Retrying in ${delay/1000}s... (Attempt ${i + 1}/${retries})`, message);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
-        
-        throw error;
-      }
-    }
-    throw lastError;
+  async testConnection(): Promise<void> {
+    const client = this.createClient();
+    await this.withRetry(() => client.models.generateContent({
+      model: this.getSettings().gemini.rewriteModel,
+      contents: [{ text: "ping" }],
+      config: { maxOutputTokens: 1 },
+    }), 1);
   }
 
-  async analyzeImage(file: File, duration: number = 15): Promise<{ analysis: AnalysisResult; script: string }> {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key missing. Please restart the app or select a key.");
-    
-    // Create client instance per request
-    const client = new GoogleGenAI({ apiKey });
-
-    const arrayBuffer = await file.arrayBuffer();
-    const base64Image = arrayBufferToBase64(arrayBuffer);
-
-    const prompt = `
-      Act as an expert advertising creative director for the Mexican market. 
-      Analyze this image (flyer, banner, or product photo).
-      
-      1. Identify the main Headline, colors (hex codes), mood, and key products.
-      2. Write a highly engaging, ${duration}-second radio/video spot script in Mexican Spanish.
-         - The script should be catchy, professional, and drive sales.
-         - Do not include scene directions like [Music starts], just the spoken text.
-         - Use local Mexican nuance if appropriate for the visual context.
-         - IMPORTANT: The length of the text must correspond to approximately ${duration} seconds of speaking time.
-      
-      Return the response in JSON format.
-    `;
+  async analyzeImages(files: File[], duration: number = 15, format: ScriptFormat = 'monologue', brand?: BrandBrief | null): Promise<ImageAnalysis> {
+    const client = this.createClient();
+
+    const imageParts = await Promise.all(files.map(async file => ({
+      inlineData: {
+        mimeType: file.type,
+        data: arrayBufferToBase64(await file.arrayBuffer()),
+      },
+    })));
+
+    const prompt = buildAnalysisPrompt(duration, format, brand, files.length);
 
     // Wrap API call with retry
     const response = await this.withRetry<GenerateContentResponse>(() => client.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: this.getSettings().gemini.analysisModel,
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: file.type,
-              data: base64Image,
-            },
-          },
+          ...imageParts,
           { text: prompt },
         ],
       },
@@ -115,6 +60,19 @@ export class GeminiService {
             brandColors: { type: Type.ARRAY, items: { type: Type.STRING } },
             mood: { type: Type.STRING },
             detectedProducts: { type: Type.ARRAY, items: { type: Type.STRING } },
+            regions: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  image: { type: Type.INTEGER, description: "1-based number of the image the region is on" },
+                  kind: { type: Type.STRING, enum: ["headline", "price", "product"] },
+                  label: { type: Type.STRING },
+                  box: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "[ymin, xmin, ymax, xmax] normalized to 0-1000" },
+                },
+                required: ["kind", "label", "box"],
+              },
+            },
             script: { type: Type.STRING, description: "The generated advertising script text" },
           },
           required: ["headline", "brandColors", "mood", "script"],
@@ -122,66 +80,30 @@ export class GeminiService {
       },
     }));
 
-    // Clean any potential markdown wrapping which can sometimes occur
-    const jsonText = response.text ? response.text.replace(/```json|```/g, "").trim() : "{}";
-    let data;
-    try {
-      data = JSON.parse(jsonText);
-    } catch (e) {
-      console.error("Failed to parse JSON response:", jsonText);
-      data = {
-         headline: "Oferta Especial",
-         brandColors: ["#ffffff"],
-         mood: "Energetic",
-         detectedProducts: [],
-         script: "No se pudo generar el guion automáticamente."
-      };
-    }
-
-    return {
-      analysis: {
-        headline: data.headline || "Promo",
-        brandColors: data.brandColors || [],
-        mood: data.mood || "Neutral",
-        detectedProducts: data.detectedProducts || [],
-      },
-      script: data.script || "",
-    };
+    return parseAnalysisResponse(response.text, files.length);
   }
 
-  async rewriteScript(analysis: AnalysisResult, duration: number): Promise<string> {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key missing");
-    
-    // Create client instance per request
-    const client = new GoogleGenAI({ apiKey });
-
-    const prompt = `
-      Act as an expert copywriter for the Mexican market.
-      Based on the following analysis of a product/image:
-      - Headline: ${analysis.headline}
-      - Products: ${analysis.detectedProducts.join(', ')}
-      - Mood: ${analysis.mood}
-
-      Write a new advertising script in Mexican Spanish that fits exactly ${duration} seconds when read aloud.
-      - Make it punchy, persuasive, and natural.
-      - Return ONLY the raw script text. No JSON, no markdown, no labels like "Script:".
-    `;
+  async rewriteScript(analysis: AnalysisResult, duration: number, options?: RewriteOptions): Promise<string> {
+    const client = this.createClient();
+
+    const prompt = buildRewritePrompt(analysis, duration, options);
 
     // Wrap API call with retry
     const response = await this.withRetry<GenerateContentResponse>(() => client.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: this.getSettings().gemini.rewriteModel,
       contents: [{ text: prompt }]
     }));
 
     return response.text ? response.text.trim() : "";
   }
 
+  get speechModel(): string {
+    return this.getSettings().gemini.ttsModel;
+  }
+
   async generateSpeech(text: string, voiceName: string, styleInstruction: string = "Speak naturally."): Promise<ArrayBuffer> {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) throw new Error("API Key missing");
-    
-    const client = new GoogleGenAI({ apiKey });
+    const client = this.createClient();
+    const { ttsModel } = this.getSettings().gemini;
 
     const makeRequest = (instruction?: string) => {
         // Build config conditionally
@@ -201,7 +123,7 @@ export class GeminiService {
         }
 
         return client.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
+            model: ttsModel,
             contents: [{ parts: [{ text: text }] }],
             config: config,
         });
@@ -232,6 +154,35 @@ export class GeminiService {
     }
   }
 
+  async generateDialogue(lines: DialogueLine[], voiceNames: Record<string, string>, styleInstruction: string = "Speak naturally."): Promise<ArrayBuffer> {
+    const client = this.createClient();
+    const speakers = Object.keys(voiceNames);
+    if (speakers.length !== this.maxDialogueSpeakers) {
+      throw new Error(`La síntesis conjunta admite exactamente ${this.maxDialogueSpeakers} voces.`);
+    }
+
+    // The multi-speaker model reads the speaker tags to switch voices
+    const transcript = lines.map(line => `${line.speaker}: ${line.text}`).join('\n');
+    const text = styleInstruction !== "Speak naturally." ? `${styleInstruction}\n${transcript}` : transcript;
+
+    const response = await this.withRetry<GenerateContentResponse>(() => client.models.generateContent({
+      model: this.getSettings().gemini.ttsModel,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(speaker => ({
+              speaker,
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceNames[speaker] } },
+            })),
+          },
+        },
+      },
+    }));
+    return this.processAudioResponse(response);
+  }
+
   private processAudioResponse(response: GenerateContentResponse): ArrayBuffer {
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) {
@@ -242,4 +193,4 @@ export class GeminiService {
   }
 }
 
-export const geminiService = new GeminiService();
\ No newline at end of file
+export const geminiService = new GeminiService(getAISettings);
\ No newline at end of file
@@ -0,0 +1,212 @@
+import { LoudnessMeasurement, LoudnessReport, LoudnessTarget } from '../types';
+
+// Loudness measurement per ITU-R BS.1770-4 (integrated LUFS with gating, 4x oversampled true peak)
+// and normalization with a look-ahead peak limiter, applied to the rendered mix before encoding.
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1; // 75% overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = -10; // LU below the ungated loudness
+
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+const LIMITER_ATTACK_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+// Sample-peak limiting misses some inter-sample peaks; aim a little below the true-peak ceiling
+const LIMITER_MARGIN_DB = 0.5;
+const MAX_PASSES = 3;
+const CONVERGED_LU = 0.1;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number]; // a1, a2 (a0 normalized to 1)
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+const gainToDb = (gain: number) => (gain > 0 ? 20 * Math.log10(gain) : -Infinity);
+
+// K-weighting (high shelf + high pass) for any sample rate, from the analog prototypes of the 48 kHz filters
+const kWeighting = (sampleRate: number): Biquad[] => {
+  // Stage 1: +4 dB shelf modelling the acoustic effect of the head
+  let f0 = 1681.974450955533;
+  let q = 0.7071752369554196;
+  const vh = dbToGain(3.999843853973347);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + (vb * k) / q + k * k) / a0, (2 * (k * k - vh)) / a0, (vh - (vb * k) / q + k * k) / a0],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  // Stage 2: RLB high pass
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (k * k - 1)) / a0, (1 - k / q + k * k) / a0],
+  };
+
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+const blockLoudness = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+// Gated integrated loudness of all channels (each weighted 1, as for L/R or mono)
+const integratedLoudness = (channels: Float32Array[], sampleRate: number): number => {
+  const weighted = channels.map(data => kWeighting(sampleRate).reduce(applyBiquad, data));
+  const blockSize = Math.round(sampleRate * BLOCK_SECONDS);
+  const step = Math.round(sampleRate * BLOCK_STEP_SECONDS);
+  const length = weighted[0]?.length || 0;
+
+  // Mean square of every 400 ms block, summed over channels
+  const blocks: number[] = [];
+  for (let start = 0; start + blockSize <= length; start += step) {
+    let sum = 0;
+    weighted.forEach(data => {
+      let channelSum = 0;
+      for (let i = start; i < start + blockSize; i++) channelSum += data[i] * data[i];
+      sum += channelSum / blockSize;
+    });
+    blocks.push(sum);
+  }
+
+  const gatedMean = (threshold: number) => {
+    const kept = blocks.filter(z => z > 0 && blockLoudness(z) > threshold);
+    return kept.length > 0 ? kept.reduce((a, b) => a + b, 0) / kept.length : 0;
+  };
+
+  const ungated = gatedMean(ABSOLUTE_GATE);
+  if (ungated === 0) return -Infinity;
+  const gated = gatedMean(Math.max(ABSOLUTE_GATE, blockLoudness(ungated) + RELATIVE_GATE));
+  return gated > 0 ? blockLoudness(gated) : -Infinity;
+};
+
+// Windowed-sinc interpolation filter, split into one phase per oversampled position
+const interpolationPhases: Float32Array[] = Array.from({ length: OVERSAMPLING }, (_, phase) => {
+  const taps = new Float32Array(TAPS_PER_PHASE);
+  const total = TAPS_PER_PHASE * OVERSAMPLING;
+  for (let j = 0; j < TAPS_PER_PHASE; j++) {
+    const n = j * OVERSAMPLING + phase;
+    const t = (n - (total - 1) / 2) / OVERSAMPLING;
+    const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / total);
+    taps[j] = sinc * window;
+  }
+  return taps;
+});
+
+// Highest absolute value of the signal reconstructed at 4x the sample rate
+const truePeak = (channels: Float32Array[]): number => {
+  let peak = 0;
+  channels.forEach(data => {
+    for (let i = 0; i < data.length; i++) {
+      const sample = Math.abs(data[i]);
+      if (sample > peak) peak = sample;
+      for (let phase = 0; phase < OVERSAMPLING; phase++) {
+        const taps = interpolationPhases[phase];
+        const count = Math.min(TAPS_PER_PHASE, i + 1);
+        let value = 0;
+        for (let j = 0; j < count; j++) value += data[i - j] * taps[j];
+        if (value > peak) peak = value;
+        else if (-value > peak) peak = -value;
+      }
+    }
+  });
+  return gainToDb(peak);
+};
+
+const channelsOf = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+export const measureLoudness = (buffer: AudioBuffer): LoudnessMeasurement => {
+  const channels = channelsOf(buffer);
+  return { integrated: integratedLoudness(channels, buffer.sampleRate), truePeak: truePeak(channels) };
+};
+
+// Linked-channel gain curve that keeps every sample under `ceiling`. The gain ramps down ahead of
+// each peak (look-ahead) and recovers linearly afterwards, so the limiter never clips and never clicks.
+const limiterGain = (channels: Float32Array[], sampleRate: number, ceiling: number): Float32Array => {
+  const length = channels[0].length;
+  const gain = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let peak = 0;
+    channels.forEach(data => { peak = Math.max(peak, Math.abs(data[i])); });
+    gain[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+
+  const attackStep = 1 / Math.max(1, sampleRate * LIMITER_ATTACK_SECONDS);
+  const releaseStep = 1 / Math.max(1, sampleRate * LIMITER_RELEASE_SECONDS);
+  for (let i = length - 2; i >= 0; i--) gain[i] = Math.min(gain[i], gain[i + 1] + attackStep);
+  for (let i = 1; i < length; i++) gain[i] = Math.min(gain[i], gain[i - 1] + releaseStep);
+  return gain;
+};
+
+// Brings the mix to the target integrated loudness, then limits it under the true-peak ceiling.
+// Limiting takes some loudness away, so the gain is corrected and the limiter re-run a few times.
+// Targets without a loudness value only measure the mix.
+export const normalizeLoudness = (buffer: AudioBuffer, target: LoudnessTarget): { buffer: AudioBuffer; report: LoudnessReport } => {
+  const input = measureLoudness(buffer);
+  if (target.lufs === null || !isFinite(input.integrated)) {
+    return { buffer, report: { target, input, output: input, gainDb: 0, limiterDb: 0 } };
+  }
+
+  const source = channelsOf(buffer);
+  const ceiling = dbToGain(target.truePeak - LIMITER_MARGIN_DB);
+  let gainDb = target.lufs - input.integrated;
+  let channels: Float32Array[] = [];
+  let deepest = 1;
+  let integrated = input.integrated;
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    const gain = dbToGain(gainDb);
+    channels = source.map(data => data.map(sample => sample * gain));
+    const reduction = limiterGain(channels, buffer.sampleRate, ceiling);
+    deepest = 1;
+    channels.forEach(data => {
+      for (let i = 0; i < data.length; i++) data[i] *= reduction[i];
+    });
+    reduction.forEach(g => { if (g < deepest) deepest = g; });
+
+    integrated = integratedLoudness(channels, buffer.sampleRate);
+    const shortfall = target.lufs - integrated;
+    if (Math.abs(shortfall) < CONVERGED_LU) break;
+    gainDb += shortfall;
+  }
+
+  // Whatever inter-sample overshoot is left is taken off with a final trim
+  let peak = truePeak(channels);
+  const overshoot = peak - target.truePeak;
+  if (overshoot > 0) {
+    const trim = dbToGain(-overshoot);
+    channels.forEach(data => {
+      for (let i = 0; i < data.length; i++) data[i] *= trim;
+    });
+    integrated -= overshoot;
+    peak = target.truePeak;
+  }
+
+  const output = new AudioBuffer({ length: buffer.length, numberOfChannels: channels.length, sampleRate: buffer.sampleRate });
+  channels.forEach((data, i) => output.copyToChannel(data, i));
+
+  return {
+    buffer: output,
+    report: { target, input, output: { integrated, truePeak: peak }, gainDb, limiterDb: -gainToDb(deepest) },
+  };
+};
@@ -0,0 +1,168 @@
+import { AudioStem, MixSettings, MusicBed, PlacedSfx } from '../types';
+import { detectSpeechSegments } from './captions';
+import { arrangeMusic } from './musicArrange';
+import { getSfxEnd } from './sfxTimeline';
+
+// Resolution of the music gain automation, fine enough for the shortest useful attack
+const ENVELOPE_RATE = 100;
+// Pauses shorter than this keep the music down, so it does not pump between phrases
+const DUCK_HOLD_SECONDS = 0.25;
+
+export interface MixTimeline {
+  voiceStart: number; // seconds of music before the voice comes in
+  endCardStart: number; // where the end card segment begins; equals duration without one
+  duration: number; // full length of the spot
+}
+
+export interface ScheduledMix {
+  sources: AudioBufferSourceNode[];
+  musicVolume: GainNode | null; // kept separate from the automation, which it multiplies
+  timeline: MixTimeline;
+}
+
+// Pre- and post-roll only make sense with a music bed; a voice-only spot is exactly the voice.
+// The end card segment follows, with the music carrying on under it. Sound effects that ring on
+// past all of that (a closing sting) lengthen the spot to `sfxEnd`.
+export const getMixTimeline = (
+  voiceDuration: number,
+  hasMusic: boolean,
+  mix: MixSettings,
+  sfxEnd: number = 0,
+  endCard: number = 0
+): MixTimeline => {
+  const timeline = hasMusic
+    ? { voiceStart: mix.preRoll, duration: mix.preRoll + voiceDuration + mix.postRoll }
+    : { voiceStart: 0, duration: voiceDuration };
+  return {
+    voiceStart: timeline.voiceStart,
+    endCardStart: timeline.duration,
+    duration: Math.max(timeline.duration + endCard, sfxEnd),
+  };
+};
+
+// Shortest voice a slot is fitted to, however much of it the music and end card take
+const MIN_VOICE_SLOT = 1;
+
+// Voice length that makes the whole spot last `spotDuration`: what the music intro, outro and end card leave free
+export const getVoiceSlot = (spotDuration: number, hasMusic: boolean, mix: MixSettings, endCard: number = 0): number => {
+  const { duration } = getMixTimeline(0, hasMusic, mix, 0, endCard);
+  return Math.max(MIN_VOICE_SLOT, spotDuration - duration);
+};
+
+// Music gain over the whole timeline (before the volume control), evenly sampled from 0 to duration.
+// The voice is known in advance, so the dip starts `duckAttack` seconds early and the music is
+// already down when the first syllable lands. Ramps are linear in dB, which is how a ducker sounds.
+export const computeMusicEnvelope = (voiceBuffer: AudioBuffer, mix: MixSettings, timeline: MixTimeline): Float32Array => {
+  const { voiceStart, duration } = timeline;
+  const length = Math.max(2, Math.ceil(duration * ENVELOPE_RATE) + 1);
+  const step = duration / (length - 1);
+  const depth = Math.max(0, mix.duckDepthDb);
+
+  const ducked = (mix.ducking && depth > 0 ? detectSpeechSegments(voiceBuffer) : []).map(seg => ({
+    start: voiceStart + seg.start - mix.duckAttack,
+    end: voiceStart + seg.end + DUCK_HOLD_SECONDS,
+  }));
+
+  const envelope = new Float32Array(length);
+  let levelDb = 0;
+  for (let i = 0; i < length; i++) {
+    const time = i * step;
+
+    // 1. Ducking: move towards the target at the attack / release rate
+    const targetDb = ducked.some(seg => time >= seg.start && time < seg.end) ? -depth : 0;
+    if (targetDb < levelDb) {
+      levelDb = mix.duckAttack > 0 ? Math.max(targetDb, levelDb - (depth * step) / mix.duckAttack) : targetDb;
+    } else if (targetDb > levelDb) {
+      levelDb = mix.duckRelease > 0 ? Math.min(targetDb, levelDb + (depth * step) / mix.duckRelease) : targetDb;
+    }
+
+    // 2. Fades at both ends of the spot
+    const fadeIn = mix.fadeIn > 0 ? Math.min(1, time / mix.fadeIn) : 1;
+    const fadeOut = mix.fadeOut > 0 ? Math.min(1, (duration - time) / mix.fadeOut) : 1;
+
+    envelope[i] = Math.pow(10, levelDb / 20) * Math.max(0, Math.min(fadeIn, fadeOut));
+  }
+  return envelope;
+};
+
+// Plays one effect clip with its gain and fades, cut at the end of the spot
+const scheduleSfx = (ctx: BaseAudioContext, clip: PlacedSfx, startAt: number, duration: number): AudioBufferSourceNode | null => {
+  const from = Math.max(0, clip.start);
+  const to = Math.min(duration, clip.start + clip.buffer.duration);
+  if (to <= from) return null;
+
+  const fadeIn = Math.min(clip.fadeIn, to - from);
+  const fadeOut = Math.min(clip.fadeOut, to - from - fadeIn);
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : clip.gain, startAt + from);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(clip.gain, startAt + from + fadeIn);
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(clip.gain, startAt + to - fadeOut);
+    gain.gain.linearRampToValueAtTime(0, startAt + to);
+  }
+
+  const source = ctx.createBufferSource();
+  source.buffer = clip.buffer;
+  source.connect(gain);
+  gain.connect(ctx.destination);
+  source.start(startAt + from, from - clip.start); // a clip placed before 0 starts part-way in
+  source.stop(startAt + to);
+  return source;
+};
+
+// Builds the voice + music + effects graph on any audio context, starting at `startAt`. The live
+// preview and the offline render both go through here, so what you hear is exactly what gets exported.
+// A stem keeps one of the parts, still on the full timeline and with the same automation.
+// `endCard` is the length of the closing segment, in seconds, that the music plays under.
+export const scheduleMix = (
+  ctx: BaseAudioContext,
+  voiceBuffer: AudioBuffer,
+  music: MusicBed | null,
+  sfx: PlacedSfx[],
+  endCard: number,
+  volume: number,
+  mix: MixSettings,
+  startAt: number,
+  stem: AudioStem = 'mix'
+): ScheduledMix => {
+  const timeline = getMixTimeline(voiceBuffer.duration, !!music, mix, getSfxEnd(sfx), endCard);
+  const sources: AudioBufferSourceNode[] = [];
+
+  if (stem === 'mix' || stem === 'sfx') {
+    sfx.forEach(clip => {
+      const source = scheduleSfx(ctx, clip, startAt, timeline.duration);
+      if (source) sources.push(source);
+    });
+  }
+
+  if (stem === 'mix' || stem === 'voice') {
+    const voiceSource = ctx.createBufferSource();
+    voiceSource.buffer = voiceBuffer;
+    voiceSource.connect(ctx.destination);
+    voiceSource.start(startAt + timeline.voiceStart);
+    sources.push(voiceSource);
+  }
+
+  if (!music || (stem !== 'mix' && stem !== 'music')) return { sources, musicVolume: null, timeline };
+
+  // Trimmed, looped and ended to the exact length of the spot
+  const musicSource = ctx.createBufferSource();
+  musicSource.buffer = arrangeMusic(ctx, music.buffer, music.edit, timeline.duration);
+
+  const envelope = computeMusicEnvelope(voiceBuffer, mix, timeline);
+  const automation = ctx.createGain();
+  automation.gain.value = envelope[0];
+  automation.gain.setValueCurveAtTime(envelope, startAt, timeline.duration);
+
+  const musicVolume = ctx.createGain();
+  musicVolume.gain.value = volume;
+
+  musicSource.connect(automation);
+  automation.connect(musicVolume);
+  musicVolume.connect(ctx.destination);
+  musicSource.start(startAt);
+  musicSource.stop(startAt + timeline.duration);
+
+  sources.push(musicSource);
+  return { sources, musicVolume, timeline };
+};
@@ -0,0 +1,129 @@
+import { AIProvider, AnalysisResult, BrandBrief, ImageAnalysis, RewriteOptions, ScriptFormat } from "../types";
+import { parseFocusRegions } from "./framing";
+
+const SAMPLE_RATE = 24000;
+const SECONDS_PER_SYLLABLE = 0.17;
+const WORD_GAP_SECONDS = 0.04;
+const PHRASE_PAUSE_SECONDS = 0.32;
+const WORDS_PER_SECOND = 2.5; // typical Spanish promo read
+
+// Simulated network latency so loading states stay visible in demos
+const LATENCY_MS = 400;
+
+const CANNED_SENTENCES = [
+  "¡Llegaron las ofertas que estabas esperando!",
+  "Aprovecha descuentos increíbles en toda la tienda.",
+  "Encuentra lo mejor para tu familia al mejor precio.",
+  "Calidad garantizada y precios que no vas a creer.",
+  "Solo por tiempo limitado, ¡no te lo pierdas!",
+  "Visítanos hoy mismo y llévate más por menos.",
+  "Paga con tarjeta y obtén meses sin intereses.",
+  "¡Te esperamos con los brazos abiertos!",
+];
+
+const delay = () => new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+
+const DIALOGUE_SPEAKERS = ['CARLOS', 'SOFIA'];
+
+// offset picks the opening sentence, so different angles get visibly different copy.
+// Dialogue scripts alternate two speakers, one sentence per line.
+const buildScript = (duration: number, offset: number = 0, format: ScriptFormat = 'monologue') => {
+  const targetWords = Math.round(duration * WORDS_PER_SECOND);
+  const sentences: string[] = [];
+  let words = 0;
+  for (let i = 0; words < targetWords; i++) {
+    const sentence = CANNED_SENTENCES[(i + offset) % CANNED_SENTENCES.length];
+    sentences.push(sentence);
+    words += sentence.split(' ').length;
+  }
+  if (format === 'dialogue') {
+    return sentences.map((sentence, i) => `${DIALOGUE_SPEAKERS[i % DIALOGUE_SPEAKERS.length]}: ${sentence}`).join('\n');
+  }
+  return sentences.join(' ');
+};
+
+// Tagline and legal lines close the copy, as the real providers are asked to do
+const withBrand = (script: string, format: ScriptFormat, brand?: BrandBrief | null): string => {
+  if (!brand || format === 'dialogue') return script;
+  return [script, brand.tagline, ...brand.disclaimers].filter(part => part.trim()).join(' ');
+};
+
+// Fully offline provider: canned analysis and synthetic "speech" with word-like bursts and
+// real pauses at punctuation, so captions, mixing and export behave as with a real voice.
+export class MockAIService implements AIProvider {
+  readonly id = 'mock';
+  readonly name = 'Demo sin conexión';
+  readonly speechModel = 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async testConnection(): Promise<void> {
+    await delay();
+  }
+
+  async analyzeImages(files: File[], duration: number = 15, format: ScriptFormat = 'monologue', brand?: BrandBrief | null): Promise<ImageAnalysis> {
+    await delay();
+    const titles = files.map(file => file.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim());
+    return {
+      analysis: {
+        headline: titles[0] ? `¡${titles[0]}!` : "Oferta Especial",
+        brandColors: ["#facc15", "#dc2626", "#ffffff"],
+        mood: "Energetic",
+        detectedProducts: ["Ofertas de temporada", "Descuentos en tienda"],
+      },
+      script: withBrand(buildScript(duration, 0, format), format, brand),
+      // The same layout on every image; labels share words with the canned script, so the spotlights
+      // and the slide changes on automatic can be tried out
+      regions: parseFocusRegions(titles.flatMap((title, i) => [
+        { image: i + 1, kind: 'headline', label: title, box: [40, 100, 200, 900] },
+        { image: i + 1, kind: 'product', label: "Ofertas de temporada", box: [260, 80, 620, 520] },
+        { image: i + 1, kind: 'product', label: "Descuentos en tienda", box: [300, 540, 600, 940] },
+        { image: i + 1, kind: 'price', label: "Al mejor precio", box: [680, 560, 880, 920] },
+      ]), files.length),
+    };
+  }
+
+  async rewriteScript(analysis: AnalysisResult, duration: number, { angleInstruction = '', format = 'monologue', brand }: RewriteOptions = {}): Promise<string> {
+    await delay();
+    const script = buildScript(duration, angleInstruction.length, format);
+    return withBrand(format === 'dialogue' ? script : `${analysis.headline} ${script}`, format, brand);
+  }
+
+  async generateSpeech(text: string, voiceName: string): Promise<ArrayBuffer> {
+    await delay();
+
+    // Lower fundamental for the male Gemini voices
+    const baseFrequency = ['Fenrir', 'Puck', 'Charon'].includes(voiceName) ? 120 : 210;
+    const words = text.split(/\s+/).filter(Boolean);
+
+    const chunks: Float32Array[] = [];
+    words.forEach(word => {
+      const syllables = Math.max(1, (word.toLowerCase().match(/[aeiouáéíóúü]+/g) || []).length);
+      const length = Math.round(syllables * SECONDS_PER_SYLLABLE * SAMPLE_RATE);
+      const burst = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        const t = i / SAMPLE_RATE;
+        const envelope = Math.sin(Math.PI * i / length) * (0.6 + 0.4 * Math.abs(Math.sin(Math.PI * syllables * i / length)));
+        const frequency = baseFrequency * (1 + 0.08 * Math.sin(2 * Math.PI * 3 * t));
+        burst[i] = 0.35 * envelope * (Math.sin(2 * Math.PI * frequency * t) + 0.4 * Math.sin(4 * Math.PI * frequency * t));
+      }
+      chunks.push(burst);
+
+      const pause = /[.,;:!?…]$/.test(word) ? PHRASE_PAUSE_SECONDS : WORD_GAP_SECONDS;
+      chunks.push(new Float32Array(Math.round(pause * SAMPLE_RATE)));
+    });
+
+    const total = chunks.reduce((sum, c) => sum + c.length, 0);
+    const pcm = new Int16Array(total);
+    let offset = 0;
+    chunks.forEach(chunk => {
+      for (let i = 0; i < chunk.length; i++) pcm[offset + i] = Math.round(chunk[i] * 32767);
+      offset += chunk.length;
+    });
+    return pcm.buffer;
+  }
+}
+
+export const mockAIService = new MockAIService();
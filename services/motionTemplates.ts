@@ -0,0 +1,23 @@
+import { MotionTemplate } from '../types';
+import { MOTION_TEMPLATES } from '../constants';
+import { detectMoods } from './musicLibrary';
+
+// Template whose moods best match the free-text mood of the analysis; the classic look otherwise
+export const suggestMotionTemplate = (mood: string | undefined): MotionTemplate => {
+  const moods = detectMoods(mood || '');
+  let best = MOTION_TEMPLATES[0];
+  let bestScore = 0;
+
+  for (const template of MOTION_TEMPLATES) {
+    const score = template.moods.filter(m => moods.includes(m)).length;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// The template picked for the spot, or the mood's suggestion when left on automatic
+export const resolveMotionTemplate = (id: string | null, mood: string | undefined): MotionTemplate =>
+  (id && MOTION_TEMPLATES.find(t => t.id === id)) || suggestMotionTemplate(mood);
@@ -0,0 +1,126 @@
+import { MusicEdit, MusicLoop } from '../types';
+
+// Shortest loop section that still sounds like music rather than a stutter
+export const MIN_MUSIC_LOOP = 1;
+
+// A stretch of the music file placed on the spot timeline
+interface MusicSegment {
+  from: number; // seconds into the file
+  at: number; // seconds into the spot
+  length: number;
+  fadeIn: boolean; // crossfades with the previous segment over its first `crossfade` seconds
+}
+
+// Loop section actually used: the chosen one, or the whole file
+const resolveLoop = (fileDuration: number, loop: MusicLoop | null): MusicLoop => (
+  loop ? { start: loop.start, end: Math.min(loop.end, fileDuration) } : { start: 0, end: fileDuration }
+);
+
+// Keeps an edit inside the file: offset before the loop end, loop at least MIN_MUSIC_LOOP long,
+// and a crossfade no longer than half the loop
+export const clampMusicEdit = (edit: MusicEdit, fileDuration: number): MusicEdit => {
+  const loop = edit.loop && {
+    start: Math.max(0, Math.min(edit.loop.start, fileDuration - MIN_MUSIC_LOOP)),
+    end: Math.min(fileDuration, Math.max(edit.loop.end, edit.loop.start + MIN_MUSIC_LOOP)),
+  };
+  const section = resolveLoop(fileDuration, loop);
+  return {
+    ...edit,
+    loop,
+    offset: Math.max(0, Math.min(edit.offset, section.end - MIN_MUSIC_LOOP)),
+    crossfade: Math.max(0, Math.min(edit.crossfade, (section.end - section.start) / 2)),
+  };
+};
+
+// Lays the file out from the start offset, repeating the loop section with a crossfade at each seam.
+// With `fitEnding` the last pass plays on past the loop end into the file's own ending, and the
+// whole arrangement is shifted so that ending lands exactly on the end of the spot.
+const planSegments = (fileDuration: number, edit: MusicEdit, duration: number): MusicSegment[] => {
+  const { loop, offset, crossfade } = clampMusicEdit(edit, fileDuration);
+  const section = resolveLoop(fileDuration, loop);
+  const loopLength = section.end - section.start;
+  const withEnding = (segment: MusicSegment): MusicSegment => ({ ...segment, length: fileDuration - segment.from });
+
+  const segments: MusicSegment[] = [{ from: offset, at: 0, length: section.end - offset, fadeIn: false }];
+  for (;;) {
+    const last = segments[segments.length - 1];
+    const end = edit.fitEnding ? last.at + withEnding(last).length : last.at + last.length;
+    if (end >= duration) break;
+    segments.push({ from: section.start, at: last.at + last.length - crossfade, length: loopLength, fadeIn: crossfade > 0 });
+  }
+  if (!edit.fitEnding) return segments;
+
+  const final = withEnding(segments[segments.length - 1]);
+  const shift = final.at + final.length - duration;
+  return [...segments.slice(0, -1), final]
+    .map(segment => ({ ...segment, at: segment.at - shift }))
+    .filter(segment => segment.at + segment.length > 0);
+};
+
+// Renders the music bed for a spot of `duration` seconds. Built ahead of playback so the preview
+// and every export hear the same seams.
+export const arrangeMusic = (ctx: BaseAudioContext, buffer: AudioBuffer, edit: MusicEdit, duration: number): AudioBuffer => {
+  const rate = buffer.sampleRate;
+  const length = Math.max(1, Math.ceil(duration * rate));
+  const output = ctx.createBuffer(buffer.numberOfChannels, length, rate);
+  const segments = planSegments(buffer.duration, edit, duration);
+  const fadeSamples = Math.round(clampMusicEdit(edit, buffer.duration).crossfade * rate);
+
+  segments.forEach((segment, index) => {
+    const next = segments[index + 1];
+    const at = Math.round(segment.at * rate);
+    const from = Math.round(segment.from * rate);
+    const count = Math.round(segment.length * rate);
+    const fadeOutStart = next?.fadeIn ? Math.round(next.at * rate) - at : Infinity;
+
+    for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+      const input = buffer.getChannelData(ch);
+      const data = output.getChannelData(ch);
+      for (let i = Math.max(0, -at); i < count && at + i < length; i++) {
+        // Equal-power crossfade: the two sides sum to constant power across the seam
+        let gain = 1;
+        if (segment.fadeIn && i < fadeSamples) gain *= Math.sin((Math.PI / 2) * (i / fadeSamples));
+        if (i >= fadeOutStart) gain *= Math.cos((Math.PI / 2) * Math.min(1, (i - fadeOutStart) / fadeSamples));
+        data[at + i] += (input[from + i] || 0) * gain;
+      }
+    }
+  });
+  return output;
+};
+
+// Spot times of the beats of a file at a steady `tempo` (BPM) with its first beat at the very start, as
+// built-in tracks are composed. Follows the arrangement, so the offset, loop seams and fitted ending move
+// the beats with the music; over a crossfade the incoming pass sets the beat.
+export const getMusicBeats = (fileDuration: number, edit: MusicEdit, duration: number, tempo: number): number[] => {
+  const beat = 60 / tempo;
+  const segments = planSegments(fileDuration, edit, duration);
+  return segments.flatMap((segment, index) => {
+    const until = Math.min(duration, segment.at + segment.length, segments[index + 1]?.at ?? Infinity);
+    const beats: number[] = [];
+    for (let k = Math.ceil(segment.from / beat - 1e-6); ; k++) {
+      const time = segment.at + k * beat - segment.from;
+      if (time >= until) break;
+      if (time >= 0) beats.push(time);
+    }
+    return beats;
+  });
+};
+
+// Peak level per column, for drawing the waveform
+export const computePeaks = (buffer: AudioBuffer, columns: number): Float32Array => {
+  const peaks = new Float32Array(columns);
+  const perColumn = buffer.length / columns;
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let c = 0; c < columns; c++) {
+      const end = Math.min(data.length, Math.floor((c + 1) * perColumn));
+      // Sparse sampling keeps long files cheap; peaks stay visually accurate
+      const step = Math.max(1, Math.floor(perColumn / 256));
+      for (let i = Math.floor(c * perColumn); i < end; i += step) {
+        const value = Math.abs(data[i]);
+        if (value > peaks[c]) peaks[c] = value;
+      }
+    }
+  }
+  return peaks;
+};
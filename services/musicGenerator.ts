@@ -0,0 +1,204 @@
+import { MusicEnergy, MusicTrack } from '../types';
+
+// Built-in music beds, synthesized in the browser from short recipes. They are original and
+// royalty-free by construction, and the app ships no audio files.
+
+const SAMPLE_RATE = 44100;
+const ENDING_BARS = 2; // tonic chord ringing out after the loop section
+
+interface TrackRecipe {
+  tempo: number;
+  root: number; // MIDI note of the key
+  progression: number[][]; // chord tones per bar, in semitones above the root
+  bars: number; // length of the loop section
+  pad: OscillatorType | null;
+  padCutoff: number; // Hz, low-pass on the pad
+  arp: OscillatorType | null; // eighth-note arpeggio over the chord
+  bass: number[]; // eighth positions in the bar where the bass plays the chord root
+  kick: number[];
+  snare: number[];
+  hat: number[];
+}
+
+interface BuiltinTrack extends MusicTrack {
+  recipe: TrackRecipe;
+}
+
+const FOUR_ON_FLOOR = [0, 2, 4, 6];
+const BACKBEAT = [2, 6];
+const OFFBEATS = [1, 3, 5, 7];
+const ALL_EIGHTHS = [0, 1, 2, 3, 4, 5, 6, 7];
+
+// I–V–vi–IV and friends, voiced in close position
+const MAJOR_POP = [[0, 4, 7], [7, 11, 14], [9, 12, 16], [5, 9, 12]];
+const MAJOR_SEVENTHS = [[0, 4, 7, 11], [5, 9, 12, 16], [2, 5, 9, 12], [7, 11, 14, 17]];
+const MINOR_EMOTIVE = [[9, 12, 16], [5, 9, 12], [0, 4, 7], [7, 11, 14]];
+
+const barSeconds = (tempo: number) => (60 / tempo) * 4;
+
+const builtin = (
+  id: string, name: string, moods: string[], energy: MusicEnergy, recipe: TrackRecipe
+): BuiltinTrack => ({
+  id: `builtin:${id}`,
+  name,
+  moods,
+  tempo: recipe.tempo,
+  energy,
+  builtin: true,
+  loop: { start: 0, end: barSeconds(recipe.tempo) * recipe.bars },
+  recipe,
+});
+
+export const BUILTIN_TRACKS: BuiltinTrack[] = [
+  builtin('impulso', 'Impulso', ['energetic', 'urgent', 'festive'], 'high', {
+    tempo: 124, root: 45, progression: MAJOR_POP, bars: 8,
+    pad: 'sawtooth', padCutoff: 1800, arp: 'square',
+    bass: OFFBEATS, kick: FOUR_ON_FLOOR, snare: BACKBEAT, hat: OFFBEATS,
+  }),
+  builtin('fiesta', 'Fiesta', ['festive', 'playful'], 'high', {
+    tempo: 112, root: 48, progression: MAJOR_POP, bars: 8,
+    pad: 'triangle', padCutoff: 3000, arp: 'square',
+    bass: [0, 3, 4, 7], kick: [0, 3, 4], snare: BACKBEAT, hat: ALL_EIGHTHS,
+  }),
+  builtin('oferta', 'Oferta Relámpago', ['urgent', 'energetic'], 'high', {
+    tempo: 132, root: 43, progression: [[0, 3, 7], [0, 3, 7], [8, 12, 15], [10, 14, 17]], bars: 8,
+    pad: 'sawtooth', padCutoff: 1200, arp: 'sawtooth',
+    bass: ALL_EIGHTHS, kick: FOUR_ON_FLOOR, snare: BACKBEAT, hat: ALL_EIGHTHS,
+  }),
+  builtin('corporativo', 'Horizonte', ['corporate', 'calm'], 'medium', {
+    tempo: 100, root: 50, progression: MAJOR_SEVENTHS, bars: 8,
+    pad: 'triangle', padCutoff: 2200, arp: 'triangle',
+    bass: [0, 4], kick: [0, 4], snare: [], hat: OFFBEATS,
+  }),
+  builtin('elegante', 'Terciopelo', ['elegant', 'calm'], 'low', {
+    tempo: 84, root: 46, progression: MAJOR_SEVENTHS, bars: 8,
+    pad: 'sine', padCutoff: 4000, arp: null,
+    bass: [0], kick: [], snare: [], hat: [2, 6],
+  }),
+  builtin('emotivo', 'Recuerdos', ['emotional', 'calm'], 'low', {
+    tempo: 76, root: 48, progression: MINOR_EMOTIVE, bars: 8,
+    pad: 'triangle', padCutoff: 1500, arp: 'sine',
+    bass: [0, 6], kick: [], snare: [], hat: [],
+  }),
+];
+
+const midiToHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Renders a recipe: `bars` of loopable groove, then the tonic ringing out as a natural ending
+const renderRecipe = async (recipe: TrackRecipe): Promise<AudioBuffer> => {
+  const eighth = 60 / recipe.tempo / 2;
+  const bar = eighth * 8;
+  const duration = bar * (recipe.bars + ENDING_BARS);
+  const ctx = new OfflineAudioContext(2, Math.ceil(SAMPLE_RATE * duration), SAMPLE_RATE);
+
+  const master = ctx.createGain();
+  master.gain.value = 0.5;
+  const compressor = ctx.createDynamicsCompressor();
+  master.connect(compressor);
+  compressor.connect(ctx.destination);
+
+  const noise = ctx.createBuffer(1, SAMPLE_RATE * 2, SAMPLE_RATE);
+  const noiseData = noise.getChannelData(0);
+  for (let i = 0; i < noiseData.length; i++) noiseData[i] = Math.random() * 2 - 1;
+
+  // One enveloped oscillator note, optionally low-passed and panned
+  const tone = (type: OscillatorType, note: number, at: number, length: number, level: number, pan = 0, cutoff = 0) => {
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.value = midiToHz(note);
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, at);
+    env.gain.linearRampToValueAtTime(level, at + Math.min(0.03, length / 4));
+    env.gain.setTargetAtTime(0, at + length * 0.7, length * 0.15);
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = pan;
+
+    let head: AudioNode = osc;
+    if (cutoff > 0) {
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'lowpass';
+      filter.frequency.value = cutoff;
+      osc.connect(filter);
+      head = filter;
+    }
+    head.connect(env);
+    env.connect(panner);
+    panner.connect(master);
+    osc.start(at);
+    osc.stop(at + length * 1.5);
+  };
+
+  const kick = (at: number) => {
+    const osc = ctx.createOscillator();
+    osc.frequency.setValueAtTime(140, at);
+    osc.frequency.exponentialRampToValueAtTime(45, at + 0.12);
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0.9, at);
+    env.gain.exponentialRampToValueAtTime(0.001, at + 0.3);
+    osc.connect(env);
+    env.connect(master);
+    osc.start(at);
+    osc.stop(at + 0.3);
+  };
+
+  const noiseHit = (at: number, filterType: BiquadFilterType, frequency: number, length: number, level: number) => {
+    const source = ctx.createBufferSource();
+    source.buffer = noise;
+    const filter = ctx.createBiquadFilter();
+    filter.type = filterType;
+    filter.frequency.value = frequency;
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(level, at);
+    env.gain.exponentialRampToValueAtTime(0.001, at + length);
+    source.connect(filter);
+    filter.connect(env);
+    env.connect(master);
+    source.start(at, Math.random() * 0.5); // a different slice of noise for every hit
+    source.stop(at + length);
+  };
+
+  for (let b = 0; b < recipe.bars; b++) {
+    const start = b * bar;
+    const chord = recipe.progression[b % recipe.progression.length];
+
+    if (recipe.pad) {
+      chord.forEach((interval, i) => tone(recipe.pad!, recipe.root + 12 + interval, start, bar, 0.07, (i % 2 ? 0.3 : -0.3), recipe.padCutoff));
+    }
+    if (recipe.arp) {
+      for (let step = 0; step < 8; step++) {
+        const interval = chord[step % chord.length] + (step >= 4 ? 12 : 0);
+        tone(recipe.arp, recipe.root + 24 + interval, start + step * eighth, eighth * 0.8, 0.035, step % 2 ? 0.4 : -0.4, 3500);
+      }
+    }
+    recipe.bass.forEach(pos => tone('triangle', recipe.root - 12 + chord[0], start + pos * eighth, eighth * 1.6, 0.3, 0, 600));
+    recipe.kick.forEach(pos => kick(start + pos * eighth));
+    recipe.snare.forEach(pos => noiseHit(start + pos * eighth, 'bandpass', 1800, 0.18, 0.35));
+    recipe.hat.forEach(pos => noiseHit(start + pos * eighth, 'highpass', 8000, 0.05, 0.15));
+  }
+
+  // Natural ending: a final hit and the tonic chord decaying
+  const end = recipe.bars * bar;
+  const tonic = recipe.progression[0];
+  tonic.forEach((interval, i) => tone(recipe.pad || 'triangle', recipe.root + 12 + interval, end, bar * ENDING_BARS * 0.8, 0.08, (i % 2 ? 0.3 : -0.3), recipe.padCutoff));
+  tone('triangle', recipe.root - 12 + tonic[0], end, bar, 0.3, 0, 600);
+  if (recipe.kick.length > 0) kick(end);
+  if (recipe.hat.length > 0) noiseHit(end, 'highpass', 6000, 1.2, 0.2);
+
+  return ctx.startRendering();
+};
+
+const rendered = new Map<string, Promise<AudioBuffer>>();
+
+// Renders a built-in track once per session; later calls share the same buffer
+export const renderBuiltinTrack = (id: string): Promise<AudioBuffer> => {
+  const track = BUILTIN_TRACKS.find(t => t.id === id);
+  if (!track) return Promise.reject(new Error('La pista ya no está disponible en la biblioteca.'));
+
+  let buffer = rendered.get(id);
+  if (!buffer) {
+    buffer = renderRecipe(track.recipe);
+    buffer.catch(() => rendered.delete(id));
+    rendered.set(id, buffer);
+  }
+  return buffer;
+};
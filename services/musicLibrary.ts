@@ -0,0 +1,63 @@
+import { MusicEnergy, MusicTrack, StoredMusicTrack } from '../types';
+import { MUSIC_MOODS } from '../constants';
+import { MUSIC_STORE, withStore } from './db';
+import { decodeAudioFile } from './audioUtils';
+import { BUILTIN_TRACKS, renderBuiltinTrack } from './musicGenerator';
+
+export interface LoadedTrack {
+  buffer: AudioBuffer;
+  file: File | null; // user tracks keep their file so projects stay self-contained; built-ins are regenerated
+}
+
+const ENERGY_RANK: Record<MusicEnergy, number> = { low: 0, medium: 1, high: 2 };
+
+export const listUserTracks = async (): Promise<StoredMusicTrack[]> => {
+  const tracks = await withStore<StoredMusicTrack[]>(MUSIC_STORE, 'readonly', store => store.getAll());
+  return tracks.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveUserTrack = async (track: StoredMusicTrack): Promise<void> => {
+  await withStore(MUSIC_STORE, 'readwrite', store => store.put(track));
+};
+
+export const deleteUserTrack = async (id: string): Promise<void> => {
+  await withStore(MUSIC_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Built-ins first, then the user's own tracks
+export const listMusicTracks = async (): Promise<MusicTrack[]> => [...BUILTIN_TRACKS, ...await listUserTracks()];
+
+export const loadTrackAudio = async (track: MusicTrack): Promise<LoadedTrack> => {
+  if (track.builtin) return { buffer: await renderBuiltinTrack(track.id), file: null };
+
+  const stored = await withStore<StoredMusicTrack | undefined>(MUSIC_STORE, 'readonly', store => store.get(track.id));
+  if (!stored) throw new Error('La pista ya no está en la biblioteca.');
+  const file = new File([stored.data], stored.fileName, { type: stored.data.type });
+  return { buffer: await decodeAudioFile(await file.arrayBuffer()), file };
+};
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Library moods mentioned in the free-text mood of the analysis ("Energetic and festive", "Cálido")
+export const detectMoods = (mood: string): string[] => {
+  const text = normalize(mood);
+  return MUSIC_MOODS.filter(m => m.keywords.some(keyword => text.includes(keyword))).map(m => m.id);
+};
+
+// Best track for the detected mood: most shared moods, then the more energetic one (promos lean
+// upbeat). Without any recognizable mood the first medium-energy track is a safe default.
+export const suggestTrack = (mood: string | undefined, tracks: MusicTrack[]): MusicTrack | null => {
+  const moods = detectMoods(mood || '');
+  let best: MusicTrack | null = null;
+  let bestScore = -1;
+
+  for (const track of tracks) {
+    if (moods.length === 0 && track.energy !== 'medium') continue;
+    const score = track.moods.filter(m => moods.includes(m)).length * 10 + ENERGY_RANK[track.energy];
+    if (score > bestScore) {
+      best = track;
+      bestScore = score;
+    }
+  }
+  return best || tracks[0] || null;
+};
@@ -0,0 +1,122 @@
+import { AIProvider, AnalysisResult, BrandBrief, ImageAnalysis, RewriteOptions, ScriptFormat } from "../types";
+import { getAISettings } from "./aiSettings";
+import { arrayBufferToBase64 } from "./fileUtils";
+import { RetryingService } from "./retryingService";
+import { buildAnalysisPrompt, buildRewritePrompt, parseAnalysisResponse } from "./prompts";
+
+// Gemini prebuilt voices (VOICES[].geminiName) mapped onto the standard OpenAI speech voices
+const VOICE_MAP: Record<string, string> = {
+  Fenrir: 'onyx',
+  Kore: 'nova',
+  Puck: 'echo',
+  Aoede: 'shimmer',
+  Zephyr: 'alloy',
+  Charon: 'fable',
+};
+
+const ANALYSIS_JSON_KEYS = `
+      Use exactly these JSON keys: "headline" (string), "brandColors" (array of hex strings),
+      "mood" (string), "detectedProducts" (array of strings), "script" (string),
+      "regions" (array of objects with "image" as a number, "kind", "label" and "box" as four numbers).
+    `;
+
+// Adapter for any server that speaks the OpenAI REST API (OpenAI itself, LocalAI, vLLM, Ollama, ...)
+export class OpenAICompatibleService extends RetryingService implements AIProvider {
+  readonly id = 'openai-compatible';
+  readonly name = 'Servidor compatible con OpenAI';
+
+  // baseUrl is e.g. https://api.openai.com/v1 or http://localhost:8080/v1; the key is optional for local servers
+  private get config() {
+    return this.getSettings().openai;
+  }
+
+  // Same model name on two servers can be two different voices
+  get speechModel(): string {
+    return `${this.config.baseUrl}|${this.config.ttsModel}`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.baseUrl;
+  }
+
+  async testConnection(): Promise<void> {
+    if (!this.config.baseUrl) throw new Error("OpenAI-compatible server URL missing");
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/models`, { headers });
+    if (!response.ok) throw Object.assign(new Error(`${response.status} ${response.statusText}`), { status: response.status });
+  }
+
+  // POSTs to the server and throws errors carrying the HTTP status, so withRetry can spot 429/5xx
+  private async post(path: string, body: unknown): Promise<Response> {
+    if (!this.config.baseUrl) throw new Error("OpenAI-compatible server URL missing");
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) headers.Authorization = `Bearer ${this.config.apiKey}`;
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/+$/, '')}${path}`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let message = `${response.status} ${response.statusText}`;
+      try {
+        const data = await response.json();
+        message = data?.error?.message || message;
+      } catch (e) { /* non-JSON error body */ }
+      throw Object.assign(new Error(message), { status: response.status });
+    }
+    return response;
+  }
+
+  private async chat(model: string, content: unknown, jsonMode: boolean): Promise<string> {
+    const response = await this.withRetry(() => this.post('/chat/completions', {
+      model,
+      messages: [{ role: 'user', content }],
+      ...(jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    }));
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || "";
+  }
+
+  async analyzeImages(files: File[], duration: number = 15, format: ScriptFormat = 'monologue', brand?: BrandBrief | null): Promise<ImageAnalysis> {
+    const images = await Promise.all(files.map(async file => ({
+      type: 'image_url',
+      image_url: { url: `data:${file.type};base64,${arrayBufferToBase64(await file.arrayBuffer())}` },
+    })));
+
+    const text = await this.chat(this.config.analysisModel, [
+      { type: 'text', text: buildAnalysisPrompt(duration, format, brand, files.length) + ANALYSIS_JSON_KEYS },
+      ...images,
+    ], true);
+
+    return parseAnalysisResponse(text, files.length);
+  }
+
+  async rewriteScript(analysis: AnalysisResult, duration: number, options?: RewriteOptions): Promise<string> {
+    const text = await this.chat(this.config.rewriteModel, buildRewritePrompt(analysis, duration, options), false);
+    return text.trim();
+  }
+
+  async generateSpeech(text: string, voiceName: string, styleInstruction: string = "Speak naturally."): Promise<ArrayBuffer> {
+    // response_format "pcm" is raw 16-bit mono 24 kHz, the same as Gemini TTS
+    const response = await this.withRetry(() => this.post('/audio/speech', {
+      model: this.config.ttsModel,
+      input: text,
+      voice: VOICE_MAP[voiceName] || 'alloy',
+      response_format: 'pcm',
+      ...(styleInstruction !== "Speak naturally." ? { instructions: styleInstruction } : {}),
+    }));
+
+    const audio = await response.arrayBuffer();
+    if (audio.byteLength === 0) {
+      throw new Error("Failed to generate speech audio. Empty response from API.");
+    }
+    return audio;
+  }
+}
+
+export const openAICompatibleService = new OpenAICompatibleService(getAISettings);
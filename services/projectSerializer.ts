@@ -0,0 +1,291 @@
+import { FocusRegion, ProjectAsset, ProjectSettings, SfxClip, SfxSound, Slide, SpotProject, SpotState, VoiceAsset } from '../types';
+import { DEFAULT_END_CARD, DEFAULT_MIX_SETTINGS, DEFAULT_MUSIC_EDIT, LOUDNESS_TARGETS } from '../constants';
+import { audioBufferToPcm, decodeAudioFile, pcmToAudioBuffer } from './audioUtils';
+import { renderBuiltinTrack } from './musicGenerator';
+import { BUILTIN_SFX, renderBuiltinSfx } from './sfxGenerator';
+import { syncActiveVariant } from './scriptVariants';
+import { createSlide } from './slideshow';
+import { DEFAULT_DIALOGUE_GAP } from './speechSynthesis';
+import { arrayBufferToBase64, base64ToArrayBuffer } from './fileUtils';
+
+export const PROJECT_FORMAT_VERSION = 2; // 2: slideshows, images in assets.slides
+const PROJECT_FILE_FORMAT = 'spotmaker-project';
+export const PROJECT_FILE_EXTENSION = 'spotmaker';
+
+const THUMBNAIL_SIZE = 160;
+
+// Small JPEG preview for the project list
+const createThumbnail = async (image: Blob): Promise<string | null> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (e) {
+    return null;
+  }
+};
+
+const toAsset = (file: File | null): ProjectAsset | null =>
+  file ? { name: file.name, type: file.type, data: file } : null;
+
+const fromAsset = (asset: ProjectAsset): File => new File([asset.data], asset.name, { type: asset.type });
+
+const toVoiceAsset = (buffer: AudioBuffer | null): VoiceAsset | null =>
+  buffer ? { sampleRate: buffer.sampleRate, pcm: audioBufferToPcm(buffer) } : null;
+
+// Sounds used by the effect clips. Built-in effects are generated again, uploaded ones come from the assets.
+const restoreSfxSounds = async (clips: SfxClip[], assets: Record<string, ProjectAsset>): Promise<Record<string, SfxSound>> => {
+  const sounds: Record<string, SfxSound> = {};
+  for (const soundId of new Set(clips.map(clip => clip.soundId))) {
+    const builtin = BUILTIN_SFX.find(sfx => sfx.id === soundId);
+    const asset = assets[soundId];
+    try {
+      if (builtin) {
+        sounds[soundId] = { name: builtin.name, buffer: await renderBuiltinSfx(soundId), file: null };
+      } else if (asset) {
+        const file = new File([asset.data], asset.name, { type: asset.type });
+        sounds[soundId] = { name: asset.name, buffer: await decodeAudioFile(await file.arrayBuffer()), file };
+      }
+    } catch (e) {
+      console.error(`Effect sound could not be restored: ${soundId}`, e);
+    }
+  }
+  return sounds;
+};
+
+// Snapshot of the current spot as a project record
+export const serializeProject = async (
+  state: SpotState,
+  meta: { id: string; name: string; createdAt: number }
+): Promise<SpotProject> => {
+  const variants = syncActiveVariant(state);
+  const settings: ProjectSettings = {
+    analysisData: state.analysisData,
+    script: state.script,
+    voiceProfile: state.voiceProfile,
+    voiceStyle: state.voiceStyle,
+    scriptFormat: state.scriptFormat,
+    speakerVoices: state.speakerVoices,
+    dialogueGap: state.dialogueGap,
+    jointDialogue: state.jointDialogue,
+    fitDuration: state.fitDuration,
+    musicVolume: state.musicVolume,
+    musicTrackId: state.musicTrackId,
+    musicEdit: state.musicEdit,
+    sfxClips: state.sfxClips,
+    mixSettings: state.mixSettings,
+    loudnessTarget: state.loudnessTarget,
+    musicFileName: state.musicFileName,
+    duration: state.duration,
+    outputPreset: state.outputPreset,
+    captionOverride: state.captionOverride,
+    variants: variants.map(({ audioBuffer, ...variant }) => variant),
+    activeVariantId: state.activeVariantId,
+    scriptHistory: state.scriptHistory,
+    brandKitId: state.brandKitId,
+    endCard: state.endCard,
+    motionTemplateId: state.motionTemplateId,
+    slides: state.slides.map(({ image, imageUrl, ...slide }) => slide),
+  };
+
+  // The active variant's take is already stored as the main voice
+  const variantVoices: Record<string, VoiceAsset> = {};
+  variants.forEach(variant => {
+    const voice = variant.id !== state.activeVariantId && toVoiceAsset(variant.audioBuffer);
+    if (voice) variantVoices[variant.id] = voice;
+  });
+
+  // Only uploaded sounds that a clip still uses
+  const sfxAssets: Record<string, ProjectAsset> = {};
+  state.sfxClips.forEach(clip => {
+    const asset = toAsset(state.sfxSounds[clip.soundId]?.file || null);
+    if (asset) sfxAssets[clip.soundId] = asset;
+  });
+
+  const slideAssets: Record<string, ProjectAsset> = {};
+  state.slides.forEach(slide => {
+    slideAssets[slide.id] = { name: slide.image.name, type: slide.image.type, data: slide.image };
+  });
+
+  return {
+    version: PROJECT_FORMAT_VERSION,
+    ...meta,
+    updatedAt: Date.now(),
+    thumbnail: state.slides.length > 0 ? await createThumbnail(state.slides[0].image) : null,
+    settings,
+    assets: {
+      image: null,
+      slides: slideAssets,
+      music: toAsset(state.musicFile),
+      voice: toVoiceAsset(state.audioBuffer),
+      variantVoices,
+      sfx: sfxAssets,
+    },
+  };
+};
+
+// Rebuilds the spot state from a project, decoding the stored assets
+export const restoreProject = async (project: SpotProject): Promise<Partial<SpotState>> => {
+  const { settings, assets } = project;
+
+  // Projects from before slideshows have a single image, with its regions kept in the analysis
+  const legacyRegions: FocusRegion[] = (settings.analysisData as { regions?: FocusRegion[] } | null)?.regions || [];
+  const slides: Slide[] = settings.slides
+    ? settings.slides.flatMap(slide => {
+        const asset = assets.slides?.[slide.id];
+        if (!asset) return [];
+        const image = fromAsset(asset);
+        return [{ ...slide, image, imageUrl: URL.createObjectURL(image) }];
+      })
+    : assets.image ? [createSlide(fromAsset(assets.image), legacyRegions)] : [];
+  const musicFile = assets.music ? fromAsset(assets.music) : null;
+  const musicTrackId = settings.musicTrackId ?? null;
+  // Built-in library tracks are not stored with the project; they are generated again
+  const musicBuffer = musicFile
+    ? await decodeAudioFile(await musicFile.arrayBuffer())
+    : musicTrackId?.startsWith('builtin:') ? await renderBuiltinTrack(musicTrackId).catch(() => null) : null;
+  const audioBuffer = assets.voice ? pcmToAudioBuffer(assets.voice.pcm, assets.voice.sampleRate) : null;
+  const sfxClips = settings.sfxClips || [];
+  const sfxSounds = await restoreSfxSounds(sfxClips, assets.sfx || {});
+  const activeVariantId = settings.activeVariantId ?? null;
+  const variants = (settings.variants || []).map(variant => {
+    const voice = assets.variantVoices?.[variant.id];
+    return {
+      ...variant,
+      audioBuffer: variant.id === activeVariantId ? audioBuffer : voice ? pcmToAudioBuffer(voice.pcm, voice.sampleRate) : null,
+    };
+  });
+
+  return {
+    ...settings,
+    variants,
+    activeVariantId,
+    scriptHistory: settings.scriptHistory || [],
+    brandKitId: settings.brandKitId ?? null,
+    endCard: { ...DEFAULT_END_CARD, ...settings.endCard },
+    motionTemplateId: settings.motionTemplateId ?? null,
+    scriptFormat: settings.scriptFormat || 'monologue',
+    speakerVoices: settings.speakerVoices || {},
+    dialogueGap: settings.dialogueGap ?? DEFAULT_DIALOGUE_GAP,
+    jointDialogue: settings.jointDialogue ?? false,
+    fitDuration: settings.fitDuration ?? true,
+    mixSettings: { ...DEFAULT_MIX_SETTINGS, ...settings.mixSettings },
+    loudnessTarget: settings.loudnessTarget || LOUDNESS_TARGETS[0].id,
+    sfxClips,
+    sfxSounds,
+    slides,
+    musicFile,
+    musicBuffer,
+    musicTrackId: musicBuffer ? musicTrackId : null,
+    musicEdit: musicBuffer ? { ...DEFAULT_MUSIC_EDIT, loop: settings.musicLoop ?? null, ...settings.musicEdit } : DEFAULT_MUSIC_EDIT,
+    musicFileName: musicBuffer ? settings.musicFileName : null,
+    audioBuffer,
+    voiceUrl: null,
+    isAnalyzing: false,
+    isGeneratingVoice: false,
+    isRewriting: false,
+  };
+};
+
+// --- Portable single-file format (JSON with base64 assets) ---
+
+interface PortableAsset {
+  name: string;
+  type: string;
+  data: string;
+}
+
+interface PortableVoice {
+  sampleRate: number;
+  pcm: string;
+}
+
+interface PortableProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  project: Omit<SpotProject, 'assets'>;
+  assets: {
+    image: PortableAsset | null;
+    slides?: Record<string, PortableAsset>;
+    music: PortableAsset | null;
+    voice: PortableVoice | null;
+    variantVoices?: Record<string, PortableVoice>;
+    sfx?: Record<string, PortableAsset>;
+  };
+}
+
+const encodeAsset = async (asset: ProjectAsset | null): Promise<PortableAsset | null> =>
+  asset ? { name: asset.name, type: asset.type, data: arrayBufferToBase64(await asset.data.arrayBuffer()) } : null;
+
+const decodeAsset = (asset: PortableAsset | null): ProjectAsset | null =>
+  asset ? { name: asset.name, type: asset.type, data: new Blob([base64ToArrayBuffer(asset.data)], { type: asset.type }) } : null;
+
+const encodeVoice = (voice: VoiceAsset): PortableVoice =>
+  ({ sampleRate: voice.sampleRate, pcm: arrayBufferToBase64(voice.pcm) });
+
+const decodeVoice = (voice: PortableVoice): VoiceAsset =>
+  ({ sampleRate: voice.sampleRate, pcm: base64ToArrayBuffer(voice.pcm) });
+
+// Applies a codec to every entry of an optional id -> voice map
+const mapVoices = <A, B>(voices: Record<string, A> | undefined, codec: (voice: A) => B): Record<string, B> =>
+  Object.fromEntries(Object.entries(voices || {}).map(([id, voice]) => [id, codec(voice)]));
+
+export const exportProjectFile = async (project: SpotProject): Promise<Blob> => {
+  const { assets, ...rest } = project;
+  const file: PortableProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    project: rest,
+    assets: {
+      image: await encodeAsset(assets.image),
+      slides: Object.fromEntries(await Promise.all(
+        Object.entries(assets.slides || {}).map(async ([id, asset]) => [id, await encodeAsset(asset)] as const)
+      )),
+      music: await encodeAsset(assets.music),
+      voice: assets.voice ? encodeVoice(assets.voice) : null,
+      variantVoices: mapVoices(assets.variantVoices, encodeVoice),
+      sfx: Object.fromEntries(await Promise.all(
+        Object.entries(assets.sfx || {}).map(async ([id, asset]) => [id, await encodeAsset(asset)] as const)
+      )),
+    },
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+// Reads a portable project file. The imported project gets a fresh id so it never overwrites a local one.
+export const importProjectFile = async (file: File): Promise<SpotProject> => {
+  let parsed: PortableProjectFile;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error('El archivo no es un proyecto válido de SpotMaker.');
+  }
+  if (parsed?.format !== PROJECT_FILE_FORMAT || !parsed.project) {
+    throw new Error('El archivo no es un proyecto válido de SpotMaker.');
+  }
+  if (parsed.version > PROJECT_FORMAT_VERSION) {
+    throw new Error('Este proyecto fue creado con una versión más reciente de SpotMaker.');
+  }
+
+  const now = Date.now();
+  return {
+    ...parsed.project,
+    version: PROJECT_FORMAT_VERSION,
+    id: crypto.randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    assets: {
+      image: decodeAsset(parsed.assets.image),
+      slides: Object.fromEntries(Object.entries(parsed.assets.slides || {}).map(([id, asset]) => [id, decodeAsset(asset)])),
+      music: decodeAsset(parsed.assets.music),
+      voice: parsed.assets.voice ? decodeVoice(parsed.assets.voice) : null,
+      variantVoices: mapVoices(parsed.assets.variantVoices, decodeVoice),
+      sfx: Object.fromEntries(Object.entries(parsed.assets.sfx || {}).map(([id, asset]) => [id, decodeAsset(asset)])),
+    },
+  };
+};
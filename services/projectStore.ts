@@ -0,0 +1,32 @@
+import { ProjectSummary, SpotProject } from '../types';
+import { PROJECT_STORE, withStore } from './db';
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await withStore<SpotProject[]>(PROJECT_STORE, 'readonly', store => store.getAll());
+  return projects
+    .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = async (id: string): Promise<SpotProject | null> => {
+  const project = await withStore<SpotProject | undefined>(PROJECT_STORE, 'readonly', store => store.get(id));
+  return project || null;
+};
+
+export const saveProject = async (project: SpotProject): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECT_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const duplicateProject = async (id: string): Promise<SpotProject> => {
+  const original = await getProject(id);
+  if (!original) throw new Error('El proyecto ya no existe.');
+
+  const now = Date.now();
+  const copy: SpotProject = { ...original, id: crypto.randomUUID(), name: `${original.name} (copia)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
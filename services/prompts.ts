@@ -0,0 +1,105 @@
+import { AnalysisResult, BrandBrief, ImageAnalysis, RewriteOptions, ScriptFormat } from '../types';
+import { parseFocusRegions } from './framing';
+
+// Prompts shared by every AI provider, so switching providers does not change the creative brief
+
+// Speaker tags are parsed by services/dialogue.ts; names matching a voice in VOICES get that voice
+const DIALOGUE_INSTRUCTIONS = `
+      - Write it as a dialogue between two people (for example CARLOS and SOFIA).
+        Put each turn on its own line, starting with the speaker's name in capitals and a colon:
+        CARLOS: ¿Ya viste las ofertas?
+        SOFIA: ¡Claro!`;
+
+// Saved client details the copy must respect; legal lines are read aloud, so they count towards the length
+const buildBrandInstructions = (brand?: BrandBrief | null) => {
+  if (!brand) return '';
+  const lines = [`\n      - The advertiser is "${brand.name}".`];
+  if (brand.tagline.trim()) lines.push(`- Close the spot with the brand tagline, word for word: "${brand.tagline.trim()}"`);
+  if (brand.disclaimers.length > 0) {
+    lines.push(`- Include these mandatory legal lines word for word at the very end, after the tagline:`);
+    brand.disclaimers.forEach(line => lines.push(`  "${line}"`));
+  }
+  return lines.join('\n      ');
+};
+
+// Several images are the slides of one spot, shown in the order they were sent
+const buildSlideshowInstructions = (imageCount: number) => `
+      The ${imageCount} images are the slides of a single spot, shown one after another in the order given.
+      Analyze them together as one campaign.`;
+
+const SLIDESHOW_SCRIPT_INSTRUCTIONS = `
+         - Walk through the slides in order: talk about what each slide shows while it is on screen,
+           naming its product or offer as printed so the slide changes line up with the voice.`;
+
+export const buildAnalysisPrompt = (duration: number, format: ScriptFormat = 'monologue', brand?: BrandBrief | null, imageCount: number = 1) => `
+      Act as an expert advertising creative director for the Mexican market. 
+      ${imageCount > 1 ? buildSlideshowInstructions(imageCount) : 'Analyze this image (flyer, banner, or product photo).'}
+      
+      1. Identify the main Headline, colors (hex codes), mood, and key products.
+      2. Write a highly engaging, ${duration}-second radio/video spot script in Mexican Spanish.
+         - The script should be catchy, professional, and drive sales.
+         - Do not include scene directions like [Music starts], just the spoken text.
+         - Use local Mexican nuance if appropriate for the visual context.
+         - IMPORTANT: The length of the text must correspond to approximately ${duration} seconds of speaking time.${imageCount > 1 ? SLIDESHOW_SCRIPT_INSTRUCTIONS : ''}${format === 'dialogue' ? DIALOGUE_INSTRUCTIONS : ''}${buildBrandInstructions(brand)}
+      3. Locate on ${imageCount > 1 ? 'each image' : 'the image'} the headline, the main price (if there is one) and each product you listed.
+         Return them as "regions", each with "image" (1-based number of the image it is on), "kind"
+         ("headline", "price" or "product"), "label" (the headline or price as printed, or the product name
+         exactly as in detectedProducts) and "box" as [ymin, xmin, ymax, xmax] normalized to 0-1000.
+      
+      Return the response in JSON format.
+    `;
+
+// Used by the duration fitting loop: adjust the current copy rather than starting over
+const buildFitInstructions = (script: string, spokenSeconds: number, duration: number) => `
+      - Do not start from scratch. This is the current script, which takes ${spokenSeconds.toFixed(1)} seconds when read aloud:
+        """${script}"""
+        ${spokenSeconds > duration ? 'Trim' : 'Expand'} it to ${duration} seconds (about ${Math.round(Math.abs(spokenSeconds - duration) / spokenSeconds * 100)}% ${spokenSeconds > duration ? 'shorter' : 'longer'}).
+        Keep its message, tone, offers, call to action and format; change as little as possible.`;
+
+export const buildRewritePrompt = (
+  analysis: AnalysisResult,
+  duration: number,
+  { angleInstruction, format = 'monologue', fitFrom, brand }: RewriteOptions = {}
+) => `
+      Act as an expert copywriter for the Mexican market.
+      Based on the following analysis of a product/image:
+      - Headline: ${analysis.headline}
+      - Products: ${analysis.detectedProducts.join(', ')}
+      - Mood: ${analysis.mood}
+
+      Write a new advertising script in Mexican Spanish that fits exactly ${duration} seconds when read aloud.
+      - Make it punchy, persuasive, and natural.
+      ${angleInstruction ? `- Creative angle: ${angleInstruction}` : ''}${format === 'dialogue' ? DIALOGUE_INSTRUCTIONS : ''}${buildBrandInstructions(brand)}
+      ${fitFrom ? buildFitInstructions(fitFrom.script, fitFrom.spokenSeconds, duration) : ''}
+      - Return ONLY the raw script text. No JSON, no markdown, no labels like "Script:".
+    `;
+
+// Parses the JSON analysis returned by a model, falling back to a generic result if it is malformed
+export const parseAnalysisResponse = (text: string | undefined, imageCount: number = 1): ImageAnalysis => {
+  // Clean any potential markdown wrapping which can sometimes occur
+  const jsonText = text ? text.replace(/```json|```/g, "").trim() : "{}";
+  let data;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (e) {
+    console.error("Failed to parse JSON response:", jsonText);
+    data = {
+       headline: "Oferta Especial",
+       brandColors: ["#ffffff"],
+       mood: "Energetic",
+       detectedProducts: [],
+       script: "No se pudo generar el guion automáticamente."
+    };
+  }
+
+  return {
+    analysis: {
+      headline: data.headline || "Promo",
+      brandColors: data.brandColors || [],
+      mood: data.mood || "Neutral",
+      detectedProducts: data.detectedProducts || [],
+    },
+    script: data.script || "",
+    regions: parseFocusRegions(data.regions, imageCount),
+  };
+};
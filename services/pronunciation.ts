@@ -0,0 +1,45 @@
+import { PronunciationEntry, PronunciationSettings } from '../types';
+import { DEFAULT_PRONUNCIATION_SETTINGS } from '../constants';
+import { normalizeMexicanSpanish } from './speechNormalizer';
+
+const PRONUNCIATION_STORAGE_KEY = 'spotmaker.pronunciation';
+
+const loadSettings = (): PronunciationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRONUNCIATION_STORAGE_KEY) || 'null');
+    return stored ? { ...DEFAULT_PRONUNCIATION_SETTINGS, ...stored } : DEFAULT_PRONUNCIATION_SETTINGS;
+  } catch (e) {
+    return DEFAULT_PRONUNCIATION_SETTINGS;
+  }
+};
+
+let currentSettings = loadSettings();
+
+export const getPronunciationSettings = (): PronunciationSettings => currentSettings;
+
+export const savePronunciationSettings = (settings: PronunciationSettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(PRONUNCIATION_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist the pronunciation lexicon", e);
+  }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word replacements, longest terms first so "Col. Roma" wins over "Col."
+export const applyLexicon = (text: string, entries: PronunciationEntry[]): string =>
+  entries
+    .filter(entry => entry.term.trim() && entry.spoken.trim())
+    .sort((a, b) => b.term.length - a.term.length)
+    .reduce((result, entry) => {
+      const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.term.trim())}(?![\\p{L}\\p{N}])`, entry.caseSensitive ? 'gu' : 'giu');
+      return result.replace(pattern, () => entry.spoken.trim());
+    }, text);
+
+// Text as it is sent to the voice: the lexicon first, so an entry can override an automatic reading
+export const prepareSpeechText = (text: string, settings: PronunciationSettings = getPronunciationSettings()): string => {
+  const spoken = applyLexicon(text, settings.entries);
+  return settings.normalizeNumbers ? normalizeMexicanSpanish(spoken) : spoken;
+};
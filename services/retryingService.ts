@@ -0,0 +1,69 @@
+import { AISettings } from "../types";
+
+// Base class for AI providers that talk to rate-limited HTTP APIs
+export abstract class RetryingService {
+  // Settings are read on every call so changes in the settings panel apply immediately
+  constructor(protected getSettings: () => AISettings) {}
+
+  // Until when every call must hold off after a 429. Shared across calls so that parallel
+  // requests (e.g. batch mode) back off together instead of hammering the quota.
+  private rateLimitedUntil = 0;
+
+  private async waitForRateLimit() {
+    const wait = this.rateLimitedUntil - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+  }
+
+  // Retry wrapper for API calls to handle 429 (Rate Limit) and 5xx (Server) errors
+  protected async withRetry<T>(
+    operation: () => Promise<T>,
+    retries = this.getSettings().retries,
+    initialDelay = this.getSettings().retryDelayMs
+  ): Promise<T> {
+    let lastError: any;
+    
+    for (let i = 0; i < retries; i++) {
+      try {
+        await this.waitForRateLimit();
+        return await operation();
+      } catch (error: any) {
+        lastError = error;
+        
+        // Extract status from various potential locations in the error object structure
+        // Checks: top level, inside 'error', inside 'response', etc.
+        const status = 
+            error?.status || 
+            error?.code || 
+            error?.error?.code || 
+            error?.error?.status ||
+            error?.response?.status;
+        
+        // Safely extract message for detection
+        let message = "Unknown error";
+        try {
+            message = error?.message || error?.error?.message || (typeof error === 'object' ? JSON.stringify(error) : String(error));
+        } catch (e) {
+            message = "Non-serializable error object";
+        }
+        
+        const isRateLimit = status === 429 || message.includes('429') || message.includes('quota') || message.includes('RESOURCE_EXHAUSTED');
+        const isServerError = (status >= 500 && status < 600) || message.includes('Internal error') || message.includes('INTERNAL');
+        
+        if ((isRateLimit || isServerError) && i < retries - 1) {
+          // Exponential backoff with longer delays: 5s, 10s, 20s, 40s, 80s... (with the default 5s)
+          const delay = initialDelay * Math.pow(2, i); 
+          console.warn(`API Error (${status || 'Unknown'}). Retrying in ${delay/1000}s... (Attempt ${i + 1}/${retries})`, message);
+          if (isRateLimit) {
+            this.rateLimitedUntil = Math.max(this.rateLimitedUntil, Date.now() + delay);
+          } else {
+            await new Promise(resolve => setTimeout(resolve, delay));
+          }
+          continue;
+        }
+        
+        throw error;
+      }
+    }
+    throw lastError;
+  }
+}
@@ -0,0 +1,59 @@
+import { ScriptVersion, ScriptVersionSource } from '../types';
+import { splitWords } from './captions';
+
+const MAX_VERSIONS = 100;
+
+// Appends a version unless the script is empty or unchanged since the latest one.
+// The oldest versions are dropped past the cap.
+export const addScriptVersion = (
+  history: ScriptVersion[],
+  script: string,
+  source: ScriptVersionSource
+): ScriptVersion[] => {
+  if (!script.trim() || history[history.length - 1]?.script === script) return history;
+  const version: ScriptVersion = { id: crypto.randomUUID(), script, source, createdAt: Date.now() };
+  return [...history, version].slice(-MAX_VERSIONS);
+};
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff (longest common subsequence). Scripts are a few hundred words at most,
+// so the quadratic table is cheap.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = splitWords(before);
+  const b = splitWords(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
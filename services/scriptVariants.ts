@@ -0,0 +1,38 @@
+import { AnalysisResult, BrandBrief, ScriptFormat, ScriptVariant, SpotState } from '../types';
+import { SCRIPT_ANGLES } from '../constants';
+import { getAIProvider } from './aiProvider';
+
+export const createVariant = (angle: string, script: string, audioBuffer: AudioBuffer | null = null): ScriptVariant => ({
+  id: crypto.randomUUID(),
+  angle,
+  script,
+  audioBuffer,
+  starred: false,
+});
+
+// The active variant's script and voice live in state.script / state.audioBuffer while it is being
+// edited; this writes them back so the variant list is up to date before switching or saving.
+export const syncActiveVariant = (
+  state: Pick<SpotState, 'variants' | 'activeVariantId' | 'script' | 'audioBuffer'>
+): ScriptVariant[] =>
+  state.variants.map(v => (
+    v.id === state.activeVariantId ? { ...v, script: state.script, audioBuffer: state.audioBuffer } : v
+  ));
+
+// One rewrite per angle, run one after another so a rate-limit cooldown applies to the rest of the run.
+// Variants are reported as they arrive, so a failure halfway keeps the ones already written.
+export const generateScriptVariants = async (
+  analysis: AnalysisResult,
+  duration: number,
+  angleIds: string[],
+  format: ScriptFormat,
+  brand: BrandBrief | null,
+  onVariant: (variant: ScriptVariant) => void
+): Promise<void> => {
+  for (const id of angleIds) {
+    const angle = SCRIPT_ANGLES.find(a => a.id === id);
+    if (!angle) continue;
+    const script = await getAIProvider().rewriteScript(analysis, duration, { angleInstruction: angle.instruction || undefined, format, brand });
+    onVariant(createVariant(angle.id, script));
+  }
+};
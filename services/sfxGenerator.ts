@@ -0,0 +1,193 @@
+// Built-in sound effects, synthesized in the browser like the built-in music beds: original,
+// royalty-free and without shipping audio files.
+
+const SAMPLE_RATE = 44100;
+
+type Synth = (ctx: OfflineAudioContext, noise: AudioBuffer, out: AudioNode) => void;
+
+interface BuiltinSfx {
+  id: string;
+  name: string;
+  duration: number;
+  synth: Synth;
+}
+
+const midiToHz = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Decaying sine partial, the building block of bells and chimes
+const partial = (ctx: OfflineAudioContext, out: AudioNode, frequency: number, at: number, level: number, decay: number, type: OscillatorType = 'sine') => {
+  const osc = ctx.createOscillator();
+  osc.type = type;
+  osc.frequency.value = frequency;
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(0, at);
+  env.gain.linearRampToValueAtTime(level, at + 0.005);
+  env.gain.exponentialRampToValueAtTime(0.0001, at + decay);
+  osc.connect(env);
+  env.connect(out);
+  osc.start(at);
+  osc.stop(at + decay);
+};
+
+// Filtered noise burst
+const noiseBurst = (
+  ctx: OfflineAudioContext, noise: AudioBuffer, out: AudioNode,
+  at: number, length: number, filterType: BiquadFilterType, frequency: number, level: number
+) => {
+  const source = ctx.createBufferSource();
+  source.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = filterType;
+  filter.frequency.value = frequency;
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(level, at);
+  env.gain.exponentialRampToValueAtTime(0.0001, at + length);
+  source.connect(filter);
+  filter.connect(env);
+  env.connect(out);
+  source.start(at);
+  source.stop(at + length);
+};
+
+const whoosh: Synth = (ctx, noise, out) => {
+  const source = ctx.createBufferSource();
+  source.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'bandpass';
+  filter.Q.value = 1.5;
+  filter.frequency.setValueAtTime(300, 0);
+  filter.frequency.exponentialRampToValueAtTime(3500, 0.45);
+  filter.frequency.exponentialRampToValueAtTime(500, 0.8);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(0.0001, 0);
+  env.gain.exponentialRampToValueAtTime(1, 0.42);
+  env.gain.exponentialRampToValueAtTime(0.0001, 0.8);
+  const panner = ctx.createStereoPanner();
+  panner.pan.setValueAtTime(-0.8, 0);
+  panner.pan.linearRampToValueAtTime(0.8, 0.8);
+  source.connect(filter);
+  filter.connect(env);
+  env.connect(panner);
+  panner.connect(out);
+  source.start(0);
+  source.stop(0.8);
+};
+
+// Cash register: the drawer's mechanical clack, then the bell
+const ding: Synth = (ctx, noise, out) => {
+  noiseBurst(ctx, noise, out, 0, 0.04, 'highpass', 2500, 0.6);
+  noiseBurst(ctx, noise, out, 0.05, 0.06, 'bandpass', 1200, 0.5);
+  [1, 2.76, 5.4].forEach((ratio, i) => partial(ctx, out, 1568 * ratio, 0.09, 0.3 / (i + 1), 1.1 - i * 0.3));
+};
+
+const pop: Synth = (ctx, _noise, out) => {
+  const osc = ctx.createOscillator();
+  osc.frequency.setValueAtTime(900, 0);
+  osc.frequency.exponentialRampToValueAtTime(180, 0.08);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(0.8, 0);
+  env.gain.exponentialRampToValueAtTime(0.0001, 0.15);
+  osc.connect(env);
+  env.connect(out);
+  osc.start(0);
+  osc.stop(0.15);
+};
+
+const riser: Synth = (ctx, noise, out) => {
+  const length = 2;
+  const osc = ctx.createOscillator();
+  osc.type = 'sawtooth';
+  osc.frequency.setValueAtTime(150, 0);
+  osc.frequency.exponentialRampToValueAtTime(1200, length);
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(400, 0);
+  filter.frequency.exponentialRampToValueAtTime(6000, length);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(0.0001, 0);
+  env.gain.exponentialRampToValueAtTime(0.25, length - 0.02);
+  env.gain.linearRampToValueAtTime(0, length);
+  osc.connect(filter);
+  filter.connect(env);
+  env.connect(out);
+  osc.start(0);
+  osc.stop(length);
+
+  const air = ctx.createBufferSource();
+  air.buffer = noise;
+  air.loop = true;
+  const airFilter = ctx.createBiquadFilter();
+  airFilter.type = 'highpass';
+  airFilter.frequency.setValueAtTime(1000, 0);
+  airFilter.frequency.exponentialRampToValueAtTime(8000, length);
+  const airEnv = ctx.createGain();
+  airEnv.gain.setValueAtTime(0.0001, 0);
+  airEnv.gain.exponentialRampToValueAtTime(0.3, length - 0.02);
+  airEnv.gain.linearRampToValueAtTime(0, length);
+  air.connect(airFilter);
+  airFilter.connect(airEnv);
+  airEnv.connect(out);
+  air.start(0);
+  air.stop(length);
+};
+
+const impact: Synth = (ctx, noise, out) => {
+  const osc = ctx.createOscillator();
+  osc.frequency.setValueAtTime(110, 0);
+  osc.frequency.exponentialRampToValueAtTime(32, 0.4);
+  const env = ctx.createGain();
+  env.gain.setValueAtTime(1, 0);
+  env.gain.exponentialRampToValueAtTime(0.0001, 1.4);
+  osc.connect(env);
+  env.connect(out);
+  osc.start(0);
+  osc.stop(1.4);
+  noiseBurst(ctx, noise, out, 0, 0.6, 'lowpass', 900, 0.7);
+};
+
+// Short logo jingle: a rising arpeggio landing on a ringing major chord with a sparkle on top
+const sting: Synth = (ctx, _noise, out) => {
+  const root = 72;
+  [0, 4, 7, 12].forEach((interval, i) => partial(ctx, out, midiToHz(root + interval), i * 0.11, 0.25, 0.5, 'triangle'));
+  [0, 4, 7, 12, 16].forEach(interval => partial(ctx, out, midiToHz(root + interval), 0.44, 0.12, 2, 'triangle'));
+  partial(ctx, out, midiToHz(root + 36), 0.44, 0.06, 1.2);
+  partial(ctx, out, midiToHz(root + 31), 0.5, 0.05, 1);
+};
+
+export const BUILTIN_SFX: BuiltinSfx[] = [
+  { id: 'builtin:whoosh', name: 'Whoosh', duration: 0.8, synth: whoosh },
+  { id: 'builtin:ding', name: 'Caja registradora', duration: 1.2, synth: ding },
+  { id: 'builtin:pop', name: 'Pop', duration: 0.2, synth: pop },
+  { id: 'builtin:riser', name: 'Subida', duration: 2, synth: riser },
+  { id: 'builtin:impact', name: 'Impacto', duration: 1.5, synth: impact },
+  { id: 'builtin:sting', name: 'Cierre de marca', duration: 2.5, synth: sting },
+];
+
+const renderSfx = async (sfx: BuiltinSfx): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, Math.ceil(SAMPLE_RATE * sfx.duration), SAMPLE_RATE);
+  const noise = ctx.createBuffer(1, SAMPLE_RATE * 2, SAMPLE_RATE);
+  const noiseData = noise.getChannelData(0);
+  for (let i = 0; i < noiseData.length; i++) noiseData[i] = Math.random() * 2 - 1;
+
+  const master = ctx.createGain();
+  master.gain.value = 0.8;
+  master.connect(ctx.destination);
+  sfx.synth(ctx, noise, master);
+  return ctx.startRendering();
+};
+
+const rendered = new Map<string, Promise<AudioBuffer>>();
+
+// Renders a built-in effect once per session; later calls share the same buffer
+export const renderBuiltinSfx = (id: string): Promise<AudioBuffer> => {
+  const sfx = BUILTIN_SFX.find(s => s.id === id);
+  if (!sfx) return Promise.reject(new Error('El efecto ya no está disponible.'));
+
+  let buffer = rendered.get(id);
+  if (!buffer) {
+    buffer = renderSfx(sfx);
+    buffer.catch(() => rendered.delete(id));
+    rendered.set(id, buffer);
+  }
+  return buffer;
+};
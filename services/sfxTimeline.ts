@@ -0,0 +1,48 @@
+import { CaptionWord, PlacedSfx, SfxAnchor, SfxClip, SfxSound } from '../types';
+
+export const createSfxClip = (soundId: string, name: string, anchor: SfxAnchor, track: number = 0): SfxClip => ({
+  id: crypto.randomUUID(),
+  soundId,
+  name,
+  track,
+  anchor,
+  offset: 0,
+  gainDb: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+});
+
+// Index of the anchored word in the current script: the stored position while the text still matches,
+// otherwise the nearest occurrence of the same word (the script was edited around it)
+export const findAnchorWord = (anchor: Extract<SfxAnchor, { type: 'word' }>, words: CaptionWord[]): number | null => {
+  if (words[anchor.index]?.text === anchor.word) return anchor.index;
+  let best: number | null = null;
+  for (let i = 0; i < words.length; i++) {
+    if (words[i].text === anchor.word && (best === null || Math.abs(i - anchor.index) < Math.abs(best - anchor.index))) best = i;
+  }
+  return best;
+};
+
+// Start of a clip in spot time, or null when its word is no longer in the script.
+// Word timings are in voice time, so they move with the music intro.
+export const resolveClipStart = (clip: SfxClip, words: CaptionWord[], voiceStart: number): number | null => {
+  if (clip.anchor.type === 'time') return clip.anchor.time + clip.offset;
+  const index = findAnchorWord(clip.anchor, words);
+  return index === null ? null : voiceStart + words[index].start + clip.offset;
+};
+
+export const placeSfxClips = (
+  clips: SfxClip[],
+  sounds: Record<string, SfxSound>,
+  words: CaptionWord[],
+  voiceStart: number
+): PlacedSfx[] => clips.flatMap(clip => {
+  const sound = sounds[clip.soundId];
+  const start = resolveClipStart(clip, words, voiceStart);
+  if (!sound || start === null) return [];
+  return [{ buffer: sound.buffer, start, gain: Math.pow(10, clip.gainDb / 20), fadeIn: clip.fadeIn, fadeOut: clip.fadeOut }];
+});
+
+// Where the last effect stops ringing; a closing sting may run past the voice and music
+export const getSfxEnd = (sfx: PlacedSfx[]): number =>
+  sfx.reduce((end, clip) => Math.max(end, clip.start + clip.buffer.duration), 0);
@@ -0,0 +1,116 @@
+import { CaptionWord, FocusRegion, Slide } from '../types';
+import { findAnchorWord } from './sfxTimeline';
+import { findMention } from './framing';
+
+// When a slide is on screen, in spot time
+export interface SlideTime {
+  start: number;
+  end: number;
+}
+
+// The object URL lives as long as the slide can be shown; see releaseSlideUrls
+export const createSlide = (image: File, regions: FocusRegion[] = []): Slide => ({
+  id: crypto.randomUUID(),
+  image,
+  imageUrl: URL.createObjectURL(image),
+  timing: { type: 'auto' },
+  regions,
+});
+
+// Revokes the object URLs of `previous` slides missing from `current`, and returns the URLs now in use.
+// Callers pass every slide that can still come back (the spot and its undo history), so removing or
+// replacing slides frees their images once nothing can bring them back.
+export const releaseSlideUrls = (previous: Set<string>, current: Slide[]): Set<string> => {
+  const live = new Set(current.map(slide => slide.imageUrl));
+  previous.forEach(url => {
+    if (!live.has(url)) URL.revokeObjectURL(url);
+  });
+  return live;
+};
+
+// Shortest time a slide stays up, so a crowded script cannot flash slides past unseen
+const MIN_SLIDE_SECONDS = 0.5;
+
+// The slide comes in just before its phrase, so the transition lands on the word
+const SLIDE_LEAD = 0.15;
+
+// Voice-time start a slide is tied to: its anchored word, or on automatic the first mention of one of
+// its regions after `from`. Null when the slide just takes its share of the time.
+const findSlideCue = (slide: Slide, words: CaptionWord[], from: number): number | null => {
+  if (slide.timing.type === 'word') {
+    const index = findAnchorWord(slide.timing, words);
+    return index === null ? null : words[index].start;
+  }
+  if (slide.timing.type === 'auto') {
+    const mentions = slide.regions.flatMap(region => {
+      const word = findMention(region.label, words, from);
+      return word ? [word.start] : [];
+    });
+    return mentions.length > 0 ? Math.min(...mentions) : null;
+  }
+  return null;
+};
+
+// Splits [0, end) between the slides, in order. The first slide opens the spot; a slide tied to a phrase
+// (or found by its regions on automatic) starts on it, as long as the order holds and every slide keeps
+// some time on screen. Between those, slides with a duration take their seconds (squeezed if they do not
+// fit) and the rest share what is left; if none is flexible the last one stays up until the next cue.
+export const resolveSlideTimes = (slides: Slide[], words: CaptionWord[], voiceStart: number, end: number): SlideTime[] => {
+  const count = slides.length;
+  if (count === 0) return [];
+  if (count * MIN_SLIDE_SECONDS >= end) {
+    return slides.map((_, i) => ({ start: end * i / count, end: end * (i + 1) / count }));
+  }
+
+  const starts: (number | null)[] = slides.map(() => null);
+  starts[0] = 0;
+  let lastIndex = 0;
+  for (let i = 1; i < count; i++) {
+    const cue = findSlideCue(slides[i], words, Math.max(0, starts[lastIndex]! - voiceStart));
+    if (cue === null) continue;
+    const start = voiceStart + cue - SLIDE_LEAD;
+    const earliest = starts[lastIndex]! + (i - lastIndex) * MIN_SLIDE_SECONDS;
+    const latest = end - (count - i) * MIN_SLIDE_SECONDS;
+    if (start < earliest || start > latest) continue;
+    starts[i] = start;
+    lastIndex = i;
+  }
+
+  const times: SlideTime[] = [];
+  let from = 0;
+  while (from < count) {
+    let to = from + 1;
+    while (to < count && starts[to] === null) to++;
+    const segmentStart = starts[from]!;
+    const segmentEnd = to < count ? starts[to]! : end;
+    const length = segmentEnd - segmentStart;
+
+    const group = slides.slice(from, to);
+    const fixed = group.map(slide => (slide.timing.type === 'duration' ? Math.max(MIN_SLIDE_SECONDS, slide.timing.seconds) : 0));
+    const flexible = fixed.filter(seconds => seconds === 0).length;
+    const fixedTotal = fixed.reduce((sum, seconds) => sum + seconds, 0);
+    const room = length - flexible * MIN_SLIDE_SECONDS;
+    const scale = fixedTotal > room ? room / fixedTotal : 1;
+    const share = flexible > 0 ? (length - fixedTotal * scale) / flexible : 0;
+
+    let at = segmentStart;
+    group.forEach((_, i) => {
+      const isLast = i === group.length - 1;
+      const seconds = fixed[i] > 0 ? fixed[i] * scale : share;
+      // Without flexible slides the last one absorbs what the durations leave free
+      const slideEnd = isLast ? segmentEnd : at + seconds;
+      times.push({ start: at, end: slideEnd });
+      at = slideEnd;
+    });
+    from = to;
+  }
+  return times;
+};
+
+// Index of the slide on screen at `time`; the last one holds to the end
+export const getSlideIndex = (times: SlideTime[], time: number): number => {
+  for (let i = times.length - 1; i > 0; i--) {
+    if (time >= times[i].start) return i;
+  }
+  return 0;
+};
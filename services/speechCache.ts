@@ -0,0 +1,107 @@
+import { SpeechCacheEntry } from '../types';
+import { SPEECH_CACHE_MAX_BYTES } from '../constants';
+import { openDatabase, SPEECH_STORE, transactionDone, withStore } from './db';
+
+export interface SpeechRequest {
+  provider: string;
+  model: string;
+  voiceName: string;
+  style: string;
+  text: string;
+}
+
+const hashRequest = async (request: SpeechRequest): Promise<string> => {
+  const { provider, model, voiceName, style, text } = request;
+  const bytes = new TextEncoder().encode(JSON.stringify([provider, model, voiceName, style, text]));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Drops the least recently used entries until the cache fits in its budget
+const evictLeastRecentlyUsed = async (maxBytes: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction(SPEECH_STORE, 'readwrite');
+  const done = transactionDone(tx);
+  const request = tx.objectStore(SPEECH_STORE).index('lastUsed').openCursor(null, 'prev');
+  let total = 0;
+  const walked = new Promise<void>((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return resolve();
+      total += (cursor.value as SpeechCacheEntry).size;
+      if (total > maxBytes) cursor.delete();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+  await Promise.all([walked, done]);
+};
+
+// Identical requests in flight share one synthesis (double clicks, batch rows with the same text)
+const pending = new Map<string, Promise<ArrayBuffer>>();
+
+const lookup = async (key: string): Promise<ArrayBuffer | null> => {
+  const entry = await withStore<SpeechCacheEntry | undefined>(SPEECH_STORE, 'readonly', store => store.get(key));
+  if (!entry) return null;
+  await withStore(SPEECH_STORE, 'readwrite', store => store.put({ ...entry, lastUsed: Date.now(), hits: entry.hits + 1 }));
+  return entry.pcm;
+};
+
+const store = async (key: string, request: SpeechRequest, pcm: ArrayBuffer) => {
+  const now = Date.now();
+  const entry: SpeechCacheEntry = {
+    key,
+    text: request.text,
+    voiceName: request.voiceName,
+    style: request.style,
+    model: request.model,
+    pcm,
+    size: pcm.byteLength,
+    createdAt: now,
+    lastUsed: now,
+    hits: 0,
+  };
+  await withStore(SPEECH_STORE, 'readwrite', s => s.put(entry));
+  await evictLeastRecentlyUsed(SPEECH_CACHE_MAX_BYTES);
+};
+
+// Stored PCM for the request, or the result of `synthesize`, which is then stored. The cache is
+// an optimization only: when IndexedDB is unavailable every call goes to the API as before.
+export const cachedSpeech = async (request: SpeechRequest, synthesize: () => Promise<ArrayBuffer>): Promise<ArrayBuffer> => {
+  const key = await hashRequest(request);
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const result = (async () => {
+    try {
+      const cached = await lookup(key);
+      if (cached) return cached;
+    } catch (e) {
+      console.warn("Speech cache lookup failed", e);
+    }
+    const pcm = await synthesize();
+    store(key, request, pcm).catch(e => console.warn("Could not cache speech", e));
+    return pcm;
+  })();
+
+  pending.set(key, result);
+  try {
+    return await result;
+  } finally {
+    pending.delete(key);
+  }
+};
+
+// Most recently used first
+export const listSpeechCache = async (): Promise<SpeechCacheEntry[]> => {
+  const entries = await withStore<SpeechCacheEntry[]>(SPEECH_STORE, 'readonly', s => s.getAll());
+  return entries.sort((a, b) => b.lastUsed - a.lastUsed);
+};
+
+export const deleteSpeechCacheEntry = async (key: string): Promise<void> => {
+  await withStore(SPEECH_STORE, 'readwrite', s => s.delete(key));
+};
+
+export const clearSpeechCache = async (): Promise<void> => {
+  await withStore(SPEECH_STORE, 'readwrite', s => s.clear());
+};
@@ -0,0 +1,116 @@
+// Spells out the written forms TTS voices stumble on, the way a Mexican announcer reads them:
+// prices, percentages, "2x1" promos, dates and phone numbers. Only the text sent to the voice
+// goes through here; the script and captions keep the written form.
+
+const UNITS = ['cero', 'uno', 'dos', 'tres', 'cuatro', 'cinco', 'seis', 'siete', 'ocho', 'nueve', 'diez',
+  'once', 'doce', 'trece', 'catorce', 'quince', 'dieciséis', 'diecisiete', 'dieciocho', 'diecinueve', 'veinte',
+  'veintiuno', 'veintidós', 'veintitrés', 'veinticuatro', 'veinticinco', 'veintiséis', 'veintisiete', 'veintiocho', 'veintinueve'];
+const TENS = ['', '', '', 'treinta', 'cuarenta', 'cincuenta', 'sesenta', 'setenta', 'ochenta', 'noventa'];
+const HUNDREDS = ['', 'ciento', 'doscientos', 'trescientos', 'cuatrocientos', 'quinientos', 'seiscientos', 'setecientos', 'ochocientos', 'novecientos'];
+
+const MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+const belowThousand = (n: number): string => {
+  if (n === 100) return 'cien';
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = hundreds > 0 ? [HUNDREDS[hundreds]] : [];
+  if (rest > 0 && rest < 30) parts.push(UNITS[rest]);
+  else if (rest >= 30) parts.push(rest % 10 === 0 ? TENS[rest / 10] : `${TENS[Math.floor(rest / 10)]} y ${UNITS[rest % 10]}`);
+  return parts.join(' ');
+};
+
+// "uno" shortens before a noun: "un peso", "veintiún mil", "treinta y un días"
+const apocope = (words: string): string => words.replace(/veintiuno$/, 'veintiún').replace(/uno$/, 'un');
+
+// Whole numbers in words, up to the billions. `beforeNoun` applies the apocope of "uno".
+export const numberToSpanish = (n: number, beforeNoun: boolean = false): string => {
+  if (!Number.isFinite(n) || n < 0 || n >= 1e12) return String(n);
+  n = Math.floor(n);
+  if (n === 0) return 'cero';
+
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor((n % 1e6) / 1000);
+  const rest = n % 1000;
+  const parts: string[] = [];
+
+  if (millions > 0) parts.push(millions === 1 ? 'un millón' : `${apocope(numberToSpanish(millions))} millones`);
+  if (thousands > 0) parts.push(thousands === 1 ? 'mil' : `${apocope(belowThousand(thousands))} mil`);
+  if (rest > 0) parts.push(beforeNoun ? apocope(belowThousand(rest)) : belowThousand(rest));
+  // "un millón de pesos": round millions take "de" before the noun
+  const words = parts.join(' ');
+  return beforeNoun && rest === 0 && thousands === 0 && millions > 0 ? `${words} de` : words;
+};
+
+const parseAmount = (digits: string) => parseInt(digits.replace(/[,.]/g, ''), 10);
+
+// Decimals read digit by digit: "5" -> " punto cinco"
+const spellDecimals = (decimals: string | undefined) =>
+  decimals ? ` punto ${decimals.split('').map(d => UNITS[parseInt(d, 10)]).join(' ')}` : '';
+
+// $1,299.90 MXN -> "mil doscientos noventa y nueve pesos con noventa centavos". A dot followed by exactly
+// three digits groups thousands, as in Chile or Argentina: $99.900 -> "noventa y nueve mil novecientos pesos".
+// With a magnitude the decimals are part of the figure: $1.5 millones -> "uno punto cinco millones de pesos"
+const CURRENCY = /\$\s?(\d{1,3}(?:,\d{3})+|\d{1,3}(?:\.\d{3})+(?!\d)|\d+)(?:\.(\d{1,2}))?(?:\s(mil|mill[oó]n|millones)(?![\p{L}]))?(?:\s?(MXN|M\.N\.|pesos?|USD|dlls?\.?|d[oó]lares))?/giu;
+const spellCurrency = (_match: string, whole: string, decimals: string | undefined, magnitude: string | undefined, unit: string | undefined) => {
+  const dollars = !!unit && /^(usd|dll|d[oó]lar)/i.test(unit);
+  const amount = parseAmount(whole);
+  const [one, many] = dollars ? ['dólar', 'dólares'] : ['peso', 'pesos'];
+  if (magnitude) {
+    const figure = decimals ? `${numberToSpanish(amount)}${spellDecimals(decimals)}` : apocope(numberToSpanish(amount));
+    const scale = /^mil$/i.test(magnitude) ? 'mil' : amount === 1 && !decimals ? 'millón de' : 'millones de';
+    return `${figure} ${scale} ${many}`;
+  }
+  const cents = decimals ? parseInt(decimals.padEnd(2, '0'), 10) : 0;
+  const words = `${numberToSpanish(amount, true)} ${amount === 1 ? one : many}`;
+  return cents > 0 ? `${words} con ${numberToSpanish(cents, true)} ${cents === 1 ? 'centavo' : 'centavos'}` : words;
+};
+
+// 30% -> "treinta por ciento", 12.5% -> "doce punto cinco por ciento"
+const PERCENT = /(\d+)(?:[.,](\d+))?\s?%/g;
+const spellPercent = (_match: string, whole: string, decimals: string | undefined) =>
+  `${numberToSpanish(parseInt(whole, 10))}${spellDecimals(decimals)} por ciento`;
+
+// 2x1 -> "dos por uno"
+const MULTI_BUY = /(?<![\p{L}\p{N}])(\d{1,2})\s?[xX×]\s?(\d{1,2})(?![\p{L}\p{N}])/gu;
+const spellMultiBuy = (_match: string, a: string, b: string) =>
+  `${numberToSpanish(parseInt(a, 10))} por ${numberToSpanish(parseInt(b, 10))}`;
+
+// Common fractions on flyers: "1/2 kilo" -> "medio kilo"
+const FRACTIONS: Record<string, string> = { '1/2': 'medio', '1/4': 'un cuarto', '3/4': 'tres cuartos' };
+
+// Words around a day/month pair that make it a date: "del 15/09 al 20/09", "válido hasta el 31-12", "vigencia: 15/09"
+const DATE_BEFORE = /(?:^|[^\p{L}])(?:del|al|hasta|desde|vigencia|vigente|v[aá]lid[oa]s?|vence|termina|fecha)(?:\s+(?:el|al|del|hasta))*\s*:?\s+$/iu;
+const DATE_AFTER = /^\s+(al|hasta)(?![\p{L}])/iu;
+
+// 15/09/2025 -> "quince de septiembre de dos mil veinticinco"; the 1st is "primero" in Mexico.
+// A pair without a year is only a date in a date context; otherwise it is a fraction ("1/2") or a
+// range ("9-5") and is left to the voice.
+const DATE = /(?<!\d)(\d{1,2})[/-](\d{1,2})(?:[/-](\d{4}|\d{2}))?(?![\d/-])/g;
+const spellDate = (match: string, day: string, month: string, year: string | undefined, offset: number, text: string) => {
+  const isDate = !!year || DATE_BEFORE.test(text.slice(0, offset)) || DATE_AFTER.test(text.slice(offset + match.length));
+  if (!isDate) return FRACTIONS[match] || match;
+  const d = parseInt(day, 10);
+  const m = parseInt(month, 10);
+  if (d < 1 || d > 31 || m < 1 || m > 12) return match;
+  const dayWords = d === 1 ? 'primero' : numberToSpanish(d);
+  const fullYear = year ? (year.length === 2 ? 2000 + parseInt(year, 10) : parseInt(year, 10)) : null;
+  return `${dayWords} de ${MONTHS[m - 1]}${fullYear ? ` de ${numberToSpanish(fullYear)}` : ''}`;
+};
+
+// Ten-digit Mexican numbers, optionally with +52: read in pairs, "cincuenta y cinco, doce, treinta y cuatro..."
+const PHONE = /(?:\+52[\s.-]?|(?<!\d))\(?\d{2,3}\)?[\s.-]?\d{3,4}[\s.-]?\d{4}(?!\d)/g;
+const spellPhone = (match: string) => {
+  const digits = match.replace(/^\+52/, '').replace(/\D/g, '');
+  if (digits.length !== 10) return match;
+  const pairs = digits.match(/\d{2}/g)!;
+  return pairs.map(pair => (pair[0] === '0' ? `cero ${UNITS[parseInt(pair[1], 10)]}` : numberToSpanish(parseInt(pair, 10)))).join(', ');
+};
+
+export const normalizeMexicanSpanish = (text: string): string =>
+  text
+    .replace(PHONE, spellPhone)
+    .replace(DATE, spellDate)
+    .replace(CURRENCY, spellCurrency)
+    .replace(PERCENT, spellPercent)
+    .replace(MULTI_BUY, spellMultiBuy);
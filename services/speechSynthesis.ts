@@ -0,0 +1,142 @@
+import { AIProvider, DialogueLine, SpotState, VoiceOption } from '../types';
+import { VOICES, VOICE_STYLES, VOICE_DEMO_TEXT } from '../constants';
+import { getAIProvider } from './aiProvider';
+import { bufferToWav, concatPcm, decodeAudioFile, pcmToAudioBuffer } from './audioUtils';
+import { getSpeakers, parseDialogue } from './dialogue';
+import { prepareSpeechText } from './pronunciation';
+import { cachedSpeech } from './speechCache';
+import { createZip } from './zipWriter';
+
+// Every provider returns 16-bit mono PCM at this rate
+const TTS_SAMPLE_RATE = 24000;
+
+export const DEFAULT_DIALOGUE_GAP = 0.35;
+
+export type VoiceSettings = Pick<SpotState, 'voiceProfile' | 'voiceStyle' | 'speakerVoices' | 'dialogueGap' | 'jointDialogue'>;
+
+const normalizeName = (name: string) => name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// Voice id for each speaker: the explicit choice, else the voice whose name matches the tag
+// ("SOFIA" -> "Sofia (Entusiasta)"), else the spot's voice for the first speaker and the
+// following entries of VOICES for the others
+export const resolveSpeakerVoices = (
+  speakers: string[],
+  speakerVoices: Record<string, string>,
+  primaryVoiceId: string
+): Record<string, string> => {
+  const primaryIndex = Math.max(0, VOICES.findIndex(v => v.id === primaryVoiceId));
+  const resolved: Record<string, string> = {};
+
+  speakers.forEach((speaker, i) => {
+    const byName = VOICES.find(v => normalizeName(v.name.split(' ')[0]) === normalizeName(speaker));
+    resolved[speaker] = speakerVoices[speaker]
+      || byName?.id
+      || VOICES[(primaryIndex + i) % VOICES.length].id;
+  });
+  return resolved;
+};
+
+export const canSynthesizeJointly = (provider: AIProvider, speakerCount: number): boolean =>
+  !!provider.generateDialogue && speakerCount >= 2 && speakerCount <= (provider.maxDialogueSpeakers || 0);
+
+const geminiVoiceName = (voiceId: string): string => {
+  const voice = VOICES.find(v => v.id === voiceId);
+  if (!voice) throw new Error("Voice not found");
+  return voice.geminiName;
+};
+
+// Single voice request through the persistent speech cache
+const speak = (provider: AIProvider, text: string, voiceName: string, style?: string): Promise<ArrayBuffer> =>
+  cachedSpeech(
+    { provider: provider.id, model: provider.speechModel, voiceName, style: style || '', text },
+    () => provider.generateSpeech(text, voiceName, style)
+  );
+
+const speakDialogue = (provider: AIProvider, lines: DialogueLine[], voiceNames: Record<string, string>, style?: string): Promise<ArrayBuffer> =>
+  cachedSpeech(
+    {
+      provider: provider.id,
+      model: provider.speechModel,
+      voiceName: Object.entries(voiceNames).map(([speaker, voice]) => `${speaker}=${voice}`).join(','),
+      style: style || '',
+      text: lines.map(line => `${line.speaker}: ${line.text}`).join('\n'),
+    },
+    () => provider.generateDialogue!(lines, voiceNames, style)
+  );
+
+// Synthesizes a script with the active provider. Dialogue scripts are voiced line by line with
+// each speaker's voice and stitched with a fixed gap, or sent as one multi-speaker request.
+// The voice gets the text through the pronunciation lexicon; the script itself is left as written.
+export const synthesizeScript = async (script: string, settings: VoiceSettings): Promise<AudioBuffer> => {
+  const provider = getAIProvider();
+  const style = VOICE_STYLES.find(s => s.id === settings.voiceStyle)?.instruction;
+  const lines = parseDialogue(script);
+
+  if (!lines) {
+    const pcm = await speak(provider, prepareSpeechText(script), geminiVoiceName(settings.voiceProfile), style);
+    return pcmToAudioBuffer(pcm, TTS_SAMPLE_RATE);
+  }
+
+  const speakers = getSpeakers(lines);
+  const voiceIds = resolveSpeakerVoices(speakers, settings.speakerVoices, settings.voiceProfile);
+  const voiceNames = Object.fromEntries(speakers.map(speaker => [speaker, geminiVoiceName(voiceIds[speaker])]));
+
+  if (settings.jointDialogue && canSynthesizeJointly(provider, speakers.length)) {
+    const spokenLines = lines.map(line => ({ ...line, text: prepareSpeechText(line.text) }));
+    const pcm = await speakDialogue(provider, spokenLines, voiceNames, style);
+    return pcmToAudioBuffer(pcm, TTS_SAMPLE_RATE);
+  }
+
+  // One line at a time, so the shared retry cooldown paces the requests
+  const chunks: ArrayBuffer[] = [];
+  for (const line of lines) {
+    chunks.push(await speak(provider, prepareSpeechText(line.text), voiceNames[line.speaker], style));
+  }
+  return pcmToAudioBuffer(concatPcm(chunks, settings.dialogueGap * TTS_SAMPLE_RATE), TTS_SAMPLE_RATE);
+};
+
+// Demos a deployment can serve from public/voice-demos, one WAV per entry of VOICES in the natural
+// style, rendered with renderVoiceDemoPack. None ship with the repo, since they need the real voices;
+// a missing file falls back to the cache and the API.
+const DEMO_STYLE = VOICE_STYLES[0];
+const hostedDemoPath = (voiceId: string) => `voice-demos/${voiceId}.wav`;
+const hostedDemos = new Map<string, Promise<AudioBuffer | null>>();
+
+// Only loaded demos stay cached; a missing file or a failed fetch is tried again on the next preview
+const loadHostedDemo = (voiceId: string): Promise<AudioBuffer | null> => {
+  let demo = hostedDemos.get(voiceId);
+  if (!demo) {
+    demo = fetch(hostedDemoPath(voiceId))
+      .then(response => (response.ok ? response.arrayBuffer().then(decodeAudioFile) : null))
+      .catch(() => null)
+      .then(buffer => {
+        if (!buffer) hostedDemos.delete(voiceId);
+        return buffer;
+      });
+    hostedDemos.set(voiceId, demo);
+  }
+  return demo;
+};
+
+export const getVoiceDemo = async (voice: VoiceOption, styleId: string): Promise<AudioBuffer> => {
+  const style = VOICE_STYLES.find(s => s.id === styleId) || DEMO_STYLE;
+  if (style.id === DEMO_STYLE.id) {
+    const hosted = await loadHostedDemo(voice.id);
+    if (hosted) return hosted;
+  }
+  const pcm = await speak(getAIProvider(), VOICE_DEMO_TEXT, voice.geminiName, style.instruction);
+  return pcmToAudioBuffer(pcm, TTS_SAMPLE_RATE);
+};
+
+// Renders every demo with the active provider and packs them for public/voice-demos.
+// Voices sharing a Gemini voice come from the cache after the first one.
+export const renderVoiceDemoPack = async (onProgress?: (done: number, total: number) => void): Promise<Blob> => {
+  const provider = getAIProvider();
+  const entries = [];
+  for (const [i, voice] of VOICES.entries()) {
+    const pcm = await speak(provider, VOICE_DEMO_TEXT, voice.geminiName, DEMO_STYLE.instruction);
+    entries.push({ path: hostedDemoPath(voice.id), data: bufferToWav(pcmToAudioBuffer(pcm, TTS_SAMPLE_RATE)) });
+    onProgress?.(i + 1, VOICES.length);
+  }
+  return createZip(entries);
+};
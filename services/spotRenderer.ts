@@ -0,0 +1,571 @@
+import { AnalysisResult, CaptionCue, FocusRegion, MotionTemplate, OutputPreset, OverlayStyle, SafeArea, SceneTransition } from '../types';
+import { END_CARD_SECONDS } from '../constants';
+import { getActiveSpotlight, getCameraRect, getSpotlights } from './framing';
+import { getSlideIndex, SlideTime } from './slideshow';
+
+// Brand kit as the renderer needs it, with the logo already decoded
+export interface BrandScene {
+  logo: HTMLImageElement | null;
+  colors: string[];
+  headlineFont: string;
+  bodyFont: string;
+  tagline: string;
+  disclaimers: string[];
+}
+
+// Closing segment as the renderer needs it, with the QR already encoded
+export interface EndCardScene {
+  start: number; // spot time at which the card comes in
+  cta: string;
+  phone: string;
+  address: string;
+  url: string;
+  qr: boolean[][] | null;
+}
+
+// A slide as the renderer needs it, with its image decoded and its time on screen resolved
+export interface SlideScene extends SlideTime {
+  image: HTMLImageElement;
+  regions: FocusRegion[];
+}
+
+// Everything drawSpotFrame needs to paint a frame. Kept free of React state so the
+// live preview and the offline video export render exactly the same pixels.
+export interface SpotScene {
+  slides: SlideScene[];
+  analysis: AnalysisResult | null;
+  captions: CaptionCue[];
+  highlightWords: boolean; // karaoke-style highlight of the word being spoken
+  duration: number; // timeline length in seconds
+  voiceStart: number; // where the voice comes in; captions are timed from here
+  safeArea: SafeArea;
+  brand: BrandScene | null;
+  endCard: EndCardScene | null;
+  motion: MotionTemplate;
+  beats: number[]; // music beats in spot time, in order; empty when the music has no known tempo
+}
+
+const HIGHLIGHT_COLOR = '#facc15';
+// How long the last caption stays up after its final word
+const CAPTION_HOLD_SECONDS = 1;
+
+// The caption screen on air at `time`: the latest one that has started, held until the next begins
+const getActiveCue = (captions: CaptionCue[], time: number): CaptionCue | null => {
+  if (captions.length === 0) return null;
+  let active = captions[0];
+  for (const cue of captions) {
+    if (cue.start > time) break;
+    active = cue;
+  }
+  if (active === captions[captions.length - 1] && time > active.end + CAPTION_HOLD_SECONDS) return null;
+  return active;
+};
+
+// Layout constants were tuned on the original 1280x720 canvas; everything is scaled from there.
+const REFERENCE_HEIGHT = 720;
+
+// Size of a preset when rendered with the given short side (video encoders want even dimensions)
+export const getPresetSize = (preset: OutputPreset, shortSide: number) => {
+  const factor = shortSide / Math.min(preset.width, preset.height);
+  const even = (value: number) => Math.round(value * factor / 2) * 2;
+  return { width: even(preset.width), height: even(preset.height) };
+};
+
+// Draws the frame at `time` seconds of the spot timeline.
+export const drawSpotFrame = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  time: number,
+  scene: SpotScene
+) => {
+  const { slides, analysis, captions, safeArea, brand, motion } = scene;
+  const unit = Math.min(width, height) / REFERENCE_HEIGHT;
+
+  // Safe-area box in pixels; all text stays inside it
+  const safeLeft = width * safeArea.left;
+  const safeRight = width * (1 - safeArea.right);
+  const safeTop = height * safeArea.top;
+  const safeBottom = height * (1 - safeArea.bottom);
+  const safeWidth = safeRight - safeLeft;
+  const centerX = safeLeft + safeWidth / 2;
+
+  // Clear
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (slides.length === 0) return;
+
+  const duration = scene.duration > 0 ? scene.duration : 10;
+  const progress = Math.min(Math.max(time / duration, 0), 1);
+
+  // The closing card: its own segment after the voice when configured, otherwise a kit's brand card
+  // over the last seconds (very short spots keep the flyer on screen instead)
+  const cardStart = scene.endCard
+    ? scene.endCard.start
+    : brand && duration > END_CARD_SECONDS * 2 ? duration - END_CARD_SECONDS : null;
+
+  // SLIDES
+  // Each slide comes in over the previous one with the template's transition; the last one
+  // stays up until the end card covers it
+  const index = getSlideIndex(slides, time);
+  const slideEnd = (i: number) => (i === slides.length - 1 ? cardStart ?? duration : slides[i].end);
+  const slideReveal = index > 0 ? clamp01((time - slides[index].start) / SLIDE_TRANSITION_SECONDS) : 1;
+  if (slideReveal < 1) {
+    drawSlide(ctx, width, height, time, slides[index - 1], slideEnd(index - 1), scene);
+    revealWith(ctx, width, height, motion.transition, slideReveal, () => drawSlide(ctx, width, height, time, slides[index], slideEnd(index), scene));
+  } else {
+    drawSlide(ctx, width, height, time, slides[index], slideEnd(index), scene);
+  }
+
+  // A kit's palette and fonts replace what the analysis guessed from the flyer
+  const primaryColor = brand?.colors[0] || analysis?.brandColors?.[0] || '#ffffff';
+  const headlineFont = fontStack(brand?.headlineFont);
+  const bodyFont = fontStack(brand?.bodyFont);
+
+  // OVERLAY
+  // Keeps the text readable over busy flyers
+  drawOverlay(ctx, width, height, motion.overlay, primaryColor);
+
+  // Logo bug in the top-right corner of the safe area, until the card takes over
+  if (brand?.logo && (cardStart === null || time < cardStart)) {
+    const box = fitInside(brand.logo, safeWidth * 0.18, 64 * unit);
+    ctx.save();
+    ctx.globalAlpha = Math.min(progress * 4, 0.9);
+    ctx.drawImage(brand.logo, safeRight - box.width - 12 * unit, safeTop + 12 * unit, box.width, box.height);
+    ctx.restore();
+  }
+
+  // TEXT ANIMATIONS
+  if (analysis) {
+    ctx.save();
+    // Dynamic Captioning logic
+    ctx.textAlign = 'center';
+
+    // Headline, brought in the template's way
+    ctx.font = `bold ${Math.round(32 * unit)}px ${headlineFont}`;
+    ctx.fillStyle = primaryColor;
+    ctx.shadowColor = 'rgba(0,0,0,0.8)';
+    ctx.shadowBlur = 10 * unit;
+    const headline = analysis.headline.substring(0, 30) + (analysis.headline.length > 30 ? '...' : '');
+    drawHeadline(ctx, headline, motion, time, progress, centerX, safeTop + 44 * unit, safeWidth, unit);
+
+    // Script Captions, timed to the voice
+    const voiceTime = time - scene.voiceStart;
+    const cue = getActiveCue(captions, voiceTime);
+
+    if (cue) {
+      ctx.font = `500 ${Math.round(24 * unit)}px ${bodyFont}`;
+      ctx.globalAlpha = 1;
+
+      // Wrap text inside the safe area, anchored to its bottom edge
+      const lineHeight = 35 * unit;
+      const lines = wrapLines(ctx, cue.words.map(w => w.text), safeWidth);
+      const firstY = safeBottom - 50 * unit - (lines.length - 1) * lineHeight;
+      const spaceWidth = ctx.measureText(' ').width;
+
+      // Each caption screen comes in the template's way, around the middle of its lines
+      animateCaption(ctx, motion, voiceTime - cue.start, centerX, firstY + (lines.length - 1) * lineHeight / 2, unit);
+
+      // Drawn word by word so the one being spoken can be highlighted
+      ctx.textAlign = 'left';
+      let wordIndex = 0;
+      lines.forEach((line, i) => {
+        const lineWidth = ctx.measureText(line.join(' ')).width;
+        let x = centerX - lineWidth / 2;
+        line.forEach(text => {
+          const word = cue.words[wordIndex++];
+          const isSpoken = scene.highlightWords && voiceTime >= word.start && voiceTime < word.end;
+          ctx.fillStyle = isSpoken ? HIGHLIGHT_COLOR : '#ffffff';
+          ctx.fillText(text, x, firstY + i * lineHeight);
+          x += ctx.measureText(text).width + spaceWidth;
+        });
+      });
+    }
+    ctx.restore();
+  }
+
+  if (cardStart !== null && time >= cardStart) drawEndCard(ctx, width, height, time - cardStart, scene, unit);
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+const clamp01 = (value: number) => clamp(value, 0, 1);
+const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+// Overshoots a little before settling, for elements that pop in
+const easeOutBack = (t: number) => 1 + 2.70158 * Math.pow(t - 1, 3) + 1.70158 * Math.pow(t - 1, 2);
+
+const PUNCH_SECONDS = 0.35;
+const SLIDE_TRANSITION_SECONDS = 0.5;
+
+// A slide through the camera: the template's move runs over the slide's own time on screen,
+// framed on its regions and pulled onto one while the voice mentions it
+const drawSlide = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  time: number,
+  slide: SlideScene,
+  end: number,
+  scene: SpotScene
+) => {
+  const { image, regions } = slide;
+  const progress = clamp01((time - slide.start) / Math.max(end - slide.start, 0.001));
+  const spotlight = getActiveSpotlight(getSpotlights(regions, scene.captions, slide.start - scene.voiceStart), time - scene.voiceStart);
+  const punch = getPunch(time, scene);
+  const camera = getCameraRect(image.width, image.height, width / height, scene.motion, progress, regions, spotlight, punch);
+
+  ctx.drawImage(
+    image,
+    camera.x, camera.y, camera.width, camera.height,
+    0, 0, width, height
+  );
+};
+
+// Paints `draw` over what is already on the canvas, `reveal` (0..1) of the way in with the transition.
+// A flash cuts straight to it and burns off instead.
+const revealWith = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  transition: SceneTransition,
+  reveal: number,
+  draw: () => void
+) => {
+  ctx.save();
+  if (transition === 'fade') {
+    ctx.globalAlpha = reveal;
+  } else if (transition === 'wipe' || transition === 'iris') {
+    ctx.beginPath();
+    if (transition === 'wipe') ctx.rect(0, 0, width * easeOut(reveal), height);
+    else ctx.arc(width / 2, height / 2, Math.hypot(width, height) / 2 * easeOut(reveal), 0, Math.PI * 2);
+    ctx.clip();
+  }
+  draw();
+  ctx.restore();
+
+  if (transition === 'flash' && reveal < 1) {
+    ctx.save();
+    ctx.globalAlpha = (1 - reveal) * 0.9;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.restore();
+  }
+};
+
+// Extra zoom kicked in on each music beat, settling back before the next one. Music without a known
+// tempo (or no music) punches when a caption screen comes up instead.
+const getPunch = (time: number, { beats, captions, voiceStart, motion }: SpotScene) => {
+  const amount = motion.punchZoom;
+  if (amount <= 0) return 0;
+  let since = -1;
+  if (beats.length > 0) {
+    for (let i = beats.length - 1; i >= 0 && since < 0; i--) {
+      if (beats[i] <= time) since = time - beats[i];
+    }
+  } else {
+    const cue = getActiveCue(captions, time - voiceStart);
+    if (cue) since = time - voiceStart - cue.start;
+  }
+  return since >= 0 && since < PUNCH_SECONDS ? amount * Math.pow(1 - since / PUNCH_SECONDS, 2) : 0;
+};
+
+const drawOverlay = (ctx: CanvasRenderingContext2D, width: number, height: number, style: OverlayStyle, tint: string) => {
+  switch (style) {
+    case 'dark':
+      ctx.fillStyle = 'rgba(0,0,0,0.3)';
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'gradient': {
+      // Darker where the headline and captions sit, the flyer left clear in between
+      const gradient = ctx.createLinearGradient(0, 0, 0, height);
+      gradient.addColorStop(0, 'rgba(0,0,0,0.5)');
+      gradient.addColorStop(0.3, 'rgba(0,0,0,0.1)');
+      gradient.addColorStop(0.6, 'rgba(0,0,0,0.15)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0.75)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case 'vignette': {
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.3, width / 2, height / 2, Math.hypot(width, height) / 2);
+      gradient.addColorStop(0, 'rgba(0,0,0,0.1)');
+      gradient.addColorStop(1, 'rgba(0,0,0,0.75)');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case 'tint':
+      ctx.save();
+      ctx.globalAlpha = 0.28;
+      ctx.fillStyle = tint;
+      ctx.fillRect(0, 0, width, height);
+      ctx.restore();
+      ctx.fillStyle = 'rgba(0,0,0,0.2)';
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'none':
+      break;
+  }
+};
+
+// Headline centered at (x, y); font, color and shadow are already set
+const drawHeadline = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  motion: MotionTemplate,
+  time: number,
+  progress: number,
+  x: number,
+  y: number,
+  maxWidth: number,
+  unit: number
+) => {
+  switch (motion.headline) {
+    case 'drop':
+      // Falls in over the first tenth of the spot while it slowly fades up
+      ctx.globalAlpha = Math.min(progress * 2, 1);
+      ctx.fillText(text, x, y + (progress < 0.1 ? (1 - progress / 0.1) * -50 : 0) * unit, maxWidth);
+      break;
+    case 'fade':
+      ctx.globalAlpha = clamp01(time / 1.2);
+      ctx.fillText(text, x, y, maxWidth);
+      break;
+    case 'pop': {
+      const t = clamp01(time / 0.5);
+      ctx.save();
+      ctx.globalAlpha = clamp01(t * 3);
+      ctx.translate(x, y);
+      ctx.scale(Math.max(easeOutBack(t), 0.01), Math.max(easeOutBack(t), 0.01));
+      ctx.fillText(text, 0, 0, maxWidth);
+      ctx.restore();
+      break;
+    }
+    case 'slide': {
+      const t = easeOut(clamp01(time / 0.6));
+      ctx.globalAlpha = t;
+      ctx.fillText(text, x - (1 - t) * maxWidth, y, maxWidth);
+      break;
+    }
+    case 'typewriter': {
+      // Laid out for the whole line so letters appear in place instead of re-centering
+      const shown = text.substring(0, Math.floor(text.length * clamp01(time / 1.5)));
+      const fullWidth = ctx.measureText(text).width;
+      const squeeze = Math.min(1, maxWidth / fullWidth);
+      ctx.save();
+      ctx.textAlign = 'left';
+      if (shown) ctx.fillText(shown, x - fullWidth * squeeze / 2, y, ctx.measureText(shown).width * squeeze);
+      ctx.restore();
+      break;
+    }
+  }
+};
+
+// Transforms the context for a caption screen `age` seconds after it came up, around (x, y)
+const animateCaption = (ctx: CanvasRenderingContext2D, motion: MotionTemplate, age: number, x: number, y: number, unit: number) => {
+  const t = clamp01(age / 0.25);
+  switch (motion.caption) {
+    case 'cut':
+      break;
+    case 'fade':
+      ctx.globalAlpha = t;
+      break;
+    case 'pop': {
+      const scale = 0.85 + 0.15 * easeOutBack(t);
+      ctx.globalAlpha = clamp01(t * 3);
+      ctx.translate(x, y);
+      ctx.scale(scale, scale);
+      ctx.translate(-x, -y);
+      break;
+    }
+    case 'rise':
+      ctx.globalAlpha = easeOut(t);
+      ctx.translate(0, (1 - easeOut(t)) * 20 * unit);
+      break;
+  }
+};
+
+const fontStack = (family?: string) => (family && family !== 'Inter' ? `"${family}", Inter, sans-serif` : 'Inter');
+
+// Largest size of the image that fits in the box without distortion
+const fitInside = (image: HTMLImageElement, maxWidth: number, maxHeight: number) => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  return { width: image.width * scale, height: image.height * scale };
+};
+
+// Dark text on light brand colors, white otherwise (relative luminance of a #rrggbb color)
+const textColorOn = (hex: string) => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return '#ffffff';
+  const [r, g, b] = match.slice(1).map(c => parseInt(c, 16) / 255);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.6 ? '#0f172a' : '#ffffff';
+};
+
+// Entrance timing of the card: the background fades in, then each element follows the previous one
+const CARD_FADE_SECONDS = 0.5;
+const CARD_STAGGER_SECONDS = 0.15;
+const CARD_ENTRANCE_SECONDS = 0.5;
+const QR_QUIET_ZONE = 4; // modules of white around the code, as scanners expect
+
+interface CardBlock {
+  height: number;
+  draw: (top: number, appear: number) => void;
+}
+
+// Dark modules on a white square with the quiet zone; sized to whole pixels per module so it scans off a screen
+const drawQr = (ctx: CanvasRenderingContext2D, qr: boolean[][], centerX: number, top: number, maxSize: number, scale: number) => {
+  const cells = qr.length + QR_QUIET_ZONE * 2;
+  const module = Math.max(1, Math.floor(maxSize / cells));
+  const size = module * cells;
+  const origin = -Math.round(size / 2);
+  ctx.save();
+  ctx.translate(Math.round(centerX), Math.round(top + maxSize / 2));
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(origin, origin, size, size);
+  ctx.fillStyle = '#000000';
+  qr.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) ctx.fillRect(origin + (x + QR_QUIET_ZONE) * module, origin + (y + QR_QUIET_ZONE) * module, module, module);
+  }));
+  ctx.restore();
+};
+
+// Closing card `elapsed` seconds after it comes in: brand background, logo, tagline, call to action,
+// contact details and QR, with the legal lines at the bottom
+const drawEndCard = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  elapsed: number,
+  scene: SpotScene,
+  unit: number
+) => {
+  const { brand, endCard, analysis, safeArea } = scene;
+  const safeLeft = width * safeArea.left;
+  const safeWidth = width * (1 - safeArea.left - safeArea.right);
+  const safeTop = height * safeArea.top;
+  const safeHeight = height * (1 - safeArea.top - safeArea.bottom);
+  const colors = brand?.colors.length ? brand.colors : analysis?.brandColors || [];
+  const background = colors[0] || '#0f172a';
+  const textColor = textColorOn(background);
+  const headlineFont = fontStack(brand?.headlineFont);
+  const bodyFont = fontStack(brand?.bodyFont);
+
+  // The background comes in with the template's transition
+  const reveal = clamp01(elapsed / CARD_FADE_SECONDS);
+  revealWith(ctx, width, height, scene.motion.transition, reveal, () => {
+    const gradient = ctx.createLinearGradient(0, 0, 0, height);
+    gradient.addColorStop(0, background);
+    gradient.addColorStop(1, colors[1] || background);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  });
+
+  // Landscape frames put the QR in a column of its own to the right; portrait ones stack it under the text
+  const qr = endCard?.qr || null;
+  const sideQr = !!qr && width > height;
+  const columnWidth = sideQr ? safeWidth * 0.6 : safeWidth;
+  const columnX = safeLeft + columnWidth / 2;
+
+  // Legal lines are laid out first so everything else centers in the space above them
+  ctx.font = `${Math.round(13 * unit)}px ${bodyFont}`;
+  const legalLineHeight = 18 * unit;
+  const legalLines = (brand?.disclaimers || []).flatMap(text => wrapLines(ctx, text.split(/\s+/), safeWidth).map(words => words.join(' ')));
+  const areaHeight = safeHeight - (legalLines.length > 0 ? legalLines.length * legalLineHeight + 16 * unit : 0);
+
+  const textBlock = (text: string, size: number, font: string, alpha: number = 1): CardBlock => ({
+    height: size * 1.25 * unit,
+    draw: top => {
+      ctx.globalAlpha *= alpha;
+      ctx.font = font.replace('{size}', `${Math.round(size * unit)}px`);
+      ctx.fillStyle = textColor;
+      ctx.fillText(text, columnX, top, columnWidth);
+    },
+  });
+
+  const blocks: CardBlock[] = [];
+  const logo = brand?.logo;
+  if (logo) {
+    const box = fitInside(logo, columnWidth * 0.6, areaHeight * (qr && !sideQr ? 0.18 : 0.3));
+    blocks.push({
+      height: box.height,
+      draw: (top, appear) => {
+        const scale = 0.6 + 0.4 * easeOutBack(appear);
+        ctx.drawImage(logo, columnX - box.width * scale / 2, top + box.height * (1 - scale) / 2, box.width * scale, box.height * scale);
+      },
+    });
+  }
+  if (brand?.tagline) blocks.push(textBlock(brand.tagline, 30, `bold {size} ${headlineFont}`));
+  if (endCard?.cta) blocks.push(textBlock(endCard.cta, 36, `bold {size} ${headlineFont}`));
+  if (endCard?.phone) blocks.push(textBlock(endCard.phone, 28, `600 {size} ${bodyFont}`));
+  if (endCard?.address) blocks.push(textBlock(endCard.address, 18, `{size} ${bodyFont}`, 0.85));
+
+  // The QR pops in last, with the link under it for anyone who would rather type it
+  const label = endCard?.url.replace(/^https?:\/\//i, '').replace(/\/$/, '') || '';
+  const labelHeight = label ? 24 * unit : 0;
+  const qrSize = sideQr ? Math.min(safeWidth * 0.3, areaHeight * 0.6) : Math.min(safeWidth * 0.42, areaHeight * 0.3);
+  const qrBlock: CardBlock | null = !qr ? null : {
+    height: qrSize + labelHeight,
+    draw: (top, appear) => {
+      const centerX = sideQr ? safeLeft + safeWidth * 0.8 : columnX;
+      drawQr(ctx, qr, centerX, top, qrSize, Math.max(easeOutBack(appear), 0.01));
+      if (!label) return;
+      ctx.font = `${Math.round(14 * unit)}px ${bodyFont}`;
+      ctx.fillStyle = textColor;
+      ctx.fillText(label, centerX, top + qrSize + 8 * unit, sideQr ? safeWidth * 0.38 : safeWidth);
+    },
+  };
+
+  const gap = 16 * unit;
+  const placeColumn = (column: CardBlock[]) => {
+    const total = column.reduce((sum, block) => sum + block.height, 0) + gap * Math.max(column.length - 1, 0);
+    let top = safeTop + Math.max((areaHeight - total) / 2, 0);
+    return column.map(block => {
+      const placed = { block, top };
+      top += block.height + gap;
+      return placed;
+    });
+  };
+  const placed = sideQr && qrBlock
+    ? [...placeColumn(blocks), ...placeColumn([qrBlock])]
+    : placeColumn(qrBlock ? [...blocks, qrBlock] : blocks);
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  placed.forEach(({ block, top }, i) => {
+    const appear = clamp01((elapsed - CARD_FADE_SECONDS * 0.6 - i * CARD_STAGGER_SECONDS) / CARD_ENTRANCE_SECONDS);
+    if (appear <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = easeOut(appear);
+    block.draw(top + (1 - easeOut(appear)) * 24 * unit, appear);
+    ctx.restore();
+  });
+
+  if (legalLines.length > 0) {
+    ctx.font = `${Math.round(13 * unit)}px ${bodyFont}`;
+    ctx.fillStyle = textColor;
+    ctx.textBaseline = 'alphabetic';
+    ctx.globalAlpha = reveal * 0.85;
+    const firstY = safeTop + safeHeight - 10 * unit - (legalLines.length - 1) * legalLineHeight;
+    legalLines.forEach((line, i) => ctx.fillText(line, safeLeft + safeWidth / 2, firstY + i * legalLineHeight));
+  }
+  ctx.restore();
+};
+
+// Greedy word wrap; a single word wider than maxWidth keeps its own line
+const wrapLines = (ctx: CanvasRenderingContext2D, words: string[], maxWidth: number): string[][] => {
+  const lines: string[][] = [];
+  let line: string[] = [];
+
+  for (let n = 0; n < words.length; n++) {
+    const testWidth = ctx.measureText([...line, words[n]].join(' ')).width;
+    if (testWidth > maxWidth && line.length > 0) {
+      lines.push(line);
+      line = [words[n]];
+    } else {
+      line.push(words[n]);
+    }
+  }
+  if (line.length > 0) lines.push(line);
+  return lines;
+};
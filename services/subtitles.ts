@@ -0,0 +1,115 @@
+import { CaptionCue, CaptionWord } from '../types';
+import { buildCaptionCues, CueLimits, estimateCaptionWords } from './captions';
+
+// Broadcast-style subtitle limits: two lines of up to 42 characters
+const MAX_LINE_CHARS = 42;
+const SUBTITLE_CUE_LIMITS: CueLimits = { maxWords: 16, maxChars: MAX_LINE_CHARS * 2 };
+const MIN_CUE_SECONDS = 1;
+const MAX_CUE_SECONDS = 7;
+const MIN_CUE_GAP = 0.04; // keep consecutive cues from touching
+
+// Spanish function words that read badly at the end of a subtitle line
+const WEAK_LINE_ENDINGS = new Set([
+  'a', 'al', 'con', 'de', 'del', 'el', 'en', 'la', 'las', 'lo', 'los', 'mi', 'no', 'o', 'para',
+  'por', 'que', 'se', 'su', 'sus', 'te', 'tu', 'un', 'una', 'y', 'e', 'u', 'ni', 'sin', 'tan',
+]);
+
+// Re-chunks timed words into subtitle cues and enforces reading-time limits
+export const buildSubtitleCues = (words: CaptionWord[]): CaptionCue[] => {
+  const cues = buildCaptionCues(words, SUBTITLE_CUE_LIMITS);
+
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    let end = Math.max(cue.end, cue.start + MIN_CUE_SECONDS);
+    end = Math.min(end, cue.start + MAX_CUE_SECONDS);
+    if (next) end = Math.min(end, next.start - MIN_CUE_GAP);
+    return { ...cue, end: Math.max(end, cue.start + MIN_CUE_GAP) };
+  });
+};
+
+// Splits a cue's text into at most two balanced lines, avoiding a weak word at the end of line one
+export const splitSubtitleLines = (text: string): string[] => {
+  if (text.length <= MAX_LINE_CHARS) return [text];
+
+  const words = text.split(' ');
+  let best = -1;
+  let bestScore = Infinity;
+
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(' ');
+    const second = words.slice(i).join(' ');
+    if (first.length > MAX_LINE_CHARS || second.length > MAX_LINE_CHARS) continue;
+
+    let score = Math.abs(first.length - second.length);
+    if (WEAK_LINE_ENDINGS.has(words[i - 1].toLowerCase())) score += 20;
+    if (/[.,;:!?]$/.test(words[i - 1])) score -= 10;
+    if (score < bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+
+  // Nothing fits in two lines: fall back to an even split
+  if (best < 0) best = Math.ceil(words.length / 2);
+  return [words.slice(0, best).join(' '), words.slice(best).join(' ')];
+};
+
+const pad = (value: number, length: number) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+const cueText = (cue: CaptionCue) => splitSubtitleLines(cue.words.map(w => w.text).join(' ')).join('\n');
+
+export const formatSrt = (cues: CaptionCue[]): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cueText(cue)}\n`)
+    .join('\n');
+
+export const formatVtt = (cues: CaptionCue[]): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cueText(cue)}\n`)
+    .join('\n');
+
+// Accepts "hh:mm:ss,mmm", "hh:mm:ss.mmm" and the short WebVTT "mm:ss.mmm"
+const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/);
+  if (!match) throw new Error(`Marca de tiempo inválida: "${value}"`);
+  const [, h, m, s, ms] = match;
+  return (parseInt(h || '0', 10) * 3600) + (parseInt(m, 10) * 60) + parseInt(s, 10) + parseInt(ms.padEnd(3, '0'), 10) / 1000;
+};
+
+// Parses an SRT or WebVTT file into caption cues. Word timings inside each cue are estimated,
+// so imported subtitles still drive the karaoke highlight.
+export const parseSubtitles = (content: string): CaptionCue[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: CaptionCue[] = [];
+  blocks.forEach(block => {
+    const lines = block.split('\n').filter(line => line.trim() !== '');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0) return; // header, NOTE, STYLE or numbering-only block
+
+    const [startText, endText] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText.trim().split(/\s+/)[0]); // drop WebVTT cue settings
+
+    // Strip inline markup such as <i>, <b> or <v Speaker>
+    const text = lines.slice(timingIndex + 1).join(' ').replace(/<[^>]+>/g, '').trim();
+    if (!text || end <= start) return;
+
+    cues.push({ start, end, words: estimateCaptionWords(text, end - start, start) });
+  });
+
+  if (cues.length === 0) throw new Error('El archivo no contiene subtítulos válidos (SRT o WebVTT).');
+  return cues.sort((a, b) => a.start - b.start);
+};
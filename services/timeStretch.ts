@@ -0,0 +1,65 @@
+// Pitch-preserving time stretch (WSOLA: waveform-similarity overlap-add) for the mono voice track.
+// Each output frame is copied from near its nominal input position, shifted to the offset whose
+// waveform best continues the previous frame, so speech keeps its pitch and stays click-free.
+
+const FRAME_SECONDS = 0.04;
+const SEARCH_SECONDS = 0.012;
+const SEARCH_STEP = 2; // candidate offsets and correlation samples are decimated for speed
+
+const hann = (length: number): Float32Array => {
+  const window = new Float32Array(length);
+  for (let i = 0; i < length; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / length);
+  return window;
+};
+
+// ratio = output length / input length (> 1 slows the voice down, < 1 speeds it up)
+export const timeStretch = (input: Float32Array, sampleRate: number, ratio: number): Float32Array => {
+  const outputLength = Math.round(input.length * ratio);
+  if (Math.abs(ratio - 1) < 1e-4) return input.slice();
+
+  const frame = Math.max(4, Math.round(sampleRate * FRAME_SECONDS) & ~1);
+  const synthesisHop = frame / 2;
+  const analysisHop = synthesisHop / ratio;
+  const search = Math.round(sampleRate * SEARCH_SECONDS);
+  const window = hann(frame);
+
+  const output = new Float32Array(outputLength + frame);
+  const sampleAt = (i: number) => (i >= 0 && i < input.length ? input[i] : 0);
+
+  let previous = 0; // input position of the last frame copied
+  for (let k = 0; k * synthesisHop < outputLength; k++) {
+    const nominal = Math.round(k * analysisHop);
+    let position = nominal;
+
+    if (k > 0) {
+      // The input that would naturally follow the previous frame
+      const natural = previous + synthesisHop;
+      let bestScore = -Infinity;
+      for (let offset = -search; offset <= search; offset += SEARCH_STEP) {
+        const candidate = nominal + offset;
+        if (candidate < 0) continue;
+        let score = 0;
+        for (let i = 0; i < synthesisHop; i += SEARCH_STEP) score += sampleAt(candidate + i) * sampleAt(natural + i);
+        if (score > bestScore) {
+          bestScore = score;
+          position = candidate;
+        }
+      }
+    }
+
+    const outStart = k * synthesisHop;
+    for (let i = 0; i < frame; i++) output[outStart + i] += sampleAt(position + i) * window[i];
+    previous = position;
+  }
+
+  return output.subarray(0, outputLength);
+};
+
+// Stretches a voice buffer to an exact duration in seconds
+export const stretchAudioBuffer = (buffer: AudioBuffer, targetDuration: number): AudioBuffer => {
+  const ratio = targetDuration / buffer.duration;
+  const stretched = timeStretch(buffer.getChannelData(0), buffer.sampleRate, ratio);
+  const result = new AudioBuffer({ length: Math.max(1, stretched.length), numberOfChannels: 1, sampleRate: buffer.sampleRate });
+  result.getChannelData(0).set(stretched);
+  return result;
+};
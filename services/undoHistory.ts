@@ -0,0 +1,93 @@
+import { SpotState } from '../types';
+
+// Everything the user edits by hand. Undo/redo restores these fields together, so undoing a
+// script edit also brings back the voice take and music that went with it.
+export type EditSnapshot = Pick<
+  SpotState,
+  | 'script'
+  | 'audioBuffer'
+  | 'captionOverride'
+  | 'activeVariantId'
+  | 'voiceProfile'
+  | 'voiceStyle'
+  | 'speakerVoices'
+  | 'dialogueGap'
+  | 'jointDialogue'
+  | 'musicBuffer'
+  | 'musicFileName'
+  | 'musicFile'
+  | 'musicTrackId'
+  | 'musicEdit'
+  | 'sfxClips'
+  | 'sfxSounds'
+  | 'musicVolume'
+  | 'mixSettings'
+  | 'duration'
+  | 'brandKitId'
+  | 'endCard'
+  | 'slides'
+>;
+
+export interface UndoStack {
+  past: EditSnapshot[];
+  future: EditSnapshot[];
+  lastKey: string | null; // coalescing key of the latest recorded change
+  lastAt: number;
+}
+
+const MAX_UNDO_STEPS = 50;
+const COALESCE_MS = 1500;
+
+export const EMPTY_UNDO_STACK: UndoStack = { past: [], future: [], lastKey: null, lastAt: 0 };
+
+export const takeSnapshot = (state: SpotState): EditSnapshot => ({
+  script: state.script,
+  audioBuffer: state.audioBuffer,
+  captionOverride: state.captionOverride,
+  activeVariantId: state.activeVariantId,
+  voiceProfile: state.voiceProfile,
+  voiceStyle: state.voiceStyle,
+  speakerVoices: state.speakerVoices,
+  dialogueGap: state.dialogueGap,
+  jointDialogue: state.jointDialogue,
+  musicBuffer: state.musicBuffer,
+  musicFileName: state.musicFileName,
+  musicFile: state.musicFile,
+  musicTrackId: state.musicTrackId,
+  musicEdit: state.musicEdit,
+  sfxClips: state.sfxClips,
+  sfxSounds: state.sfxSounds,
+  musicVolume: state.musicVolume,
+  mixSettings: state.mixSettings,
+  duration: state.duration,
+  brandKitId: state.brandKitId,
+  endCard: state.endCard,
+  slides: state.slides,
+});
+
+// Records the state from before a change. Changes with the same key in quick succession
+// (typing, dragging a slider) collapse into a single undo step.
+export const pushUndo = (stack: UndoStack, snapshot: EditSnapshot, key: string | null = null, now: number = Date.now()): UndoStack => {
+  if (key && key === stack.lastKey && now - stack.lastAt < COALESCE_MS) {
+    return { ...stack, lastAt: now };
+  }
+  return { past: [...stack.past, snapshot].slice(-MAX_UNDO_STEPS), future: [], lastKey: key, lastAt: now };
+};
+
+export const undo = (stack: UndoStack, current: EditSnapshot): { stack: UndoStack; snapshot: EditSnapshot } | null => {
+  const snapshot = stack.past[stack.past.length - 1];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    stack: { past: stack.past.slice(0, -1), future: [current, ...stack.future], lastKey: null, lastAt: 0 },
+  };
+};
+
+export const redo = (stack: UndoStack, current: EditSnapshot): { stack: UndoStack; snapshot: EditSnapshot } | null => {
+  const snapshot = stack.future[0];
+  if (!snapshot) return null;
+  return {
+    snapshot,
+    stack: { past: [...stack.past, current], future: stack.future.slice(1), lastKey: null, lastAt: 0 },
+  };
+};
@@ -0,0 +1,137 @@
+import { drawSpotFrame, SpotScene } from './spotRenderer';
+
+export interface VideoExportOptions {
+  width: number;
+  height: number;
+  fps: number;
+  onProgress?: (progress: number) => void; // 0..1
+  signal?: AbortSignal;
+}
+
+export interface VideoExportResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+// Preferred containers, best first. MP4 is only offered by some browsers (Safari, recent Chrome).
+const MIME_CANDIDATES = [
+  'video/mp4;codecs=avc1.42E01F,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+// Returns the best recording format this browser can produce, or null if MediaRecorder is unavailable
+export const getSupportedVideoFormat = (): { mimeType: string; extension: 'mp4' | 'webm' } | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  const mimeType = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) return null;
+  return { mimeType, extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm' };
+};
+
+const abortError = () => new DOMException('Exportación cancelada', 'AbortError');
+
+// Renders the spot frame by frame into a detached canvas and records it together with the audio mix.
+// Frame N always shows the timeline at N / fps seconds; the audio clock only paces the recorder,
+// so the picture does not depend on how fast the browser manages to paint.
+export const exportVideo = async (
+  scene: SpotScene,
+  mixBuffer: AudioBuffer,
+  options: VideoExportOptions
+): Promise<VideoExportResult> => {
+  const { width, height, fps, onProgress, signal } = options;
+  if (signal?.aborted) throw abortError();
+
+  const format = getSupportedVideoFormat();
+  if (!format) throw new Error('Este navegador no soporta la grabación de video (MediaRecorder).');
+
+  // 1. Offscreen canvas for the video track
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No se pudo crear el lienzo de renderizado.');
+
+  const videoStream = canvas.captureStream(0);
+  const videoTrack = videoStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+  // 2. Audio track fed from the pre-rendered mix
+  const audioCtx = new AudioContext({ sampleRate: mixBuffer.sampleRate });
+  const audioDestination = audioCtx.createMediaStreamDestination();
+  const audioSource = audioCtx.createBufferSource();
+  audioSource.buffer = mixBuffer;
+  audioSource.connect(audioDestination);
+
+  const stream = new MediaStream([videoTrack, ...audioDestination.stream.getAudioTracks()]);
+  const recorder = new MediaRecorder(stream, {
+    mimeType: format.mimeType,
+    videoBitsPerSecond: Math.round(width * height * fps * 0.15),
+    audioBitsPerSecond: 192000,
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => {
+    recorder.onstop = () => resolve();
+  });
+
+  const cleanup = () => {
+    try {
+      audioSource.stop();
+      audioSource.disconnect();
+    } catch (e) { /* ignore */ }
+    videoStream.getTracks().forEach(track => track.stop());
+    audioDestination.stream.getTracks().forEach(track => track.stop());
+    audioCtx.close();
+  };
+
+  const totalFrames = Math.max(1, Math.ceil(mixBuffer.duration * fps));
+
+  try {
+    if (audioCtx.state === 'suspended') await audioCtx.resume();
+
+    // 3. Prime the first frame before the recorder starts so the file never opens on black
+    drawSpotFrame(ctx, width, height, 0, scene);
+    recorder.start(1000);
+    videoTrack.requestFrame();
+
+    const startAt = audioCtx.currentTime + 0.1;
+    audioSource.start(startAt);
+
+    // 4. Frame loop driven by the timeline clock
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) throw abortError();
+
+      const frameTime = frame / fps;
+      const wait = (startAt + frameTime - audioCtx.currentTime) * 1000;
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+      drawSpotFrame(ctx, width, height, frameTime, scene);
+      videoTrack.requestFrame();
+      onProgress?.(frame / totalFrames);
+    }
+
+    // Let the audio tail reach the recorder before closing the file
+    const tail = (startAt + mixBuffer.duration - audioCtx.currentTime) * 1000;
+    if (tail > 0) await new Promise(resolve => setTimeout(resolve, tail));
+
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+
+    return {
+      blob: new Blob(chunks, { type: format.mimeType.split(';')[0] }),
+      mimeType: format.mimeType,
+      extension: format.extension,
+    };
+  } catch (error) {
+    if (recorder.state !== 'inactive') recorder.stop();
+    throw error;
+  } finally {
+    cleanup();
+  }
+};
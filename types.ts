@@ -1,6 +1,5 @@
 export interface SpotState {
-  image: File | null;
-  imageUrl: string | null;
+  slides: Slide[]; // in screen order; the first one is the project thumbnail
   isAnalyzing: boolean;
   isGeneratingVoice: boolean;
   isRewriting: boolean;
@@ -10,10 +9,30 @@ export interface SpotState {
   audioBuffer: AudioBuffer | null;
   musicBuffer: AudioBuffer | null;
   musicFileName: string | null;
+  musicFile: File | null; // original upload, kept so projects can store it
+  musicTrackId: string | null; // library track the music came from
+  musicEdit: MusicEdit; // how the music file is laid under the spot
+  sfxClips: SfxClip[]; // sound effects and stingers on the timeline
+  sfxSounds: Record<string, SfxSound>; // decoded audio of the clips, keyed by sound id
   voiceProfile: string;
   voiceStyle: string;
+  scriptFormat: ScriptFormat; // format requested from the AI when writing scripts
+  speakerVoices: Record<string, string>; // dialogue speaker tag -> voice id from VOICES
+  dialogueGap: number; // seconds of silence between dialogue lines
+  jointDialogue: boolean; // synthesize dialogue in one multi-speaker request when the provider supports it
+  fitDuration: boolean; // rewrite / time-stretch the voice to exactly `duration`
   musicVolume: number;
+  mixSettings: MixSettings;
+  loudnessTarget: string; // id from LOUDNESS_TARGETS
   duration: number; // in seconds
+  outputPreset: string; // id from OUTPUT_PRESETS
+  captionOverride: CaptionCue[] | null; // imported subtitle timing, replaces the automatic captions
+  variants: ScriptVariant[];
+  activeVariantId: string | null; // variant whose script and voice are loaded in script / audioBuffer
+  scriptHistory: ScriptVersion[]; // oldest first
+  brandKitId: string | null; // saved client identity applied to the spot
+  endCard: EndCardSettings;
+  motionTemplateId: string | null; // id from MOTION_TEMPLATES; null follows the detected mood
 }
 
 export interface AnalysisResult {
@@ -23,6 +42,40 @@ export interface AnalysisResult {
   detectedProducts: string[];
 }
 
+// When a slide comes up. Automatic slides start on the first mention of what they show, or share
+// the time left evenly; the others last a set time or start on a word of the voice.
+export type SlideTiming =
+  | { type: 'auto' }
+  | { type: 'duration'; seconds: number }
+  | { type: 'word'; index: number; word: string }; // same anchor as sound effects: survives edits around the word
+
+export interface Slide {
+  id: string;
+  image: File;
+  imageUrl: string; // object URL of `image`
+  timing: SlideTiming;
+  regions: FocusRegion[];
+}
+
+// Rectangle on the image as fractions of its width and height, from the top-left corner
+export interface FocusBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FocusKind = 'headline' | 'price' | 'product';
+
+// Something the camera should keep in frame and can zoom in on
+export interface FocusRegion {
+  id: string;
+  kind: FocusKind;
+  label: string; // the headline or price as printed, or the product name from detectedProducts
+  box: FocusBox;
+  spotlight: boolean; // zoom in on it while the voice mentions it
+}
+
 export interface VoiceOption {
   id: string;
   name: string;
@@ -34,4 +87,414 @@ export interface VoiceStyle {
   id: string;
   name: string;
   instruction: string;
-}
\ No newline at end of file
+}
+
+// Seconds into the music file
+export interface MusicLoop {
+  start: number;
+  end: number;
+}
+
+// Trim and loop points of the music file, applied identically by the preview and the exports
+export interface MusicEdit {
+  offset: number; // seconds into the file where the music starts
+  loop: MusicLoop | null; // section that repeats under the voice; null loops the whole file
+  crossfade: number; // seconds of overlap at each loop seam
+  fitEnding: boolean; // finish on the file's own ending (after the loop section), aligned to the end of the spot
+}
+
+// The music as it goes into the mix
+export interface MusicBed {
+  buffer: AudioBuffer;
+  edit: MusicEdit;
+}
+
+export type MusicEnergy = 'low' | 'medium' | 'high';
+
+// A library track: generated in the browser (built-in) or registered by the user
+export interface MusicTrack {
+  id: string;
+  name: string;
+  moods: string[]; // ids from MUSIC_MOODS
+  tempo: number | null; // BPM
+  energy: MusicEnergy;
+  builtin: boolean;
+  loop: MusicLoop | null; // suggested loop section
+}
+
+export interface StoredMusicTrack extends MusicTrack {
+  fileName: string;
+  data: Blob;
+  createdAt: number;
+}
+
+export interface MusicMood {
+  id: string;
+  name: string;
+  keywords: string[]; // accent-free stems matched against AnalysisResult.mood
+}
+
+// Where a sound effect sits: at a fixed time of the spot, or on a word of the script
+export type SfxAnchor =
+  | { type: 'time'; time: number }
+  | { type: 'word'; index: number; word: string }; // index into the spoken words; the text finds it again after edits
+
+export interface SfxClip {
+  id: string;
+  soundId: string; // built-in effect id, or the id of an uploaded sound
+  name: string;
+  track: number; // effects lane on the timeline
+  anchor: SfxAnchor;
+  offset: number; // seconds relative to the anchor, e.g. a whoosh leading into the word
+  gainDb: number;
+  fadeIn: number;
+  fadeOut: number;
+}
+
+export interface SfxSound {
+  name: string;
+  buffer: AudioBuffer;
+  file: File | null; // uploaded sounds keep their file so projects stay self-contained; built-ins are regenerated
+}
+
+// A clip resolved to spot time, as it goes into the mix
+export interface PlacedSfx {
+  buffer: AudioBuffer;
+  start: number; // seconds into the spot
+  gain: number; // linear
+  fadeIn: number;
+  fadeOut: number;
+}
+
+// Automation of the music bed around the voice, shared by the preview and every export
+export interface MixSettings {
+  ducking: boolean; // lower the music while the voice is speaking
+  duckDepthDb: number; // how far the music drops under the voice
+  duckAttack: number; // seconds to reach the ducked level
+  duckRelease: number; // seconds to recover after the voice pauses
+  preRoll: number; // seconds of music before the voice comes in
+  postRoll: number; // seconds of music after the voice ends
+  fadeIn: number; // seconds, from the start of the spot
+  fadeOut: number; // seconds, ending at the end of the spot
+}
+
+export type ScriptFormat = 'monologue' | 'dialogue';
+
+// One turn of a dialogue script ("CARLOS: ¿Ya viste las ofertas?")
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// Creative direction for a script variant
+export interface ScriptAngle {
+  id: string;
+  name: string;
+  instruction: string;
+}
+
+// Alternative script for the same image, with its own voice take for A/B listening
+export interface ScriptVariant {
+  id: string;
+  angle: string; // id from SCRIPT_ANGLES
+  script: string;
+  audioBuffer: AudioBuffer | null;
+  starred: boolean;
+}
+
+export type ScriptVersionSource = 'analysis' | 'rewrite' | 'duration' | 'manual';
+
+// A saved state of the script text, kept so good copy is never lost to a rewrite
+export interface ScriptVersion {
+  id: string;
+  script: string;
+  source: ScriptVersionSource;
+  createdAt: number;
+}
+
+// Margins kept clear of platform UI, as fractions of the frame size
+export interface SafeArea {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface OutputPreset {
+  id: string;
+  name: string;
+  aspectRatio: string; // display label, e.g. "9:16"
+  width: number; // native resolution
+  height: number;
+  safeArea: SafeArea;
+}
+
+// Delivery spec the exported mix is normalized to
+export interface LoudnessTarget {
+  id: string;
+  name: string;
+  lufs: number | null; // integrated loudness; null exports the mix as it is (measured only)
+  truePeak: number; // ceiling in dBTP
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS, -Infinity for silence
+  truePeak: number; // dBTP
+}
+
+export interface LoudnessReport {
+  target: LoudnessTarget;
+  input: LoudnessMeasurement; // the mix as rendered
+  output: LoudnessMeasurement; // what gets encoded
+  gainDb: number; // static gain applied to reach the target
+  limiterDb: number; // deepest gain reduction of the peak limiter (0 when it never engaged)
+}
+
+// The full mix, or one of its parts rendered alone for remixing in a DAW
+export type AudioStem = 'mix' | 'voice' | 'music' | 'sfx';
+
+export type AudioFileFormat = 'wav' | 'mp3';
+
+export interface AudioExportOptions {
+  format: AudioFileFormat;
+  sampleRate: number;
+  bitDepth: number; // WAV only: 16 or 24
+  channels: number; // 1 (mono) or 2 (stereo)
+  mp3Bitrate: number; // kbps, constant bitrate
+  stems: boolean; // also export voice-only and music-only files (zipped with the mix)
+}
+
+// A word of the script placed on the voice timeline (seconds)
+export interface CaptionWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// One caption screen: the words shown together
+export interface CaptionCue {
+  start: number;
+  end: number;
+  words: CaptionWord[];
+}
+
+// The editable settings of a spot, as stored in a project
+export interface ProjectSettings {
+  analysisData: AnalysisResult | null;
+  script: string;
+  voiceProfile: string;
+  voiceStyle: string;
+  scriptFormat?: ScriptFormat;
+  speakerVoices?: Record<string, string>;
+  dialogueGap?: number;
+  jointDialogue?: boolean;
+  fitDuration?: boolean;
+  musicVolume: number;
+  musicTrackId?: string | null;
+  musicLoop?: MusicLoop | null; // before MusicEdit, only the loop section was stored
+  musicEdit?: MusicEdit;
+  sfxClips?: SfxClip[];
+  mixSettings?: MixSettings;
+  loudnessTarget?: string;
+  musicFileName: string | null;
+  duration: number;
+  outputPreset: string;
+  captionOverride: CaptionCue[] | null;
+  variants?: Omit<ScriptVariant, 'audioBuffer'>[]; // absent in projects saved before variants existed
+  activeVariantId?: string | null;
+  scriptHistory?: ScriptVersion[];
+  brandKitId?: string | null;
+  endCard?: EndCardSettings;
+  motionTemplateId?: string | null;
+  slides?: StoredSlide[]; // absent in single-image projects, whose image is assets.image
+}
+
+// A slide's settings in a project; its image is in assets.slides under the same id
+export type StoredSlide = Omit<Slide, 'image' | 'imageUrl'>;
+
+export interface ProjectAsset {
+  name: string;
+  type: string;
+  data: Blob;
+}
+
+// Generated voice as raw mono Int16 PCM, the same shape the TTS API returns
+export interface VoiceAsset {
+  sampleRate: number;
+  pcm: ArrayBuffer;
+}
+
+export interface SpotProject {
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  thumbnail: string | null; // small JPEG data URL for the project list
+  settings: ProjectSettings;
+  assets: {
+    image: ProjectAsset | null; // the only image of projects saved before slideshows
+    slides?: Record<string, ProjectAsset>; // keyed by slide id
+    music: ProjectAsset | null;
+    voice: VoiceAsset | null;
+    variantVoices?: Record<string, VoiceAsset>; // keyed by variant id
+    sfx?: Record<string, ProjectAsset>; // uploaded effect sounds, keyed by sound id
+  };
+}
+
+export type ProjectSummary = Pick<SpotProject, 'id' | 'name' | 'createdAt' | 'updatedAt' | 'thumbnail'>;
+
+export type BatchItemStatus = 'pending' | 'analyzing' | 'voicing' | 'mixing' | 'done' | 'error';
+
+// Preset applied to every flyer of a batch run
+export interface BatchSettings {
+  voiceProfile: string;
+  voiceStyle: string;
+  duration: number;
+  musicVolume: number;
+  mixSettings: MixSettings; // taken from the editor; the batch panel has no mix controls of its own
+  loudnessTarget: string;
+}
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchItemStatus;
+  error: string | null;
+  analysis: AnalysisResult | null;
+  script: string;
+  voiceDuration: number | null; // seconds
+  duration: number | null; // seconds of the whole spot, music intro and outro included
+  mix: Blob | null; // WAV
+  subtitles: string | null; // SRT
+}
+
+export interface RewriteOptions {
+  angleInstruction?: string; // steers the copy towards a creative angle from SCRIPT_ANGLES
+  format?: ScriptFormat;
+  // Trim or expand an existing script instead of writing a new one
+  fitFrom?: { script: string; spokenSeconds: number };
+  brand?: BrandBrief | null;
+}
+
+// Contract every AI backend implements (Gemini, OpenAI-compatible servers, offline mock)
+export interface AIProvider {
+  readonly id: string;
+  readonly name: string;
+  // The voice model currently in use; part of the speech cache key, so changing it re-synthesizes
+  readonly speechModel: string;
+  isConfigured(): boolean;
+  // Cheap request that fails with the API's own error if the key, URL or models are wrong
+  testConnection(): Promise<void>;
+  // All the images of a spot in one request, so the script walks through them in order.
+  // Regions come back per image, in the order of `files`.
+  analyzeImages(files: File[], duration?: number, format?: ScriptFormat, brand?: BrandBrief | null): Promise<ImageAnalysis>;
+  rewriteScript(analysis: AnalysisResult, duration: number, options?: RewriteOptions): Promise<string>;
+  // Returns raw PCM 16-bit mono at 24 kHz. voiceName is the Gemini prebuilt voice from VOICES;
+  // other providers map it onto their own voices.
+  generateSpeech(text: string, voiceName: string, styleInstruction?: string): Promise<ArrayBuffer>;
+  // Native multi-speaker TTS: the whole dialogue in one request, same PCM format as generateSpeech.
+  // voiceNames maps each speaker tag to a Gemini prebuilt voice.
+  readonly maxDialogueSpeakers?: number;
+  generateDialogue?(lines: DialogueLine[], voiceNames: Record<string, string>, styleInstruction?: string): Promise<ArrayBuffer>;
+}
+
+// Synthesized speech kept in IndexedDB, so the same text, voice, style and model never hit the API twice
+export interface SpeechCacheEntry {
+  key: string; // SHA-256 of provider, model, voice, style and text
+  text: string;
+  voiceName: string;
+  style: string;
+  model: string;
+  pcm: ArrayBuffer; // 16-bit mono at 24 kHz, as returned by the provider
+  size: number;
+  createdAt: number;
+  lastUsed: number;
+  hits: number;
+}
+
+// Models used by a provider for each step of the pipeline
+export interface ProviderModels {
+  analysisModel: string;
+  rewriteModel: string;
+  ttsModel: string;
+}
+
+// Saved identity of a recurring client, applied on top of what the analysis detects in each flyer
+export interface BrandKit {
+  id: string;
+  name: string;
+  logo: Blob | null;
+  colors: string[]; // palette, primary first; replaces AnalysisResult.brandColors
+  headlineFont: string; // family from BRAND_FONTS
+  bodyFont: string;
+  tagline: string;
+  voiceProfile: string | null; // preferred voice id from VOICES
+  voiceStyle: string | null; // preferred id from VOICE_STYLES
+  disclaimers: string[]; // mandatory legal lines, read in the spot and shown on the end card
+  createdAt: number;
+}
+
+// Closing segment appended after the spot: call to action, contact details and a QR code
+export interface EndCardSettings {
+  enabled: boolean;
+  duration: number; // seconds added to the spot, audio included
+  cta: string; // "Visítanos en..."
+  phone: string;
+  address: string;
+  url: string; // encoded in the QR code
+}
+
+export type OverlayStyle = 'dark' | 'gradient' | 'vignette' | 'tint' | 'none';
+export type HeadlineAnimation = 'drop' | 'fade' | 'pop' | 'slide' | 'typewriter';
+export type CaptionAnimation = 'cut' | 'fade' | 'pop' | 'rise';
+export type SceneTransition = 'fade' | 'flash' | 'wipe' | 'iris';
+
+// The look of the picture: how the camera moves over the flyer, how text comes in and how scenes change
+export interface MotionTemplate {
+  id: string;
+  name: string;
+  description: string;
+  moods: string[]; // ids from MUSIC_MOODS it is suggested for
+  zoomFrom: number; // scale of the flyer at the start and end of the spot; above 1 crops in
+  zoomTo: number;
+  panX: number; // drift over the spot as a fraction of the frame; positive goes right / down
+  panY: number;
+  punchZoom: number; // extra scale kicked in on each music beat (each new caption without a tempo), 0 for none
+  overlay: OverlayStyle;
+  headline: HeadlineAnimation;
+  caption: CaptionAnimation;
+  transition: SceneTransition; // between slides and into the end card
+}
+
+export interface ImageAnalysis {
+  analysis: AnalysisResult;
+  script: string;
+  regions: FocusRegion[][];
+}
+
+// What the copywriting prompts need to know about the brand
+export type BrandBrief = Pick<BrandKit, 'name' | 'tagline' | 'disclaimers'>;
+
+// A word the voice should say differently than it is written (brand names, abbreviations)
+export interface PronunciationEntry {
+  id: string;
+  term: string; // as written in the script
+  spoken: string; // what the voice is sent instead
+  caseSensitive: boolean;
+}
+
+// Pronunciation lexicon of this browser, applied only to the text sent to the voice
+export interface PronunciationSettings {
+  entries: PronunciationEntry[];
+  normalizeNumbers: boolean; // spell out prices, percentages, promos, dates and phone numbers
+}
+
+// Runtime configuration entered in the settings panel and kept in this browser only
+export interface AISettings {
+  provider: string; // id of the active AIProvider
+  gemini: ProviderModels & { apiKey: string };
+  openai: ProviderModels & { baseUrl: string; apiKey: string };
+  retries: number; // attempts per API call on 429 / 5xx
+  retryDelayMs: number; // first backoff delay, doubled on every attempt
+}